@@ -60,13 +60,38 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.workspace.getConfiguration('kamailioKemi').get<string[]>('extraPaths') || []
   ).map((p) => p.replace(/\$\{workspaceFolder\}/g, workspaceFolder));
 
+  // Optional KEMI API dump (`kamctl rpc app_python3.api_list` output)
+  const kemiApiSetting = (
+    vscode.workspace.getConfiguration('kamailioKemi').get<string>('kemiApiFile') || ''
+  ).replace(/\$\{workspaceFolder\}/g, workspaceFolder);
+  const kemiApiFile = kemiApiSetting ? path.resolve(workspaceFolder, kemiApiSetting) : '';
+
+  const fileWatchers = [
+    vscode.workspace.createFileSystemWatcher('**/*.py'),
+    vscode.workspace.createFileSystemWatcher('**/*.cfg'),
+  ];
+  if (kemiApiFile) {
+    fileWatchers.push(vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(path.dirname(kemiApiFile), path.basename(kemiApiFile))
+    ));
+  }
+
   const clientOptions: LanguageClientOptions = {
-    documentSelector: [{ scheme: 'file', language: 'python' }],
+    documentSelector: [
+      { scheme: 'file', language: 'python' },
+      // Go to Definition from event callback names in kamailio.cfg
+      { scheme: 'file', pattern: '**/*.cfg' },
+    ],
     synchronize: {
-      fileEvents: vscode.workspace.createFileSystemWatcher('**/*.py'),
+      fileEvents: fileWatchers,
     },
     initializationOptions: {
       extraPaths: [...pythonExtraPaths, ...kamailioExtraPaths],
+      kemiApiFile,
+      kamailioVersion: vscode.workspace.getConfiguration('kamailioKemi').get<string>('kamailioVersion') || '',
+      uncheckedReturnAllowlist:
+        vscode.workspace.getConfiguration('kamailioKemi').get<string[]>('uncheckedReturnAllowlist') || [],
+      deadCodeRoots: vscode.workspace.getConfiguration('kamailioKemi').get<string[]>('deadCodeRoots') || [],
     },
   };
 
@@ -85,6 +110,7 @@ export function activate(context: vscode.ExtensionContext) {
   });
 
   context.subscriptions.push(
+    vscode.commands.registerCommand('kamailioKemi.exportCallGraph', exportCallGraph),
     pvTypeDecoration,
     pvNameDecoration,
     pvBuiltinDecoration,
@@ -92,6 +118,20 @@ export function activate(context: vscode.ExtensionContext) {
   );
 }
 
+async function exportCallGraph(): Promise<void> {
+  const picked = await vscode.window.showQuickPick(
+    [
+      { label: 'Graphviz DOT', format: 'dot' },
+      { label: 'Mermaid', format: 'mermaid' },
+    ],
+    { placeHolder: 'Call graph format' }
+  );
+  if (!picked) return;
+  const content = await client.sendRequest<string>('kamailio/exportCallGraph', { format: picked.format });
+  const doc = await vscode.workspace.openTextDocument({ content, language: picked.format });
+  await vscode.window.showTextDocument(doc);
+}
+
 function applyDecorations(data: PvDecorationData): void {
   const editor = vscode.window.visibleTextEditors.find(
     (e) => e.document.uri.toString() === data.uri
@@ -2,7 +2,10 @@ import { describe, it, expect, beforeAll } from 'vitest';
 import Parser from 'web-tree-sitter';
 import { CallGraph } from '../analyzers/callGraphAnalyzer/callGraph';
 import { ImportResolver } from '../analyzers/callGraphAnalyzer/importResolver';
-import { extractFunctions } from '../analyzers/callGraphAnalyzer/functionExtractor';
+import { extractFunctions, findUnreachableCode } from '../analyzers/callGraphAnalyzer/functionExtractor';
+import { CallGraphAnalyzer } from '../analyzers/callGraphAnalyzer/index';
+import { CfgCallbackDeclaration, parseCfgCallbacks } from '../core/workspaceIndexer';
+import { formatDot, formatMermaid } from '../analyzers/callGraphAnalyzer/callGraphExport';
 import { createTestParser } from './helpers/treeSitter';
 
 let parser: Parser;
@@ -220,3 +223,582 @@ describe('FunctionExtractor', () => {
     expect(fns[0].def.parameters).toEqual(['msg', 'ctx']);
   });
 });
+
+describe('Unreachable code', () => {
+  function unreachableIn(code: string, neverReturns: string[] = []) {
+    const fns = extractFunctions(parser.parse(code), 'file:///a.py');
+    const fn = fns.find(f => f.def.name === 'route')!;
+    return findUnreachableCode(fn.flow, (callee) => neverReturns.includes(callee));
+  }
+
+  it('flags statements after KSR.x.exit() up to the end of the block', () => {
+    const code = [
+      'def route(msg):',
+      '    KSR.x.exit()',
+      '    KSR.info("a")',
+      '    KSR.info("b")',
+    ].join('\n');
+    const found = unreachableIn(code);
+    expect(found).toHaveLength(1);
+    expect(found[0].cause).toBe('KSR.x.exit()');
+    expect(found[0].range.startPosition).toEqual({ row: 2, column: 4 });
+    expect(found[0].range.endPosition).toEqual({ row: 3, column: 17 });
+  });
+
+  it('flags code after a return inside a branch only within that branch', () => {
+    const code = [
+      'def route(msg):',
+      '    if KSR.is_CANCEL():',
+      '        return 1',
+      '        KSR.info("dead")',
+      '    KSR.info("alive")',
+    ].join('\n');
+    const found = unreachableIn(code);
+    expect(found.map(f => [f.cause, f.range.startPosition.row])).toEqual([['return', 3]]);
+  });
+
+  it('flags code after an if whose branches all end the flow', () => {
+    const code = [
+      'def route(msg):',
+      '    if KSR.is_INVITE():',
+      '        KSR.x.drop()',
+      '    else:',
+      '        return -1',
+      '    KSR.info("dead")',
+    ].join('\n');
+    const found = unreachableIn(code);
+    expect(found.map(f => f.causeKind)).toEqual(['compound']);
+  });
+
+  it('does not flag code after an if without else or after loops', () => {
+    const code = [
+      'def route(msg):',
+      '    if KSR.is_INVITE():',
+      '        KSR.x.exit()',
+      '    for i in range(3):',
+      '        return',
+      '    KSR.info("alive")',
+    ].join('\n');
+    expect(unreachableIn(code)).toEqual([]);
+  });
+
+  it('treats calls to non-returning helpers as the end of the flow', () => {
+    const code = [
+      'def route(msg):',
+      '    reject(403)',
+      '    KSR.info("dead")',
+    ].join('\n');
+    expect(unreachableIn(code)).toEqual([]);
+    expect(unreachableIn(code, ['reject'])[0].cause).toBe('reject');
+  });
+
+  it('marks helpers that always exit as non-returning in the call graph', () => {
+    const cga = new CallGraphAnalyzer(() => [], () => new Set());
+    const helpers = [
+      'def reject(code):',
+      '    KSR.sl.send_reply(code, "Forbidden")',
+      '    KSR.x.exit()',
+      '',
+      'def reject_twice(code):',
+      '    reject(code)',
+      '',
+      'def maybe_reject(code):',
+      '    if code:',
+      '        reject(code)',
+    ].join('\n');
+    const main = [
+      'from helpers import *',
+      'def route(msg):',
+      '    reject_twice(403)',
+      '    KSR.info("dead")',
+      '',
+      'def other(msg):',
+      '    maybe_reject(403)',
+      '    KSR.info("alive")',
+    ].join('\n');
+    for (const [uri, code] of [['file:///helpers.py', helpers], ['file:///main.py', main]]) {
+      cga.analyze({ uri, tree: parser.parse(code), changedRanges: [], isFullParse: true, fullText: code });
+    }
+    const diags = cga.getDiagnostics({ uri: 'file:///main.py', tree: parser.parse(main), fullText: main })
+      .filter(d => d.code === 'unreachable-code');
+    expect(diags.map(d => [d.message, d.range.start.line])).toEqual([
+      ["Unreachable code: 'reject_twice' never returns", 3],
+    ]);
+    expect(diags[0].tags).toEqual([1]); // DiagnosticTag.Unnecessary
+
+    const cg = cga.getCallGraph();
+    expect(cg.getFunction(CallGraph.qualifiedKey('file:///helpers.py', 'reject_twice'))!.neverReturns).toBe(true);
+    expect(cg.getFunction(CallGraph.qualifiedKey('file:///helpers.py', 'maybe_reject'))!.neverReturns).toBe(false);
+  });
+});
+
+describe('KEMI entry points', () => {
+  function analyzeEntry(code: string) {
+    const cga = new CallGraphAnalyzer(() => [], () => new Set());
+    const tree = parser.parse(code);
+    cga.analyze({ uri: 'file:///kamailio.py', tree, changedRanges: [], isFullParse: true, fullText: code });
+    const diags = cga.getDiagnostics({ uri: 'file:///kamailio.py', tree, fullText: code })
+      .filter(d => d.source === 'kamailio-entry');
+    return { cga, tree, diags };
+  }
+
+  it('records the route type of each entry method', () => {
+    const { cga, diags } = analyzeEntry([
+      'def mod_init():',
+      '    return kamailio()',
+      '',
+      'class kamailio:',
+      '    def child_init(self, rank):',
+      '        return 0',
+      '    def ksr_request_route(self, msg):',
+      '        return 1',
+      '    def ksr_reply_route(self, msg):',
+      '        return 1',
+      '    def ksr_onsend_route(self, msg):',
+      '        return 1',
+    ].join('\n'));
+    expect(diags).toEqual([]);
+    const routes = cga.getCallGraph().getEntryPoints().map(n => [n.def.name, n.entryRoute]);
+    expect(routes).toEqual(expect.arrayContaining([
+      ['mod_init', 'init'],
+      ['child_init', 'init'],
+      ['ksr_request_route', 'request'],
+      ['ksr_reply_route', 'reply'],
+      ['ksr_onsend_route', 'onsend'],
+    ]));
+    expect(routes).toHaveLength(5);
+  });
+
+  it('reports a missing mod_init', () => {
+    const { diags } = analyzeEntry('class kamailio:\n    def ksr_request_route(self, msg):\n        return 1');
+    expect(diags.map(d => d.code)).toEqual(['missing-mod-init']);
+  });
+
+  it('reports mod_init returning the class instead of an instance, with a quick fix', () => {
+    const code = 'def mod_init():\n    return kamailio\n\nclass kamailio:\n    def ksr_request_route(self, msg):\n        return 1';
+    const { cga, tree, diags } = analyzeEntry(code);
+    expect(diags.map(d => d.code)).toEqual(['mod-init-returns-class']);
+    const unreachable = cga.getDiagnostics({ uri: 'file:///kamailio.py', tree, fullText: code })
+      .filter(d => d.code === 'unreachable-function');
+    expect(unreachable).toEqual([]);
+    const actions = cga.getCodeActions({ uri: 'file:///kamailio.py', tree, fullText: code }, diags[0].range, diags);
+    expect(actions[0].edit!.changes!['file:///kamailio.py'][0].newText).toBe('kamailio()');
+  });
+
+  it('validates entry method signatures and near-miss names', () => {
+    const { diags } = analyzeEntry([
+      'def mod_init():',
+      '    return kamailio()',
+      '',
+      'class kamailio:',
+      '    def ksr_request_route(self):',
+      '        return 1',
+      '    def ksr_reply_rout(self, msg):',
+      '        return 1',
+      '    def ksr_onsend_route(self, msg, extra=None):',
+      '        return 1',
+      '    def ksr_route_helper(self, msg):',
+      '        return 1',
+    ].join('\n'));
+    expect(diags.map(d => [d.code, d.range.start.line])).toEqual([
+      ['entry-point-signature', 4],
+      ['unknown-entry-point', 6],
+    ]);
+    expect(diags[0].message).toBe('ksr_request_route is called by Kamailio as ksr_request_route(self, msg)');
+    expect(diags[1].message).toContain("Did you mean 'ksr_reply_route'?");
+  });
+});
+
+describe('Callback registry', () => {
+  const uri = 'file:///kamailio.py';
+  const script = [
+    'class kamailio:',
+    '    def ksr_request_route(self, msg):',
+    '        KSR.tm.t_on_reply("ksr_onreply_manage")',
+    '        KSR.tmx.t_continue(1, 2, "ksr_resume")',
+    '        KSR.async.task_route("ksr_missing")',
+    '        KSR.http_async_client.query("http://x", "ksr_http_reply")',
+    '        KSR.tm.t_on_branch_failure(NAME)',
+    '',
+    '    def ksr_onreply_manage(self, msg):',
+    '        pass',
+    '',
+    '    def ksr_resume(self, msg):',
+    '        pass',
+    '',
+    '    def ksr_http_reply(self, msg):',
+    '        pass',
+    '',
+    'NAME = "ksr_branch_failure"',
+  ].join('\n');
+
+  function analyze(code: string) {
+    const cga = new CallGraphAnalyzer(() => [], () => new Set());
+    const tree = parser.parse(code);
+    cga.analyze({ uri, tree, changedRanges: [], isFullParse: true, fullText: code });
+    return { cga, doc: { uri, tree, fullText: code } };
+  }
+
+  it('validates route names at the registered argument of every callback function', () => {
+    const { cga, doc } = analyze(script);
+    const diags = cga.getDiagnostics(doc).filter(d => d.code === 'undefined-callback');
+    expect(diags.map(d => d.message)).toEqual([
+      "Callback function 'ksr_missing' is not defined in the workspace",
+      "Callback function 'ksr_branch_failure' is not defined in the workspace",
+    ]);
+  });
+
+  it('goes to the callback definition from a later argument', () => {
+    const { cga, doc } = analyze(script);
+    const defs = cga.getDefinitions(doc, { line: 3, character: 36 });
+    expect(defs.map(d => d.range.start.line)).toEqual([11]);
+  });
+
+  it('completes function names only at the route name argument', () => {
+    const { cga, doc } = analyze(script);
+    const atRoute = cga.getCompletions(doc, { line: 5, character: 52 });
+    expect(atRoute.map(c => c.label)).toContain('ksr_http_reply');
+    const atUrl = cga.getCompletions(doc, { line: 5, character: 40 });
+    expect(atUrl).toEqual([]);
+  });
+
+  it('assigns the route type of the registering function', () => {
+    const { cga } = analyze(script);
+    const routes = cga.getRouteTypes();
+    expect([...routes.get(CallGraph.qualifiedKey(uri, 'ksr_onreply_manage'))!]).toEqual(['onreply']);
+    expect([...routes.get(CallGraph.qualifiedKey(uri, 'ksr_resume'))!]).toEqual(['failure']);
+  });
+});
+
+describe('cfg event callbacks', () => {
+  const cfgUri = 'file:///etc/kamailio/kamailio.cfg';
+  const cfgLines = [
+    'modparam("htable", "event_callback", "ksr_htable_event")',
+    'modparam("rtimer", "exec", "timer=t1;route=ksr_timer")',
+    '# modparam("tm", "event_callback", "ksr_commented")',
+    'modparam("dispatcher", "event_callback", "ksr_dispatcher_event")',
+  ];
+  const cfgCallbacks = cfgLines.flatMap((line, i) => parseCfgCallbacks(line, cfgUri, i));
+  const script = [
+    'def mod_init():',
+    '    return kamailio()',
+    '',
+    'class kamailio:',
+    '    def ksr_request_route(self, msg):',
+    '        pass',
+    '',
+    '    def ksr_htable_event(self, evname):',
+    '        self.reload()',
+    '',
+    '    def ksr_timer(self, msg, evname):',
+    '        pass',
+    '',
+    '    def reload(self):',
+    '        pass',
+  ].join('\n');
+
+  function analyze(code: string, callbacks: CfgCallbackDeclaration[]) {
+    const cga = new CallGraphAnalyzer(() => [], () => new Set(), () => new Map(), () => callbacks);
+    const tree = parser.parse(code);
+    cga.analyze({ uri: 'file:///kamailio.py', tree, changedRanges: [], isFullParse: true, fullText: code });
+    return { cga, doc: { uri: 'file:///kamailio.py', tree, fullText: code } };
+  }
+
+  it('parses event_callback and rtimer exec modparams with name columns', () => {
+    expect(cfgCallbacks.map(cb => [cb.name, cb.module, cb.param, cb.line, cb.startColumn])).toEqual([
+      ['ksr_htable_event', 'htable', 'event_callback', 0, 38],
+      ['ksr_timer', 'rtimer', 'exec', 1, 43],
+      ['ksr_dispatcher_event', 'dispatcher', 'event_callback', 3, 42],
+    ]);
+  });
+
+  it('warns when the KEMI class has no method for a cfg callback', () => {
+    const { cga, doc } = analyze(script, cfgCallbacks);
+    const diags = cga.getDiagnostics(doc).filter(d => d.code === 'undefined-cfg-callback');
+    expect(diags.map(d => d.message)).toEqual([
+      "kamailio.cfg names 'ksr_dispatcher_event' as the dispatcher event_callback callback, but KEMI class 'kamailio' has no such method",
+    ]);
+    expect(diags[0].relatedInformation![0].location.range.start).toEqual({ line: 3, character: 42 });
+  });
+
+  it('goes to the KEMI method from the cfg string', () => {
+    const { cga } = analyze(script, cfgCallbacks);
+    expect(cga.getCfgCallbackDefinitions(cfgUri, { line: 1, character: 46 }).map(d => d.range.start.line)).toEqual([10]);
+    expect(cga.getCfgCallbackDefinitions(cfgUri, { line: 1, character: 20 })).toEqual([]);
+  });
+
+  it('treats cfg callbacks as entry points', () => {
+    const { cga } = analyze(script, cfgCallbacks);
+    const entries = cga.getCallGraph().getEntryPoints().map(n => [n.def.name, n.entryRoute]);
+    expect(entries).toContainEqual(['ksr_htable_event', 'event']);
+    expect(entries).toContainEqual(['ksr_timer', 'event']);
+    const routes = cga.getRouteTypes();
+    expect([...routes.get(CallGraph.qualifiedKey('file:///kamailio.py', 'reload'))!]).toEqual(['event']);
+  });
+});
+
+describe('Call hierarchy', () => {
+  const uri = 'file:///kamailio.py';
+  const script = [
+    'class kamailio:',
+    '    def ksr_request_route(self, msg):',
+    '        self.route_auth()',
+    '        KSR.tm.t_on_failure("ksr_failure_manage")',
+    '        self.route_auth()',
+    '',
+    '    def route_auth(self):',
+    '        pass',
+    '',
+    '    def ksr_failure_manage(self, msg):',
+    '        self.route_auth()',
+  ].join('\n');
+
+  function analyze() {
+    const cga = new CallGraphAnalyzer(() => [], () => new Set());
+    const tree = parser.parse(script);
+    cga.analyze({ uri, tree, changedRanges: [], isFullParse: true, fullText: script });
+    return { cga, doc: { uri, tree, fullText: script } };
+  }
+
+  it('prepares an item from a definition, a call or a callback string', () => {
+    const { cga, doc } = analyze();
+    expect(cga.prepareCallHierarchy(doc, { line: 6, character: 10 }).map(i => i.name)).toEqual(['route_auth']);
+    expect(cga.prepareCallHierarchy(doc, { line: 2, character: 14 }).map(i => i.name)).toEqual(['route_auth']);
+    expect(cga.prepareCallHierarchy(doc, { line: 3, character: 30 }).map(i => i.name)).toEqual(['ksr_failure_manage']);
+    expect(cga.prepareCallHierarchy(doc, { line: 1, character: 10 })[0].detail).toBe('request_route');
+  });
+
+  it('lists incoming calls with every call site, including callback registrations', () => {
+    const { cga, doc } = analyze();
+    const [auth] = cga.prepareCallHierarchy(doc, { line: 6, character: 10 });
+    const incoming = cga.getIncomingCalls(auth).map(c => [c.from.name, c.fromRanges.map(r => r.start.line)]);
+    expect(incoming).toEqual([['ksr_request_route', [2, 4]], ['ksr_failure_manage', [10]]]);
+
+    const [failure] = cga.prepareCallHierarchy(doc, { line: 9, character: 10 });
+    expect(cga.getIncomingCalls(failure).map(c => [c.from.name, c.fromRanges[0].start])).toEqual([
+      ['ksr_request_route', { line: 3, character: 29 }],
+    ]);
+  });
+
+  it('lists outgoing calls, with registered callbacks as synthetic calls', () => {
+    const { cga, doc } = analyze();
+    const [route] = cga.prepareCallHierarchy(doc, { line: 1, character: 10 });
+    expect(cga.getOutgoingCalls(route).map(c => [c.to.name, c.fromRanges.length])).toEqual([
+      ['route_auth', 2],
+      ['ksr_failure_manage', 1],
+    ]);
+  });
+});
+
+describe('Call graph export', () => {
+  const script = [
+    'def mod_init():',
+    '    return kamailio()',
+    '',
+    'class kamailio:',
+    '    def ksr_request_route(self, msg):',
+    '        self.route_auth()',
+    '        KSR.tm.t_on_failure("ksr_failure_manage")',
+    '',
+    '    def route_auth(self):',
+    '        KSR.pv.sets("$var(user)", "x")',
+    '        KSR.pv.sets("$ru", "sip:x@y")',
+    '',
+    '    def ksr_failure_manage(self, msg):',
+    '        pass',
+    '',
+    'def unused():',
+    '    pass',
+  ].join('\n');
+
+  function routingGraph() {
+    const cga = new CallGraphAnalyzer(() => [], () => new Set());
+    const tree = parser.parse(script);
+    cga.analyze({ uri: 'file:///kamailio.py', tree, changedRanges: [], isFullParse: true, fullText: script });
+    return cga.getRoutingGraph();
+  }
+
+  it('keeps only functions reachable from entry points', () => {
+    expect(routingGraph().nodes.map(n => n.name)).toEqual([
+      'mod_init', 'ksr_request_route', 'route_auth', 'ksr_failure_manage',
+    ]);
+  });
+
+  it('formats Graphviz DOT with callback edges and PV writes', () => {
+    expect(formatDot(routingGraph())).toBe([
+      'digraph kamailio {',
+      '  rankdir=LR;',
+      '  node [shape=box];',
+      '  n0 [label="mod_init\\n[mod_init/child_init]", style=bold];',
+      '  n1 [label="ksr_request_route\\n[request_route]", style=bold];',
+      '  n2 [label="route_auth\\nwrites: $ru, $var(user)"];',
+      '  n3 [label="ksr_failure_manage"];',
+      '  n1 -> n2;',
+      '  n1 -> n3 [label="tm.t_on_failure", style=dashed];',
+      '}',
+      '',
+    ].join('\n'));
+  });
+
+  it('formats a Mermaid flowchart', () => {
+    const lines = formatMermaid(routingGraph()).split('\n');
+    expect(lines[0]).toBe('flowchart LR');
+    expect(lines).toContain('  n2["route_auth<br/>writes: $ru, $var(user)"]');
+    expect(lines).toContain('  n1 -.->|"tm.t_on_failure"| n3');
+  });
+});
+
+describe('Dead code', () => {
+  const uri = 'file:///kamailio.py';
+  const script = [
+    'def mod_init():',
+    '    return kamailio()',
+    '',
+    'class kamailio:',
+    '    def ksr_request_route(self, msg):',
+    '        self.route_auth()',
+    '        KSR.tm.t_on_failure("ksr_failure_manage")',
+    '        helpers.cache.lookup(msg)',
+    '',
+    '    def route_auth(self):',
+    '        pass',
+    '',
+    '    def ksr_failure_manage(self, msg):',
+    '        pass',
+    '',
+    '    def __repr__(self):',
+    '        return "kamailio"',
+    '',
+    'def lookup(msg):',
+    '    pass',
+    '',
+    'def setup():',
+    '    pass',
+    '',
+    'def unused():',
+    '    orphan()',
+    '',
+    'def orphan():',
+    '    pass',
+    '',
+    'setup()',
+  ].join('\n');
+
+  function deadFunctions(code: string, extraRoots: string[] = []) {
+    const cga = new CallGraphAnalyzer(() => [], () => new Set());
+    cga.setExtraRoots(extraRoots);
+    const tree = parser.parse(code);
+    cga.analyze({ uri, tree, changedRanges: [], isFullParse: true, fullText: code });
+    return cga.getDiagnostics({ uri, tree, fullText: code })
+      .filter(d => d.code === 'unreachable-function')
+      .map(d => d.message);
+  }
+
+  it('reports functions unreachable from entry points, callbacks and module-level code', () => {
+    expect(deadFunctions(script)).toEqual([
+      "Function 'unused' is never reached from a KEMI entry point",
+      "Function 'orphan' is never reached from a KEMI entry point",
+    ]);
+  });
+
+  it('treats configured extra roots and their callees as reachable', () => {
+    expect(deadFunctions(script, ['unused'])).toEqual([]);
+  });
+
+  it('reports nothing without a KEMI entry point', () => {
+    expect(deadFunctions('def a():\n    pass')).toEqual([]);
+  });
+});
+
+describe('Callback rename', () => {
+  const routeUri = 'file:///kamailio.py';
+  const constsUri = 'file:///consts.py';
+  const routeScript = [
+    'from consts import FAILURE_ROUTE',
+    '',
+    'class kamailio:',
+    '    def ksr_request_route(self, msg):',
+    '        KSR.tm.t_on_failure("failure_route_ds")',
+    '        KSR.tm.t_on_failure(FAILURE_ROUTE)',
+    '        KSR.tm.t_on_failure(f"{PREFIX}_ds")',
+    '        self.failure_route_ds(msg)',
+    '        self.helper(msg)',
+    '',
+    '    def failure_route_ds(self, msg):',
+    '        pass',
+    '',
+    '    def helper(self, msg):',
+    '        pass',
+  ].join('\n');
+  const constsScript = 'FAILURE_ROUTE = "failure_route_ds"\nPREFIX = "failure_route"';
+
+  function analyze(cfgCallbacks: CfgCallbackDeclaration[] = []) {
+    const cga = new CallGraphAnalyzer(() => [], () => new Set(), () => new Map(), () => cfgCallbacks);
+    const constsTree = parser.parse(constsScript);
+    cga.analyze({ uri: constsUri, tree: constsTree, changedRanges: [], isFullParse: true, fullText: constsScript });
+    const tree = parser.parse(routeScript);
+    cga.analyze({ uri: routeUri, tree, changedRanges: [], isFullParse: true, fullText: routeScript });
+    return { cga, doc: { uri: routeUri, tree, fullText: routeScript } };
+  }
+
+  function editedPositions(edit: any) {
+    return Object.entries(edit.changes as Record<string, any[]>).flatMap(([uri, edits]) =>
+      edits.map(e => `${uri.replace('file:///', '')}:${e.range.start.line}:${e.range.start.character}:${e.newText}`));
+  }
+
+  it('renames the def, direct calls, literal route names and constant definitions', () => {
+    const { cga, doc } = analyze();
+    const edit = cga.getRenameEdits(doc, { line: 10, character: 10 }, 'failure_route_dispatch');
+    expect(editedPositions(edit).sort()).toEqual([
+      'consts.py:0:17:failure_route_dispatch',
+      'kamailio.py:10:8:failure_route_dispatch',
+      'kamailio.py:4:29:failure_route_dispatch',
+      'kamailio.py:7:13:failure_route_dispatch',
+    ]);
+  });
+
+  it('starts from a callback string or a call and updates cfg event callbacks', () => {
+    const cfg = parseCfgCallbacks('modparam("tm", "event_callback", "failure_route_ds")', 'file:///kamailio.cfg', 0);
+    const { cga, doc } = analyze(cfg);
+    expect(cga.prepareRename(doc, { line: 4, character: 33 })).toEqual({
+      start: { line: 4, character: 29 }, end: { line: 4, character: 45 },
+    });
+    const edit = cga.getRenameEdits(doc, { line: 7, character: 15 }, 'fr')!;
+    expect(edit.changes!['file:///kamailio.cfg']).toEqual([{
+      range: { start: { line: 0, character: 34 }, end: { line: 0, character: 50 } }, newText: 'fr',
+    }]);
+  });
+
+  it('renames only the function the name resolves to when several share it', () => {
+    const files: Record<string, string> = {
+      'file:///a.py': 'def setup():\n    KSR.tm.t_on_reply("on_reply")\n\ndef on_reply():\n    pass',
+      'file:///b.py': 'def on_reply():\n    pass\n\ndef run():\n    on_reply()',
+      'file:///c.py': 'def other():\n    KSR.tm.t_on_reply("on_reply")',
+    };
+    const cga = new CallGraphAnalyzer(() => [], () => new Set(), () => new Map(), () => []);
+    const docs: Record<string, any> = {};
+    for (const [uri, text] of Object.entries(files)) {
+      const tree = parser.parse(text);
+      cga.analyze({ uri, tree, changedRanges: [], isFullParse: true, fullText: text });
+      docs[uri] = { uri, tree, fullText: text };
+    }
+
+    const fromDef = cga.getRenameEdits(docs['file:///a.py'], { line: 3, character: 6 }, 'on_provisional');
+    expect(editedPositions(fromDef).sort()).toEqual([
+      'a.py:1:23:on_provisional',
+      'a.py:3:4:on_provisional',
+      'c.py:1:23:on_provisional',
+    ]);
+
+    // c.py registers a name it can't resolve to either function, so both are renamed
+    const fromString = cga.getRenameEdits(docs['file:///c.py'], { line: 1, character: 25 }, 'on_provisional');
+    expect(Object.keys(fromString!.changes!).sort()).toEqual(['file:///a.py', 'file:///b.py', 'file:///c.py']);
+  });
+
+  it('leaves functions that are not callbacks and invalid names to other providers', () => {
+    const { cga, doc } = analyze();
+    expect(cga.prepareRename(doc, { line: 13, character: 10 })).toBeNull();
+    expect(cga.prepareRename(doc, { line: 5, character: 30 })).toBeNull();
+    expect(cga.getRenameEdits(doc, { line: 10, character: 10 }, 'not a name')).toBeNull();
+  });
+});
@@ -14,13 +14,21 @@ import {
   DefinitionRequest,
   ReferencesRequest,
   SemanticTokensRequest,
+  SignatureHelpRequest,
+  CodeActionRequest,
   DidCloseTextDocumentNotification,
+  DidChangeWatchedFilesNotification,
+  FileChangeType,
   ProtocolConnection,
   CompletionList,
   CompletionItem,
   Hover,
   Location,
   SemanticTokens,
+  SignatureHelp,
+  CodeAction,
+  Command,
+  Range,
   Diagnostic,
   PublishDiagnosticsNotification,
   TextDocumentSyncKind,
@@ -126,6 +134,13 @@ export class TestLspClient {
     await this.sleep(100);
   }
 
+  async notifyFileChange(uri: string, type: FileChangeType): Promise<void> {
+    await this.connection.sendNotification(DidChangeWatchedFilesNotification.type, {
+      changes: [{ uri, type }],
+    });
+    await this.sleep(100);
+  }
+
   async getCompletions(uri: string, line: number, character: number): Promise<CompletionItem[]> {
     const result = await this.connection.sendRequest(CompletionRequest.type, {
       textDocument: { uri },
@@ -143,6 +158,22 @@ export class TestLspClient {
     });
   }
 
+  async getSignatureHelp(uri: string, line: number, character: number): Promise<SignatureHelp | null> {
+    return await this.connection.sendRequest(SignatureHelpRequest.type, {
+      textDocument: { uri },
+      position: { line, character },
+    });
+  }
+
+  async getCodeActions(uri: string, range: Range, diagnostics: Diagnostic[]): Promise<CodeAction[]> {
+    const result = await this.connection.sendRequest(CodeActionRequest.type, {
+      textDocument: { uri },
+      range,
+      context: { diagnostics },
+    });
+    return (result || []).filter((a): a is CodeAction => !Command.is(a));
+  }
+
   async getDefinitions(uri: string, line: number, character: number): Promise<Location[]> {
     const result = await this.connection.sendRequest(DefinitionRequest.type, {
       textDocument: { uri },
@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { FileChangeType } from 'vscode-languageserver-protocol/node';
 import { TestLspClient } from './lspClient';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -51,6 +52,15 @@ describe('E2E: Diagnostics', () => {
     const diags = client.getDiagnostics(uri);
     expect(diags.filter(d => d.code === 'undefined-pv')).toHaveLength(0);
   });
+
+  it('reports unknown KSR function with a suggestion', async () => {
+    const uri = 'file:///test/diag_unknown_kemi.py';
+    await client.openDocument(uri, 'KSR.dispacher.ds_is_from_list(1)');
+    const diags = await client.waitForDiagnostics(uri);
+    const kemiDiag = diags.find(d => d.code === 'unknown-kemi-module');
+    expect(kemiDiag).toBeDefined();
+    expect(kemiDiag!.message).toContain("Did you mean 'dispatcher'?");
+  });
 });
 
 describe('E2E: Completions', () => {
@@ -155,6 +165,16 @@ describe('E2E: Hover', () => {
     expect(content).toContain('$fU');
   });
 
+  it('returns hover info for KSR module functions', async () => {
+    const uri = 'file:///test/hover_kemi.py';
+    await client.openDocument(uri, 'KSR.dispatcher.ds_select_dst(1, 4)');
+    const hover = await client.getHover(uri, 0, 20);
+    expect(hover).not.toBeNull();
+    const content = (hover!.contents as any).value;
+    expect(content).toContain('KSR.dispatcher.ds_select_dst(set: int, alg: int) -> int');
+    expect(content).toContain('Module: `dispatcher`');
+  });
+
   it('returns null outside PV strings', async () => {
     const uri = 'file:///test/hover_outside.py';
     await client.openDocument(uri, 'print("hello")');
@@ -163,6 +183,18 @@ describe('E2E: Hover', () => {
   });
 });
 
+describe('E2E: Signature Help', () => {
+  it('shows KSR function parameters with the active one', async () => {
+    const uri = 'file:///test/sighelp.py';
+    const code = 'KSR.sl.send_reply(404, ';
+    await client.openDocument(uri, code);
+    const help = await client.getSignatureHelp(uri, 0, code.length);
+    expect(help).not.toBeNull();
+    expect(help!.signatures[0].label).toBe('KSR.sl.send_reply(code: int, reason: str) -> int');
+    expect(help!.activeParameter).toBe(1);
+  });
+});
+
 describe('E2E: Go to Definition', () => {
   it('navigates from get to sets', async () => {
     const uri = 'file:///test/def_nav.py';
@@ -1242,3 +1274,82 @@ describe('E2E: Statistics validation from kamailio.cfg', () => {
     )).toBe(true);
   });
 });
+
+describe('E2E: Loaded module validation from kamailio.cfg', () => {
+  let modClient: TestLspClient;
+  let tmpDir: string;
+
+  beforeAll(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kemi-loadmodule-test-'));
+    fs.writeFileSync(path.join(tmpDir, 'kamailio.cfg'), [
+      '#!KAMAILIO',
+      'loadmodule "tm.so"',
+      'loadmodule "sl.so"',
+      '',
+      'modparam("tm", "fr_timer", 30000)',
+    ].join('\n'));
+
+    modClient = await TestLspClient.start([
+      { uri: 'file://' + tmpDir, name: 'test-loadmodule' },
+    ]);
+    await new Promise(r => setTimeout(r, 500));
+  }, 15000);
+
+  afterAll(async () => {
+    await modClient.shutdown();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('warns when a KSR module is not loaded and offers to load it', async () => {
+    const uri = 'file://' + path.join(tmpDir, 'mod_missing.py');
+    await modClient.openDocument(uri, 'KSR.rtpengine.rtpengine_manage("")');
+    const diags = await modClient.waitForDiagnostics(uri);
+    const notLoaded = diags.find(d => d.code === 'kemi-module-not-loaded');
+    expect(notLoaded).toBeDefined();
+    expect(notLoaded!.message).toContain("'rtpengine'");
+
+    const actions = await modClient.getCodeActions(uri, notLoaded!.range, [notLoaded!]);
+    const cfgUri = 'file://' + path.join(tmpDir, 'kamailio.cfg');
+    const edit = actions[0].edit!.changes![cfgUri][0];
+    expect(edit.newText).toBe('loadmodule "rtpengine.so"\n');
+    expect(edit.range.start.line).toBe(3);
+  });
+
+  it('re-reads kamailio.cfg when it changes on disk', async () => {
+    const cfgPath = path.join(tmpDir, 'kamailio.cfg');
+    const uri = 'file://' + path.join(tmpDir, 'mod_added.py');
+    await modClient.openDocument(uri, 'KSR.dispatcher.ds_is_from_list(1)');
+    let diags = await modClient.waitForDiagnostics(uri);
+    expect(diags.some(d => d.code === 'kemi-module-not-loaded')).toBe(true);
+
+    const original = fs.readFileSync(cfgPath, 'utf-8');
+    fs.writeFileSync(cfgPath, original.replace('loadmodule "sl.so"', 'loadmodule "sl.so"\nloadmodule "dispatcher.so"'));
+    await modClient.notifyFileChange('file://' + cfgPath, FileChangeType.Changed);
+    diags = modClient.getDiagnostics(uri);
+    expect(diags.some(d => d.code === 'kemi-module-not-loaded')).toBe(false);
+
+    fs.writeFileSync(cfgPath, original);
+    await modClient.notifyFileChange('file://' + cfgPath, FileChangeType.Changed);
+  });
+
+  it('keeps modules another cfg file still loads when one is deleted', async () => {
+    const extraPath = path.join(tmpDir, 'extra.cfg');
+    fs.writeFileSync(extraPath, 'loadmodule "tm.so"\n');
+    await modClient.notifyFileChange('file://' + extraPath, FileChangeType.Created);
+    fs.rmSync(extraPath);
+    await modClient.notifyFileChange('file://' + extraPath, FileChangeType.Deleted);
+
+    const uri = 'file://' + path.join(tmpDir, 'mod_shared.py');
+    await modClient.openDocument(uri, 'KSR.tm.t_relay()');
+    await new Promise(r => setTimeout(r, 500));
+    expect(modClient.getDiagnostics(uri).filter(d => d.code === 'kemi-module-not-loaded')).toHaveLength(0);
+  });
+
+  it('does not warn for loaded modules and core functions', async () => {
+    const uri = 'file://' + path.join(tmpDir, 'mod_loaded.py');
+    await modClient.openDocument(uri, 'KSR.tm.t_relay()\nKSR.sl.send_reply(404, "Not Found")\nKSR.pv.sets("$var(x)", "y")');
+    await new Promise(r => setTimeout(r, 500));
+    const diags = modClient.getDiagnostics(uri);
+    expect(diags.filter(d => d.code === 'kemi-module-not-loaded')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { compareVersions, parseKamailioVersion, versionStatus } from '../core/kamailioVersion';
+
+describe('parseKamailioVersion', () => {
+  it('accepts major.minor with optional patch and v prefix', () => {
+    expect(parseKamailioVersion('5.6')).toEqual([5, 6]);
+    expect(parseKamailioVersion('v5.8.2')).toEqual([5, 8, 2]);
+    expect(parseKamailioVersion('5')).toBeNull();
+    expect(parseKamailioVersion('latest')).toBeNull();
+  });
+
+  it('compares numerically', () => {
+    expect(compareVersions('5.10', '5.9')).toBeGreaterThan(0);
+    expect(compareVersions('5.6', '5.6.0')).toBe(0);
+  });
+});
+
+describe('versionStatus', () => {
+  const def = { since: '5.4', deprecatedIn: '5.7', removedIn: '6.0' };
+
+  it('classifies the target version', () => {
+    expect(versionStatus(def, '5.3').kind).toBe('notYetAvailable');
+    expect(versionStatus(def, '5.4.1').kind).toBe('available');
+    expect(versionStatus(def, '5.8')).toEqual({ kind: 'deprecated', version: '5.7' });
+    expect(versionStatus(def, '6.0')).toEqual({ kind: 'removed', version: '6.0' });
+  });
+
+  it('treats everything as available without a target', () => {
+    expect(versionStatus(def, null).kind).toBe('available');
+  });
+});
@@ -0,0 +1,474 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import Parser from 'web-tree-sitter';
+import { KemiAnalyzer } from '../analyzers/kemiAnalyzer/index';
+import { CallGraphAnalyzer } from '../analyzers/callGraphAnalyzer/index';
+import { KemiCatalog, parseKemiApiDump } from '../analyzers/kemiAnalyzer/kemiCatalog';
+import { createTestParser } from './helpers/treeSitter';
+
+let parser: Parser;
+
+beforeAll(async () => {
+  parser = await createTestParser();
+});
+
+function docContext(uri: string, code: string) {
+  const tree = parser.parse(code);
+  return { uri, tree, fullText: code };
+}
+
+function analyzeCode(analyzer: KemiAnalyzer, uri: string, code: string) {
+  const tree = parser.parse(code);
+  analyzer.analyze({
+    uri,
+    tree,
+    changedRanges: [],
+    isFullParse: true,
+    fullText: code,
+  });
+  return { uri, tree, fullText: code };
+}
+
+describe('KemiAnalyzer - Completions', () => {
+  it('offers modules and core functions after KSR.', () => {
+    const analyzer = new KemiAnalyzer();
+    const code = 'def f():\n    KSR.';
+    const items = analyzer.getCompletions(docContext('test://a.py', code), { line: 1, character: 8 });
+    const labels = items.map((i) => i.label);
+    expect(labels).toContain('tm');
+    expect(labels).toContain('dispatcher');
+    expect(labels).toContain('info');
+    expect(labels).toContain('is_INVITE');
+  });
+
+  it('offers module functions after KSR.<module>.', () => {
+    const analyzer = new KemiAnalyzer();
+    const code = 'KSR.tm.t_';
+    const items = analyzer.getCompletions(docContext('test://a.py', code), { line: 0, character: 9 });
+    const relay = items.find((i) => i.label === 't_relay');
+    expect(relay).toBeDefined();
+    expect(relay!.detail).toBe('KSR.tm.t_relay() -> int');
+    // The typed partial name is replaced
+    const edit = relay!.textEdit as { range: { start: { character: number } } };
+    expect(edit.range.start.character).toBe(7);
+  });
+
+  it('includes parameter types in the function detail', () => {
+    const analyzer = new KemiAnalyzer();
+    const code = 'KSR.sl.';
+    const items = analyzer.getCompletions(docContext('test://a.py', code), { line: 0, character: 7 });
+    const sendReply = items.find((i) => i.label === 'send_reply');
+    expect(sendReply!.detail).toBe('KSR.sl.send_reply(code: int, reason: str) -> int');
+  });
+
+  it('offers KSR.pv methods from the catalog', () => {
+    const analyzer = new KemiAnalyzer();
+    const code = 'KSR.pv.';
+    const labels = analyzer.getCompletions(docContext('test://a.py', code), { line: 0, character: 7 }).map((i) => i.label);
+    expect(labels).toEqual(expect.arrayContaining(['get', 'sets', 'seti', 'unset']));
+  });
+
+  it('returns nothing for unknown modules or unrelated attributes', () => {
+    const analyzer = new KemiAnalyzer();
+    expect(analyzer.getCompletions(docContext('test://a.py', 'KSR.nope.'), { line: 0, character: 9 })).toEqual([]);
+    expect(analyzer.getCompletions(docContext('test://a.py', 'self.KSR.'), { line: 0, character: 9 })).toEqual([]);
+  });
+});
+
+describe('KemiAnalyzer - Signature Help', () => {
+  it('shows the signature and active parameter inside an unclosed call', () => {
+    const analyzer = new KemiAnalyzer();
+    const code = 'def f():\n    KSR.dispatcher.ds_select_dst(1, ';
+    const help = analyzer.getSignatureHelp(docContext('test://a.py', code), { line: 1, character: 36 });
+    expect(help).not.toBeNull();
+    expect(help!.signatures[0].label).toBe('KSR.dispatcher.ds_select_dst(set: int, alg: int) -> int');
+    expect(help!.activeParameter).toBe(1);
+    const [start, end] = help!.signatures[0].parameters![1].label as [number, number];
+    expect(help!.signatures[0].label.substring(start, end)).toBe('alg: int');
+  });
+
+  it('ignores commas inside strings and nested calls', () => {
+    const analyzer = new KemiAnalyzer();
+    const code = 'KSR.pv.sets("$var(a,b)", str(x, y)';
+    const help = analyzer.getSignatureHelp(docContext('test://a.py', code), { line: 0, character: code.length });
+    expect(help!.signatures[0].label).toContain('KSR.pv.sets(');
+    expect(help!.activeParameter).toBe(1);
+  });
+
+  it('works while typing inside a string argument', () => {
+    const analyzer = new KemiAnalyzer();
+    const code = 'KSR.tm.t_on_failure("fail';
+    const help = analyzer.getSignatureHelp(docContext('test://a.py', code), { line: 0, character: code.length });
+    expect(help!.activeParameter).toBe(0);
+    expect(help!.signatures[0].parameters![0].documentation).toContain('failure route');
+  });
+
+  it('supports core functions on KSR', () => {
+    const analyzer = new KemiAnalyzer();
+    const code = 'KSR.info(';
+    const help = analyzer.getSignatureHelp(docContext('test://a.py', code), { line: 0, character: 9 });
+    expect(help!.signatures[0].label).toBe('KSR.info(msg: str) -> None');
+  });
+
+  it('returns null outside KSR calls', () => {
+    const analyzer = new KemiAnalyzer();
+    const code = 'print(KSR.tm.t_relay(), ';
+    expect(analyzer.getSignatureHelp(docContext('test://a.py', code), { line: 0, character: code.length })).toBeNull();
+  });
+});
+
+describe('KemiAnalyzer - Hover', () => {
+  it('shows signature, description, return semantics and owning module', () => {
+    const analyzer = new KemiAnalyzer();
+    const doc = analyzeCode(analyzer, 'test://a.py', 'if KSR.tm.t_relay() < 0:\n    KSR.sl.sl_reply_error()');
+    const hover = analyzer.getHover(doc, { line: 0, character: 12 });
+    const value = (hover!.contents as { value: string }).value;
+    expect(value).toContain('KSR.tm.t_relay() -> int');
+    expect(value).toContain('Relay the request statefully');
+    expect(value).toContain('negative on failure');
+    expect(value).toContain('Module: `tm`');
+    expect(hover!.range).toEqual({ start: { line: 0, character: 10 }, end: { line: 0, character: 17 } });
+  });
+
+  it('documents parameters that have descriptions', () => {
+    const analyzer = new KemiAnalyzer();
+    const doc = analyzeCode(analyzer, 'test://a.py', 'KSR.dispatcher.ds_select_dst(1, 4)');
+    const value = (analyzer.getHover(doc, { line: 0, character: 20 })!.contents as { value: string }).value;
+    expect(value).toContain('- `set`: Dispatcher set id');
+  });
+
+  it('shows module info when hovering the module name', () => {
+    const analyzer = new KemiAnalyzer();
+    const doc = analyzeCode(analyzer, 'test://a.py', 'KSR.pv.get("$ru")');
+    const value = (analyzer.getHover(doc, { line: 0, character: 5 })!.contents as { value: string }).value;
+    expect(value).toContain('**KSR.pv**');
+    expect(value).toContain('Provided by Kamailio core');
+  });
+
+  it('returns null for unknown functions', () => {
+    const analyzer = new KemiAnalyzer();
+    const doc = analyzeCode(analyzer, 'test://a.py', 'KSR.tm.nope()');
+    expect(analyzer.getHover(doc, { line: 0, character: 9 })).toBeNull();
+  });
+});
+
+describe('KemiAnalyzer - Diagnostics', () => {
+  it('reports an unknown function with a suggestion', () => {
+    const analyzer = new KemiAnalyzer();
+    const doc = analyzeCode(analyzer, 'test://a.py', 'KSR.htable.sht_gte("t", "k")');
+    const diags = analyzer.getDiagnostics(doc);
+    expect(diags).toHaveLength(1);
+    expect(diags[0].code).toBe('unknown-kemi-function');
+    expect(diags[0].message).toContain("Did you mean 'sht_get'?");
+    expect(diags[0].range.start.character).toBe(11);
+    expect(diags[0].range.end.character).toBe(18);
+  });
+
+  it('reports an unknown module with a suggestion', () => {
+    const analyzer = new KemiAnalyzer();
+    const doc = analyzeCode(analyzer, 'test://a.py', 'if KSR.dispacher.ds_is_from_list(1) > 0:\n    pass');
+    const diags = analyzer.getDiagnostics(doc);
+    expect(diags).toHaveLength(1);
+    expect(diags[0].code).toBe('unknown-kemi-module');
+    expect(diags[0].message).toContain("Did you mean 'dispatcher'?");
+  });
+
+  it('reports unknown core functions on KSR', () => {
+    const analyzer = new KemiAnalyzer();
+    const doc = analyzeCode(analyzer, 'test://a.py', 'KSR.inf("hello")');
+    const diags = analyzer.getDiagnostics(doc);
+    expect(diags).toHaveLength(1);
+    expect(diags[0].message).toContain("Did you mean 'info'?");
+  });
+
+  it('omits the suggestion when nothing is close', () => {
+    const analyzer = new KemiAnalyzer();
+    const doc = analyzeCode(analyzer, 'test://a.py', 'KSR.tm.completely_different()');
+    const diags = analyzer.getDiagnostics(doc);
+    expect(diags).toHaveLength(1);
+    expect(diags[0].message).not.toContain('Did you mean');
+    expect(diags[0].data).toBeUndefined();
+  });
+
+  it('accepts known functions, core functions and bare module references', () => {
+    const analyzer = new KemiAnalyzer();
+    const code = [
+      'rc = KSR.tm.t_relay()',
+      'KSR.info("x")',
+      'KSR.x.exit()',
+      'tm = KSR.tm',
+    ].join('\n');
+    const doc = analyzeCode(analyzer, 'test://a.py', code);
+    expect(analyzer.getDiagnostics(doc)).toEqual([]);
+  });
+});
+
+describe('KemiAnalyzer - Argument checking', () => {
+  function diagnose(code: string, files: Record<string, string> = {}) {
+    const cga = new CallGraphAnalyzer(() => [], () => new Set());
+    const analyzer = new KemiAnalyzer();
+    analyzer.setCallGraphAnalyzer(cga);
+    for (const [uri, text] of Object.entries(files)) {
+      cga.analyze({ uri, tree: parser.parse(text), changedRanges: [], isFullParse: true, fullText: text });
+    }
+    const tree = parser.parse(code);
+    cga.analyze({ uri: 'test://main.py', tree, changedRanges: [], isFullParse: true, fullText: code });
+    return analyzer.getDiagnostics(analyzeCode(analyzer, 'test://main.py', code));
+  }
+
+  it('reports a string passed to an int parameter', () => {
+    const diags = diagnose('KSR.pv.seti("$var(x)", "5")');
+    expect(diags).toHaveLength(1);
+    expect(diags[0].code).toBe('kemi-argument-type');
+    expect(diags[0].message).toBe("Argument 'ival' of KSR.pv.seti expects int, got str");
+    expect(diags[0].range.start.character).toBe(23);
+  });
+
+  it('reports a string status code for send_reply', () => {
+    const diags = diagnose('KSR.sl.send_reply("404", "Not Found")');
+    expect(diags.map((d) => d.code)).toEqual(['kemi-argument-type']);
+    expect(diags[0].message).toContain("'code'");
+  });
+
+  it('reports missing arguments', () => {
+    const diags = diagnose('rc = KSR.dispatcher.ds_select_dst(1)');
+    expect(diags).toHaveLength(1);
+    expect(diags[0].code).toBe('kemi-argument-count');
+    expect(diags[0].message).toBe('KSR.dispatcher.ds_select_dst expects 2 arguments, got 1 (missing: alg)');
+  });
+
+  it('reports too many arguments', () => {
+    const diags = diagnose('rc = KSR.tm.t_relay(1)');
+    expect(diags.map((d) => d.code)).toEqual(['kemi-argument-count']);
+  });
+
+  it('resolves argument kinds through constants across files', () => {
+    const diags = diagnose(
+      'from defs import *\nKSR.sl.send_reply(NOT_FOUND, REASON)',
+      { 'test://defs.py': 'NOT_FOUND_STR = "404"\nNOT_FOUND = NOT_FOUND_STR\nREASON = "Not Found"' }
+    );
+    expect(diags).toHaveLength(1);
+    expect(diags[0].message).toContain('got str (constant NOT_FOUND)');
+  });
+
+  it('ignores function locals and parameters shadowing a constant name', () => {
+    const code = [
+      'from defs import *',
+      'def reply(code):',
+      '    KSR.sl.send_reply(code, "x")',
+      'def forward():',
+      '    REASON = 404',
+      '    KSR.sl.send_reply(404, REASON)',
+    ].join('\n');
+    const diags = diagnose(code, {
+      'test://defs.py': 'REASON = "Not Found"\ndef helper():\n    code = "abc"',
+    });
+    expect(diags).toEqual([]);
+  });
+
+  it('accepts matching literals, negative numbers and unknown expressions', () => {
+    const code = [
+      'KSR.pv.seti("$var(x)", -1)',
+      'KSR.sl.send_reply(code, reason)',
+      'rc = KSR.dispatcher.ds_select_dst(1, 4)',
+      'KSR.x.modf("sl_send_reply", "404", "Not Found")',
+      'KSR.sl.send_reply(*args)',
+    ].join('\n');
+    expect(diagnose(code)).toEqual([]);
+  });
+});
+
+describe('KemiAnalyzer - Code Actions', () => {
+  it('offers a quick fix rewriting the name to the suggestion', () => {
+    const analyzer = new KemiAnalyzer();
+    const doc = analyzeCode(analyzer, 'test://a.py', 'KSR.dispacher.ds_select_dst(1, 4)');
+    const diags = analyzer.getDiagnostics(doc);
+    const actions = analyzer.getCodeActions(doc, diags[0].range, diags);
+    expect(actions).toHaveLength(1);
+    expect(actions[0].title).toBe("Change to 'dispatcher'");
+    const edits = actions[0].edit!.changes!['test://a.py'];
+    expect(edits[0].newText).toBe('dispatcher');
+    expect(edits[0].range).toEqual(diags[0].range);
+  });
+});
+
+describe('KemiAnalyzer - Loaded modules', () => {
+  const cfgUri = 'file:///etc/kamailio/kamailio.cfg';
+  const loaded = new Map([
+    ['tm', { name: 'tm', path: '/usr/lib/kamailio/modules/tm.so', uri: cfgUri, line: 4 }],
+    ['sl', { name: 'sl', path: '/usr/lib/kamailio/modules/sl.so', uri: cfgUri, line: 5 }],
+  ]);
+
+  it('inserts the loadmodule line after the last one, keeping the path style', () => {
+    const analyzer = new KemiAnalyzer(() => loaded);
+    const doc = analyzeCode(analyzer, 'test://a.py', 'rc = KSR.dispatcher.ds_select_dst(1, 4)');
+    const diags = analyzer.getDiagnostics(doc);
+    expect(diags.map((d) => d.code)).toEqual(['kemi-module-not-loaded']);
+    const actions = analyzer.getCodeActions(doc, diags[0].range, diags);
+    const edit = actions[0].edit!.changes![cfgUri][0];
+    expect(edit.newText).toBe('loadmodule "/usr/lib/kamailio/modules/dispatcher.so"\n');
+    expect(edit.range.start).toEqual({ line: 6, character: 0 });
+  });
+
+  it('reports a missing module once per file, listing the other uses', () => {
+    const analyzer = new KemiAnalyzer(() => loaded);
+    const code = [
+      'rc = KSR.dispatcher.ds_select_dst(1, 4)',
+      'rc = KSR.dispatcher.ds_next_dst()',
+      'rc = KSR.dispatcher.ds_is_from_list(1)',
+    ].join('\n');
+    const doc = analyzeCode(analyzer, 'test://a.py', code);
+    const diags = analyzer.getDiagnostics(doc);
+    expect(diags.map((d) => d.code)).toEqual(['kemi-module-not-loaded']);
+    expect(diags[0].range.start.line).toBe(0);
+    expect(diags[0].relatedInformation!.map((r) => r.location.range.start.line)).toEqual([1, 2]);
+    expect(analyzer.getCodeActions(doc, diags[0].range, diags)).toHaveLength(1);
+  });
+
+  it('does not check modules when no cfg declares any', () => {
+    const analyzer = new KemiAnalyzer();
+    const doc = analyzeCode(analyzer, 'test://a.py', 'rc = KSR.dispatcher.ds_select_dst(1, 4)');
+    expect(analyzer.getDiagnostics(doc)).toEqual([]);
+  });
+});
+
+describe('KemiAnalyzer - API dump catalog', () => {
+  const dump = {
+    jsonrpc: '2.0',
+    result: {
+      methods: [
+        { func: { ret: 'int', module: 'tm', name: 't_relay', params: 'none' } },
+        { func: { ret: 'int', module: 'sl', name: 'send_reply', params: 'int, str' } },
+        { func: { ret: 'xval', module: 'pv', name: 'get', params: 'str' } },
+        { func: { ret: 'int', module: 'acme', name: 'route_call', params: 'str, int' } },
+      ],
+    },
+    id: 1,
+  };
+
+  it('parses the api_list RPC output', () => {
+    const catalog = parseKemiApiDump(dump);
+    expect(catalog.findFunction('acme', 'route_call')!.params.map((p) => p.type)).toEqual(['str', 'int']);
+    expect(catalog.findModule('acme')!.kamailioModule).toBe('acme');
+    expect(catalog.findModule('pv')!.kamailioModule).toBeNull();
+    // Parameter names come from the bundled catalog when the arity matches
+    expect(catalog.findFunction('sl', 'send_reply')!.params.map((p) => p.name)).toEqual(['code', 'reason']);
+    // KSR.x is kept even when the dump does not list it
+    expect(catalog.findFunction('x', 'exit')).toBeDefined();
+  });
+
+  it('accepts the bare methods array', () => {
+    expect(parseKemiApiDump(dump.result.methods).findFunction('tm', 't_relay')).toBeDefined();
+  });
+
+  it('rejects files without a methods array', () => {
+    expect(() => parseKemiApiDump({ result: {} })).toThrow('methods');
+  });
+
+  it('completes and validates against the imported catalog', () => {
+    const analyzer = new KemiAnalyzer();
+    analyzer.setCatalog(parseKemiApiDump(dump));
+    const labels = analyzer.getCompletions(docContext('test://a.py', 'KSR.'), { line: 0, character: 4 }).map((i) => i.label);
+    expect(labels).toContain('acme');
+    expect(labels).not.toContain('dispatcher');
+
+    const doc = analyzeCode(analyzer, 'test://a.py', 'KSR.acme.route_call("x", 1)\nKSR.tm.t_on_failure("f")');
+    const diags = analyzer.getDiagnostics(doc);
+    expect(diags.map((d) => d.code)).toEqual(['unknown-kemi-function']);
+  });
+});
+
+describe('KemiAnalyzer - Kamailio version', () => {
+  const catalog = new KemiCatalog([{
+    name: 'acme',
+    kamailioModule: 'acme',
+    description: 'Test module',
+    functions: [
+      { name: 'old_call', params: [], returns: 'code', description: 'Old', deprecatedIn: '5.7' },
+      { name: 'gone_call', params: [], returns: 'code', description: 'Gone', removedIn: '5.8' },
+      { name: 'new_call', params: [], returns: 'code', description: 'New', since: '5.8' },
+      { name: 'call', params: [], returns: 'code', description: 'Always there' },
+    ],
+  }]);
+
+  function versioned(version: string) {
+    const analyzer = new KemiAnalyzer();
+    analyzer.setCatalog(catalog);
+    analyzer.setKamailioVersion(version);
+    return analyzer;
+  }
+
+  it('flags missing and deprecated functions', () => {
+    const analyzer = versioned('5.8');
+    const doc = analyzeCode(analyzer, 'test://a.py', 'KSR.acme.old_call()\nKSR.acme.gone_call()\nKSR.acme.new_call()');
+    const diags = analyzer.getDiagnostics(doc);
+    expect(diags.map((d) => [d.code, d.message])).toEqual([
+      ['deprecated-kemi-function', 'KSR.acme.old_call is deprecated since Kamailio 5.7'],
+      ['kemi-function-not-in-version', 'KSR.acme.gone_call is not available in Kamailio 5.8 (removed in 5.8)'],
+    ]);
+    expect(diags[0].tags).toEqual([2]); // DiagnosticTag.Deprecated
+  });
+
+  it('flags functions added after the target version', () => {
+    const analyzer = versioned('5.6');
+    const doc = analyzeCode(analyzer, 'test://a.py', 'KSR.acme.new_call()');
+    expect(analyzer.getDiagnostics(doc)[0].message).toBe('KSR.acme.new_call is not available in Kamailio 5.6 (added in 5.8)');
+  });
+
+  it('hides unavailable and deprecated functions from completions', () => {
+    const analyzer = versioned('5.8');
+    const labels = analyzer.getCompletions(docContext('test://a.py', 'KSR.acme.'), { line: 0, character: 9 }).map((i) => i.label);
+    expect(labels).toEqual(['new_call', 'call']);
+  });
+
+  it('checks the bundled catalog against the target version', () => {
+    const analyzer = new KemiAnalyzer();
+    analyzer.setKamailioVersion('5.6');
+    const doc = analyzeCode(analyzer, 'test://a.py', 'KSR.file_out.file_out("acc", "$ru")\nKSR.nathelper.set_contact_alias_trim(1)');
+    expect(analyzer.getDiagnostics(doc).filter((d) => d.code === 'kemi-function-not-in-version').map((d) => d.message)).toEqual([
+      'KSR.file_out.file_out is not available in Kamailio 5.6 (added in 5.8)',
+      'KSR.nathelper.set_contact_alias_trim is not available in Kamailio 5.6 (added in 5.7)',
+    ]);
+
+    const modules = analyzer.getCompletions(docContext('test://a.py', 'KSR.'), { line: 0, character: 4 }).map((i) => i.label);
+    expect(modules).not.toContain('file_out');
+    const functions = analyzer.getCompletions(docContext('test://a.py', 'KSR.nathelper.'), { line: 0, character: 14 }).map((i) => i.label);
+    expect(functions).toContain('set_contact_alias');
+    expect(functions).not.toContain('set_contact_alias_trim');
+
+    analyzer.setKamailioVersion('5.8');
+    expect(analyzer.getCompletions(docContext('test://a.py', 'KSR.'), { line: 0, character: 4 }).map((i) => i.label)).toContain('file_out');
+  });
+
+  it('shows the version range in hover', () => {
+    const analyzer = versioned('5.8');
+    const doc = analyzeCode(analyzer, 'test://a.py', 'KSR.acme.new_call()');
+    const hover = analyzer.getHover(doc, { line: 0, character: 12 });
+    expect((hover!.contents as { value: string }).value).toContain('*Kamailio 5.8+*');
+  });
+});
+
+describe('KemiAnalyzer - Unchecked return values', () => {
+  it('flags discarded results of functions with significant return codes', () => {
+    const analyzer = new KemiAnalyzer();
+    const doc = analyzeCode(analyzer, 'test://a.py', [
+      'KSR.tm.t_relay()',
+      'if KSR.registrar.lookup("location") < 0:',
+      '    KSR.sl.send_reply(404, "Not Found")',
+      'rc = KSR.auth_db.auth_check("$fd", "subscriber", 1)',
+    ].join('\n'));
+    const diags = analyzer.getDiagnostics(doc);
+    expect(diags.map((d) => d.code)).toEqual(['unchecked-kemi-return']);
+    expect(diags[0].message).toContain('KSR.tm.t_relay()');
+    expect(diags[0].range.start).toEqual({ line: 0, character: 7 });
+  });
+
+  it('honours the allowlist with or without the KSR prefix', () => {
+    const analyzer = new KemiAnalyzer();
+    analyzer.setUncheckedReturnAllowlist(['tm.t_relay', 'KSR.registrar.save']);
+    const doc = analyzeCode(analyzer, 'test://a.py', 'KSR.tm.t_relay()\nKSR.registrar.save("location", 0)\nKSR.registrar.lookup("location")');
+    const diags = analyzer.getDiagnostics(doc);
+    expect(diags.map((d) => d.message)).toEqual([
+      'Return value of KSR.registrar.lookup() is not checked; failures are only reported through its negative return code',
+    ]);
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
 import Parser from 'web-tree-sitter';
 import { PvAnalyzer } from '../analyzers/pvAnalyzer/index';
+import { CallGraphAnalyzer } from '../analyzers/callGraphAnalyzer/index';
+import { parseHtableDeclaration } from '../core/workspaceIndexer';
 import { createTestParser } from './helpers/treeSitter';
 
 let parser: Parser;
@@ -62,6 +64,42 @@ describe('PvAnalyzer - Diagnostics', () => {
     expect(invalidDiag!.message).toContain('x');
   });
 
+  it('knows module PVs beyond the core pv module', () => {
+    const analyzer = makeAnalyzer();
+    const code = [
+      'KSR.pv.get("$sel(via[1].host)")',
+      'KSR.pv.get("$ai")',
+      'KSR.pv.get("$dlg(h_id)")',
+      'KSR.pv.get("$uac_req(method)")',
+      'KSR.pv.get("$dbr(ra=>[0,1])")',
+      'KSR.pv.get("$dbr(ra=>colname[2])")',
+    ].join('\n');
+    const tree = analyzeCode(analyzer, 'test://a.py', code);
+    const diags = analyzer.getDiagnostics({ uri: 'test://a.py', tree, fullText: code });
+    expect(diags).toHaveLength(0);
+  });
+
+  it('reports invalid inner names for module PV classes', () => {
+    const analyzer = makeAnalyzer();
+    const code = 'KSR.pv.get("$dlg(bogus)")';
+    const tree = analyzeCode(analyzer, 'test://a.py', code);
+    const diags = analyzer.getDiagnostics({ uri: 'test://a.py', tree, fullText: code });
+    const invalidDiag = diags.find(d => d.code === 'invalid-pv-inner-name');
+    expect(invalidDiag).toBeDefined();
+    expect(invalidDiag!.message).toContain('h_id');
+  });
+
+  it('checks the key of keyed PV classes', () => {
+    const analyzer = makeAnalyzer();
+    const code = 'KSR.pv.get("$dbr(ra=>total)")';
+    const tree = analyzeCode(analyzer, 'test://a.py', code);
+    const diags = analyzer.getDiagnostics({ uri: 'test://a.py', tree, fullText: code });
+    const invalidDiag = diags.find(d => d.code === 'invalid-pv-inner-name');
+    expect(invalidDiag).toBeDefined();
+    expect(invalidDiag!.message).toContain("'total'");
+    expect(invalidDiag!.message).toContain('rows');
+  });
+
   it('does not warn on known bare PVs', () => {
     const analyzer = makeAnalyzer();
     const code = 'KSR.pv.get("$ru")';
@@ -196,6 +234,17 @@ describe('PvAnalyzer - Hover', () => {
     expect((hover!.contents as any).value).toContain('Request URI');
   });
 
+  it('shows the module exporting the PV', () => {
+    const analyzer = makeAnalyzer();
+    const code = 'KSR.pv.get("$dlg(callid)")';
+    const tree = analyzeCode(analyzer, 'test://a.py', code);
+    const hover = analyzer.getHover(
+      { uri: 'test://a.py', tree, fullText: code },
+      { line: 0, character: 14 }
+    );
+    expect((hover!.contents as any).value).toContain('Module: `dialog`');
+  });
+
   it('returns null for position outside PV', () => {
     const analyzer = makeAnalyzer();
     const code = 'print("hello")';
@@ -295,6 +344,37 @@ describe('PvAnalyzer - Completions', () => {
     expect(completions.some(c => c.label === 'un')).toBe(true);
   });
 
+  it('returns builtin inner name completions for module PV classes', () => {
+    const analyzer = makeAnalyzer();
+    const code = 'KSR.pv.get("$msrp()")';
+    const tree = analyzeCode(analyzer, 'test://a.py', code);
+    const completions = analyzer.getCompletions(
+      { uri: 'test://a.py', tree, fullText: code },
+      { line: 0, character: 18 } // Between the parens in $msrp()
+    );
+    expect(completions.some(c => c.label === 'method')).toBe(true);
+    expect(completions.some(c => c.label === 'body')).toBe(true);
+  });
+
+  it('completes the key after => for keyed PV classes', () => {
+    const analyzer = makeAnalyzer();
+    const code = 'KSR.pv.get("$dbr(ra=>r)")';
+    const tree = analyzeCode(analyzer, 'test://a.py', code);
+    const completions = analyzer.getCompletions(
+      { uri: 'test://a.py', tree, fullText: code },
+      { line: 0, character: 22 } // After "ra=>r"
+    );
+    const rows = completions.find(c => c.label === 'rows');
+    expect(rows).toBeDefined();
+    expect((rows!.textEdit as any).range.start.character).toBe(21);
+
+    const before = analyzer.getCompletions(
+      { uri: 'test://a.py', tree, fullText: code },
+      { line: 0, character: 18 } // After "r" in the result name
+    );
+    expect(before.some(c => c.label === 'rows')).toBe(false);
+  });
+
   it('returns empty completions outside KSR.pv strings', () => {
     const analyzer = makeAnalyzer();
     const code = 'print("hello")';
@@ -340,3 +420,406 @@ describe('PvAnalyzer - Completions', () => {
     expect(editText).not.toContain('$$');
   });
 });
+
+describe('PvAnalyzer - Kamailio version', () => {
+  it('flags PVs added after the target version', () => {
+    const analyzer = makeAnalyzer();
+    analyzer.setKamailioVersion('5.4');
+    const code = 'KSR.pv.sets("$xavi(a=>b)", "x")\nKSR.pv.sets("$xavu(c)", "y")';
+    const tree = analyzeCode(analyzer, 'test://a.py', code);
+    const diags = analyzer.getDiagnostics({ uri: 'test://a.py', tree, fullText: code })
+      .filter(d => d.code === 'pv-not-in-version');
+    expect(diags).toHaveLength(1);
+    expect(diags[0].message).toBe('Pseudo-variable $xavi(a=>b) is not available in Kamailio 5.4 (added in 5.5)');
+  });
+
+  it('hides unavailable PVs from completions', () => {
+    const analyzer = makeAnalyzer();
+    analyzer.setKamailioVersion('5.4.7');
+    const code = 'KSR.pv.get("$")';
+    const tree = analyzeCode(analyzer, 'test://a.py', code);
+    const labels = analyzer.getCompletions({ uri: 'test://a.py', tree, fullText: code }, { line: 0, character: 13 })
+      .map(c => c.label);
+    expect(labels).toContain('$xavu(');
+    expect(labels).not.toContain('$xavi(');
+  });
+
+  it('does not check versions when no version is configured', () => {
+    const analyzer = makeAnalyzer();
+    const code = 'KSR.pv.sets("$xavi(a)", "x")';
+    const tree = analyzeCode(analyzer, 'test://a.py', code);
+    const diags = analyzer.getDiagnostics({ uri: 'test://a.py', tree, fullText: code });
+    expect(diags.some(d => d.code === 'pv-not-in-version')).toBe(false);
+  });
+});
+
+describe('PvAnalyzer - Route context', () => {
+  const script = [
+    'def mod_init():',
+    '    return kamailio()',
+    '',
+    'class kamailio:',
+    '    def ksr_request_route(self, msg):',
+    '        KSR.tm.t_on_failure("ksr_failure_manage")',
+    '        self.relay(msg)',
+    '        code = KSR.pv.get("$T(reply_code)")',
+    '',
+    '    def relay(self, msg):',
+    '        KSR.info(KSR.pv.get("$rs"))',
+    '        KSR.tm.t_relay()',
+    '',
+    '    def ksr_reply_route(self, msg):',
+    '        KSR.info(KSR.pv.get("$rs") + KSR.pv.get("$snd(ip)"))',
+    '',
+    '    def ksr_failure_manage(self, msg):',
+    '        KSR.info(KSR.pv.get("$T(reply_code)") + KSR.pv.get("$T(branch_index)"))',
+    '',
+    '    def ksr_onsend_route(self, msg):',
+    '        KSR.info(KSR.pv.get("$snd(ip)"))',
+    '',
+    'def unused():',
+    '    KSR.info(KSR.pv.get("$rs"))',
+  ].join('\n');
+
+  function routeDiagnostics(code: string) {
+    const cga = new CallGraphAnalyzer(() => [], () => new Set());
+    const analyzer = makeAnalyzer();
+    analyzer.setCallGraphAnalyzer(cga);
+    const tree = parser.parse(code);
+    cga.analyze({ uri: 'test://kamailio.py', tree, changedRanges: [], isFullParse: true, fullText: code });
+    analyzeCode(analyzer, 'test://kamailio.py', code);
+    return analyzer.getDiagnostics({ uri: 'test://kamailio.py', tree, fullText: code })
+      .filter(d => d.code === 'pv-invalid-route');
+  }
+
+  it('flags PVs used in routes where they have no value', () => {
+    const diags = routeDiagnostics(script);
+    expect(diags.map(d => [d.range.start.line, d.message])).toEqual([
+      [7, '$T(reply_code) is only meaningful in failure_route, onreply_route, branch_failure_route, but this code runs in request_route'],
+      [10, '$rs is only meaningful in reply_route, onreply_route, but this code runs in request_route'],
+      [14, '$snd(ip) is only meaningful in onsend_route, but this code runs in reply_route'],
+    ]);
+  });
+
+  it('does not flag code that is not reachable from a known route', () => {
+    const diags = routeDiagnostics('def helper():\n    KSR.info(KSR.pv.get("$rs"))');
+    expect(diags).toEqual([]);
+  });
+});
+
+describe('PvAnalyzer - Rename', () => {
+  const routeCode = [
+    'KSR.pv.sets("$var(caller)", KSR.pv.get("$fU"))',
+    'text = KSR.pv.gete(f"{prefix} $var(caller) from $shv(caller)")',
+  ].join('\n');
+  const helperCode = 'if KSR.pv.is_null("$var(caller)"):\n    KSR.pv.sets("$var(callee)", "x")';
+
+  function setup() {
+    const analyzer = makeAnalyzer();
+    analyzeCode(analyzer, 'file:///route.py', routeCode);
+    analyzeCode(analyzer, 'file:///helper.py', helperCode);
+    return analyzer;
+  }
+
+  it('prepares the name inside the parentheses', () => {
+    const analyzer = setup();
+    expect(analyzer.prepareRename(docContext('file:///route.py', routeCode), { line: 0, character: 20 })).toEqual({
+      start: { line: 0, character: 18 }, end: { line: 0, character: 24 },
+    });
+  });
+
+  it('renames every occurrence of the identity across files, inside f-strings too', () => {
+    const analyzer = setup();
+    const edit = analyzer.getRenameEdits(docContext('file:///helper.py', helperCode), { line: 0, character: 24 }, 'from_user')!;
+    expect(Object.keys(edit.changes!).sort()).toEqual(['file:///helper.py', 'file:///route.py']);
+    expect(edit.changes!['file:///route.py'].map(e => [e.range.start.line, e.range.start.character, e.newText])).toEqual([
+      [0, 18, 'from_user'],
+      [1, 35, 'from_user'],
+    ]);
+    expect(edit.changes!['file:///helper.py']).toHaveLength(1);
+  });
+
+  it('keeps $shv separate from $var and leaves builtins alone', () => {
+    const analyzer = setup();
+    const doc = docContext('file:///route.py', routeCode);
+    const edit = analyzer.getRenameEdits(doc, { line: 1, character: 52 }, 'owner')!;
+    expect(edit.changes!['file:///route.py'].map(e => e.range.start.character)).toEqual([53]);
+    expect(edit.changes!['file:///helper.py']).toBeUndefined();
+    expect(analyzer.prepareRename(doc, { line: 0, character: 42 })).toBeNull();
+    expect(analyzer.getRenameEdits(doc, { line: 0, character: 20 }, 'bad name')).toBeNull();
+  });
+});
+
+describe('PvAnalyzer - Resource rename', () => {
+  const constCode = 'BAN_TABLE = "ipban"';
+  const routeCode = [
+    'from consts import BAN_TABLE',
+    'KSR.htable.sht_get("ipban", "k")',
+    'KSR.htable.sht_seti(BAN_TABLE, KSR.pv.get("$si"), 1)',
+    'if KSR.pv.get("$sht(ipban=>$si)") or KSR.pv.get("$hdr(x-tenant)"):',
+    '    KSR.hdr.get("X-Tenant") or KSR.hdr.get("Via")',
+    '    KSR.statistics.update_stat("banned", 1)',
+  ].join('\n');
+  const htable = parseHtableDeclaration('modparam("htable", "htable", "ipban=>size=8;autoexpire=300;")', 'file:///kamailio.cfg', 3)!;
+  const htables = new Map([[htable.name, htable]]);
+  const stats = new Map([['banned', { name: 'banned', uri: 'file:///kamailio.cfg', line: 4, startColumn: 37, endColumn: 43 }]]);
+
+  function setup() {
+    const cga = new CallGraphAnalyzer(() => [], () => new Set(), () => stats, () => [], () => htables);
+    const analyzer = makeAnalyzer();
+    analyzer.setCallGraphAnalyzer(cga);
+    for (const [uri, code] of [['file:///consts.py', constCode], ['file:///route.py', routeCode]]) {
+      cga.analyze({ uri, tree: parser.parse(code), changedRanges: [], isFullParse: true, fullText: code });
+      analyzeCode(analyzer, uri, code);
+    }
+    return analyzer;
+  }
+
+  const summarize = (edit: { changes?: Record<string, { range: { start: { line: number; character: number } }; newText: string }[]> }) =>
+    Object.entries(edit.changes!).flatMap(([uri, edits]) =>
+      edits.map(e => `${uri.replace('file:///', '')}:${e.range.start.line}:${e.range.start.character}`)).sort();
+
+  it('renames an htable in KSR calls, $sht strings, constants and the cfg declaration', () => {
+    const analyzer = setup();
+    const doc = docContext('file:///route.py', routeCode);
+    expect(analyzer.prepareRename(doc, { line: 1, character: 22 })).toEqual({
+      start: { line: 1, character: 20 }, end: { line: 1, character: 25 },
+    });
+    const edit = analyzer.getRenameEdits(doc, { line: 3, character: 22 }, 'blocked')!;
+    expect(summarize(edit)).toEqual(['consts.py:0:13', 'kamailio.cfg:3:30', 'route.py:1:20', 'route.py:3:20']);
+  });
+
+  it('renames a custom header case-insensitively but not standard headers', () => {
+    const analyzer = setup();
+    const doc = docContext('file:///route.py', routeCode);
+    const edit = analyzer.getRenameEdits(doc, { line: 4, character: 18 }, 'X-Customer')!;
+    expect(summarize(edit)).toEqual(['route.py:3:54', 'route.py:4:17']);
+    expect(analyzer.prepareRename(doc, { line: 4, character: 45 })).toBeNull();
+  });
+
+  it('renames a statistic together with its cfg declaration', () => {
+    const analyzer = setup();
+    const doc = docContext('file:///route.py', routeCode);
+    const edit = analyzer.getRenameEdits(doc, { line: 5, character: 34 }, 'banned_ips')!;
+    expect(summarize(edit)).toEqual(['kamailio.cfg:4:37', 'route.py:5:32']);
+    expect(analyzer.getRenameEdits(doc, { line: 5, character: 34 }, 'bad name')).toBeNull();
+  });
+
+  it('does not rename from a constant argument', () => {
+    const analyzer = setup();
+    expect(analyzer.prepareRename(docContext('file:///route.py', routeCode), { line: 2, character: 23 })).toBeNull();
+  });
+});
+
+describe('PvAnalyzer - Read before write', () => {
+  function unsetReads(files: Record<string, string>, uri: string) {
+    const cga = new CallGraphAnalyzer(() => [], () => new Set());
+    const analyzer = makeAnalyzer();
+    analyzer.setCallGraphAnalyzer(cga);
+    for (const [fileUri, code] of Object.entries(files)) {
+      cga.analyze({ uri: fileUri, tree: parser.parse(code), changedRanges: [], isFullParse: true, fullText: code });
+      analyzeCode(analyzer, fileUri, code);
+    }
+    return analyzer.getDiagnostics(docContext(uri, files[uri]))
+      .filter(d => d.code === 'undefined-pv')
+      .map(d => [d.range.start.line, d.message]);
+  }
+
+  const route = (body: string[]) => [
+    'class kamailio:',
+    '    def ksr_request_route(self, msg):',
+    ...body.map(line => '        ' + line),
+    '',
+    '    def set_user(self):',
+    '        KSR.pv.sets("$var(user)", KSR.pv.get("$fU"))',
+    '',
+    '    def maybe_set_user(self):',
+    '        if KSR.is_INVITE():',
+    '            KSR.pv.sets("$var(user)", "x")',
+    '',
+    '    def deny(self):',
+    '        KSR.sl.send_reply(403, "Forbidden")',
+    '        KSR.x.exit()',
+  ].join('\n');
+
+  it('warns when a branch reaches the read without setting the variable', () => {
+    const code = route([
+      'if KSR.is_INVITE():',
+      '    KSR.pv.sets("$var(user)", "a")',
+      'KSR.info(KSR.pv.get("$var(user)"))',
+    ]);
+    expect(unsetReads({ 'file:///k.py': code }, 'file:///k.py')).toEqual([
+      [4, "Pseudo-variable '$var(user)' may be read before it is set on a path from ksr_request_route"],
+    ]);
+  });
+
+  it('warns even when an unrelated function writes the variable', () => {
+    const code = route(['KSR.info(KSR.pv.get("$var(user)"))']);
+    expect(unsetReads({ 'file:///k.py': code }, 'file:///k.py')).toHaveLength(1);
+  });
+
+  it('accepts writes on every path, in callees, and paths that exit first', () => {
+    const code = route([
+      'if KSR.is_INVITE():',
+      '    KSR.pv.sets("$var(user)", "a")',
+      'elif KSR.is_BYE():',
+      '    self.set_user()',
+      'else:',
+      '    self.deny()',
+      'KSR.info(KSR.pv.get("$var(user)"))',
+    ]);
+    expect(unsetReads({ 'file:///k.py': code }, 'file:///k.py')).toEqual([]);
+  });
+
+  it('does not count callees that set the variable on only some paths', () => {
+    const code = route(['self.maybe_set_user()', 'KSR.info(KSR.pv.get("$var(user)"))']);
+    expect(unsetReads({ 'file:///k.py': code }, 'file:///k.py')).toHaveLength(1);
+  });
+
+  it('reports reads in helpers reached from the route with the variable unset', () => {
+    const helper = 'def log_user():\n    KSR.info(KSR.pv.get("$var(user)"))';
+    const code = ['from helper import log_user', route(['log_user()', 'self.set_user()', 'log_user()'])].join('\n');
+    expect(unsetReads({ 'file:///helper.py': helper, 'file:///k.py': code }, 'file:///helper.py')).toEqual([
+      [1, "Pseudo-variable '$var(user)' may be read before it is set on a path from ksr_request_route"],
+    ]);
+  });
+
+  it('does not treat is_null() as a read', () => {
+    const code = route(['if KSR.pv.is_null("$var(user)"):', '    self.set_user()']);
+    expect(unsetReads({ 'file:///k.py': code }, 'file:///k.py')).toEqual([]);
+  });
+});
+
+describe('PvAnalyzer - Lifetimes', () => {
+  const script = [
+    'class kamailio:',
+    '    def ksr_request_route(self, msg):',
+    '        KSR.pv.sets("$var(caller)", KSR.pv.get("$fU"))',
+    '        KSR.pv.sets("$var(both)", "x")',
+    '        if KSR.pv.get("$avp(retries)") == 1:',
+    '            return',
+    '        KSR.tm.t_on_failure("ksr_failure")',
+    '        KSR.tm.t_relay()',
+    '',
+    '    def ksr_failure(self, msg):',
+    '        KSR.pv.sets("$var(both)", "y")',
+    '        KSR.info(KSR.pv.get("$var(caller)") + KSR.pv.get("$var(both)"))',
+    '        KSR.pv.seti("$avp(retries)", 1)',
+  ].join('\n');
+
+  function setup() {
+    const cga = new CallGraphAnalyzer(() => [], () => new Set());
+    const analyzer = makeAnalyzer();
+    analyzer.setCallGraphAnalyzer(cga);
+    cga.analyze({ uri: 'file:///k.py', tree: parser.parse(script), changedRanges: [], isFullParse: true, fullText: script });
+    analyzeCode(analyzer, 'file:///k.py', script);
+    const diags = analyzer.getDiagnostics(docContext('file:///k.py', script)).filter(d => d.code === 'pv-lifetime');
+    return { analyzer, diags };
+  }
+
+  it('warns when a $var set in request_route is read in a failure callback', () => {
+    const { diags } = setup();
+    expect(diags.map(d => [d.range.start.line, d.message])).toEqual([
+      [11, '$var(caller) is set in request_route but read in failure_route, which may run in another process. ' +
+        '$var is kept per process, not per transaction — use $avp(caller) or $xavp(caller) to carry it with the transaction'],
+      [4, '$avp(retries) is read in request_route but only set in failure_route. ' +
+        'AVPs belong to one transaction, so a new request never sees it — use $dlg_var(retries) to keep it for the dialog'],
+    ]);
+  });
+
+  it('offers to change the variable class everywhere', () => {
+    const { analyzer, diags } = setup();
+    const actions = analyzer.getCodeActions(docContext('file:///k.py', script), diags[0].range, [diags[0]]);
+    expect(actions.map(a => a.title)).toEqual(['Change to $avp(caller) everywhere']);
+    expect(actions[0].edit!.changes!['file:///k.py'].map(e => [e.range.start.line, e.range.start.character, e.newText])).toEqual([
+      [2, 22, 'avp'],
+      [11, 30, 'avp'],
+    ]);
+  });
+});
+
+describe('PvAnalyzer - Read-only PVs', () => {
+  const code = [
+    'KSR.pv.sets("$fu", "sip:alice@example.com")',
+    'KSR.pv.seti("$hdr(X-Count)", count)',
+    'KSR.pv.unset("$hdr(X-Debug)")',
+    'KSR.pv.sets("$si", "10.0.0.1")',
+    'KSR.pv.sets("$ru", "sip:bob@example.com")',
+  ].join('\n');
+
+  function readOnlyDiags() {
+    const analyzer = makeAnalyzer();
+    const tree = analyzeCode(analyzer, 'test://a.py', code);
+    const doc = { uri: 'test://a.py', tree, fullText: code };
+    return { analyzer, doc, diags: analyzer.getDiagnostics(doc).filter(d => d.code === 'read-only-pv') };
+  }
+
+  it('reports writes to read-only PVs', () => {
+    const { diags } = readOnlyDiags();
+    expect(diags.map(d => [d.range.start.line, d.message])).toEqual([
+      [0, '$fu is read-only and cannot be changed with KSR.pv.sets() — use KSR.uac.uac_replace_from_uri()'],
+      [1, '$hdr(X-Count) is read-only and cannot be changed with KSR.pv.seti() — use KSR.hdr.append()'],
+      [2, '$hdr(X-Debug) is read-only and cannot be changed with KSR.pv.unset() — use KSR.hdr.remove()'],
+      [3, '$si is read-only and cannot be changed with KSR.pv.sets()'],
+    ]);
+  });
+
+  it('offers the KEMI call that makes the change', () => {
+    const { analyzer, doc, diags } = readOnlyDiags();
+    const edits = diags.flatMap(d => analyzer.getCodeActions(doc, d.range, [d]))
+      .map(a => a.edit!.changes!['test://a.py'][0].newText);
+    expect(edits).toEqual([
+      'KSR.uac.uac_replace_from_uri("sip:alice@example.com")',
+      'KSR.hdr.append("X-Count: " + str(count) + "\\r\\n")',
+      'KSR.hdr.remove("X-Debug")',
+    ]);
+  });
+});
+
+describe('PvAnalyzer - Value types', () => {
+  const code = [
+    'KSR.pv.seti("$var(count)", 1)',
+    'KSR.info("calls: " + KSR.pv.gete("$var(count)"))',
+    'KSR.info(f"calls: {KSR.pv.getvs(\'$var(count)\', \'0\')}")',
+    'KSR.pv.seti("$var(mixed)", 1)',
+    'KSR.pv.sets("$var(mixed)", "one")',
+    'KSR.pv.sets("$var(name)", "alice")',
+    'KSR.info(KSR.pv.get("$var(name)") + "!")',
+  ].join('\n');
+
+  function setup() {
+    const analyzer = makeAnalyzer();
+    const tree = analyzeCode(analyzer, 'test://a.py', code);
+    const doc = { uri: 'test://a.py', tree, fullText: code };
+    return { analyzer, doc };
+  }
+
+  it('shows the inferred type in hover', () => {
+    const { analyzer, doc } = setup();
+    const hover = (line: number, character: number) => (analyzer.getHover(doc, { line, character })!.contents as { value: string }).value;
+    expect(hover(0, 15)).toContain('Type: `int`');
+    expect(hover(5, 15)).toContain('Type: `str`');
+    expect(hover(3, 15)).toContain('Type: `int | str` (mixed)');
+  });
+
+  it('warns when a variable is set with both types', () => {
+    const { analyzer, doc } = setup();
+    const diags = analyzer.getDiagnostics(doc).filter(d => d.code === 'pv-mixed-types');
+    expect(diags.map(d => [d.range.start.line, d.message, d.relatedInformation![0].location.range.start.line])).toEqual([
+      [3, '$var(mixed) is set as int here but as str elsewhere', 4],
+      [4, '$var(mixed) is set as str here but as int elsewhere', 3],
+    ]);
+  });
+
+  it('warns when an int variable is concatenated with a string, and offers str()', () => {
+    const { analyzer, doc } = setup();
+    const diags = analyzer.getDiagnostics(doc).filter(d => d.code === 'pv-int-concat');
+    expect(diags.map(d => d.range.start.line)).toEqual([1]);
+    const [action] = analyzer.getCodeActions(doc, diags[0].range, diags);
+    expect(action.title).toBe('Wrap in str()');
+    expect(action.edit!.changes!['test://a.py'].map(e => [e.range.start.character, e.newText])).toEqual([
+      [21, 'str('],
+      [47, ')'],
+    ]);
+  });
+});
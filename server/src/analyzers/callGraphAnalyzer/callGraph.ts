@@ -1,4 +1,5 @@
 import { FunctionDef } from './functionExtractor';
+import type { RouteType } from '../../data/routeTypes';
 
 export interface FunctionNode {
   def: FunctionDef;
@@ -6,6 +7,10 @@ export interface FunctionNode {
   callers: Set<string>;
   directPvReads: Set<string>;
   directPvWrites: Set<string>;
+  /** Every path ends the script (KSR.x.exit/drop), so calls to it never return. */
+  neverReturns: boolean;
+  /** Set when Kamailio calls this function directly, e.g. ksr_request_route. */
+  entryRoute: RouteType | null;
 }
 
 export class CallGraph {
@@ -24,6 +29,8 @@ export class CallGraph {
       callers: new Set(),
       directPvReads: new Set(),
       directPvWrites: new Set(),
+      neverReturns: false,
+      entryRoute: null,
     });
 
     let nameSet = this.byName.get(def.name);
@@ -82,6 +89,47 @@ export class CallGraph {
     node.directPvWrites = writes;
   }
 
+  setNeverReturns(funcKey: string, neverReturns: boolean): void {
+    const node = this.functions.get(funcKey);
+    if (node) node.neverReturns = neverReturns;
+  }
+
+  setEntryRoute(funcKey: string, routeType: RouteType): void {
+    const node = this.functions.get(funcKey);
+    if (node) node.entryRoute = routeType;
+  }
+
+  getEntryPoints(): FunctionNode[] {
+    return Array.from(this.functions.values()).filter((n) => n.entryRoute !== null);
+  }
+
+  /**
+   * Route types each function can run in, following calls from the given
+   * roots (entry points and registered callbacks).
+   */
+  propagateRouteTypes(roots: Map<string, Set<RouteType>>): Map<string, Set<RouteType>> {
+    const result = new Map<string, Set<RouteType>>();
+    for (const [rootKey, routeTypes] of roots) {
+      for (const routeType of routeTypes) {
+        const queue = [rootKey];
+        while (queue.length > 0) {
+          const current = queue.pop()!;
+          let reached = result.get(current);
+          if (!reached) {
+            reached = new Set();
+            result.set(current, reached);
+          }
+          if (reached.has(routeType)) continue;
+          reached.add(routeType);
+
+          const node = this.functions.get(current);
+          if (node) queue.push(...node.callees);
+        }
+      }
+    }
+    return result;
+  }
+
   getTransitivePvWrites(funcKey: string): Set<string> {
     const result = new Set<string>();
     const visited = new Set<string>();
@@ -0,0 +1,85 @@
+import { ROUTE_TYPE_LABELS, RouteType } from '../../data/routeTypes';
+
+export type CallGraphFormat = 'dot' | 'mermaid';
+
+export interface RoutingGraphNode {
+  key: string;
+  name: string;
+  uri: string;
+  entryRoute: RouteType | null;
+  /** PV identity keys written directly in the function, e.g. `var:dest`. */
+  pvWrites: string[];
+}
+
+export interface RoutingGraphEdge {
+  from: string;
+  to: string;
+  /** Registering function for callback edges, e.g. `tm.t_on_failure`; null for direct calls. */
+  callback: string | null;
+}
+
+/** Functions reachable from the KEMI entry points, with calls and callback registrations between them. */
+export interface RoutingGraph {
+  nodes: RoutingGraphNode[];
+  edges: RoutingGraphEdge[];
+}
+
+export function formatCallGraph(graph: RoutingGraph, format: CallGraphFormat): string {
+  return format === 'mermaid' ? formatMermaid(graph) : formatDot(graph);
+}
+
+export function formatDot(graph: RoutingGraph): string {
+  const ids = nodeIds(graph);
+  const lines = ['digraph kamailio {', '  rankdir=LR;', '  node [shape=box];'];
+  for (const node of graph.nodes) {
+    const label = nodeLabelLines(node).map(escapeDot).join('\\n');
+    const style = node.entryRoute ? ', style=bold' : '';
+    lines.push(`  ${ids.get(node.key)} [label="${label}"${style}];`);
+  }
+  for (const edge of graph.edges) {
+    const attrs = edge.callback ? ` [label="${escapeDot(edge.callback)}", style=dashed]` : '';
+    lines.push(`  ${ids.get(edge.from)} -> ${ids.get(edge.to)}${attrs};`);
+  }
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+export function formatMermaid(graph: RoutingGraph): string {
+  const ids = nodeIds(graph);
+  const lines = ['flowchart LR'];
+  for (const node of graph.nodes) {
+    const label = nodeLabelLines(node).map(escapeMermaid).join('<br/>');
+    lines.push(`  ${ids.get(node.key)}["${label}"]`);
+  }
+  for (const edge of graph.edges) {
+    const arrow = edge.callback ? ` -.->|"${escapeMermaid(edge.callback)}"| ` : ' --> ';
+    lines.push(`  ${ids.get(edge.from)}${arrow}${ids.get(edge.to)}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+/** `var:dest` → `$var(dest)`, `ru` → `$ru`. */
+export function formatPvKey(key: string): string {
+  const colon = key.indexOf(':');
+  if (colon < 0) return `$${key}`;
+  return `$${key.slice(0, colon)}(${key.slice(colon + 1)})`;
+}
+
+function nodeIds(graph: RoutingGraph): Map<string, string> {
+  return new Map(graph.nodes.map((node, i) => [node.key, `n${i}`]));
+}
+
+function nodeLabelLines(node: RoutingGraphNode): string[] {
+  const lines = [node.name];
+  if (node.entryRoute) lines.push(`[${ROUTE_TYPE_LABELS[node.entryRoute]}]`);
+  if (node.pvWrites.length > 0) lines.push(`writes: ${node.pvWrites.map(formatPvKey).join(', ')}`);
+  return lines;
+}
+
+function escapeDot(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function escapeMermaid(text: string): string {
+  return text.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;');
+}
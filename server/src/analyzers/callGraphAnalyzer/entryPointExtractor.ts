@@ -0,0 +1,168 @@
+import { SyntaxNode, Tree } from 'web-tree-sitter';
+import { TreeSitterRange } from '../../core/types';
+import { RouteType } from '../../data/routeTypes';
+
+/** Methods Kamailio calls on the object returned by `mod_init()`, with their parameters after self. */
+export const KEMI_ENTRY_METHODS: Record<string, { routeType: RouteType; params: string[] }> = {
+  ksr_request_route: { routeType: 'request', params: ['msg'] },
+  ksr_reply_route: { routeType: 'reply', params: ['msg'] },
+  ksr_onsend_route: { routeType: 'onsend', params: ['msg'] },
+  child_init: { routeType: 'init', params: ['rank'] },
+};
+
+export interface KemiMethod {
+  name: string;
+  nameRange: TreeSitterRange;
+  paramsRange: TreeSitterRange;
+  /** Positional parameters, including self, that have no default. */
+  requiredParams: number;
+  /** Positional parameters accepted, including self — Infinity with `*args`. */
+  maxParams: number;
+}
+
+export interface KemiClass {
+  name: string;
+  nameRange: TreeSitterRange;
+  methods: KemiMethod[];
+}
+
+/** What a `return` in `mod_init()` hands back to Kamailio. */
+export interface ModInitReturn {
+  /** `instance` for `return Name(...)`, `class` for `return Name` naming a class in the file. */
+  kind: 'instance' | 'class' | 'other';
+  className: string | null;
+  range: TreeSitterRange;
+}
+
+export interface ModInit {
+  nameRange: TreeSitterRange;
+  returns: ModInitReturn[];
+}
+
+export interface KemiEntryInfo {
+  modInit: ModInit | null;
+  /** Module-level classes, candidates for the KEMI entry class. */
+  classes: KemiClass[];
+}
+
+export function extractKemiEntryInfo(tree: Tree): KemiEntryInfo {
+  const classes: KemiClass[] = [];
+  let modInitNode: SyntaxNode | null = null;
+
+  for (const node of tree.rootNode.namedChildren) {
+    const def = node.type === 'decorated_definition' ? node.childForFieldName('definition') : node;
+    if (!def) continue;
+    if (def.type === 'class_definition') {
+      const cls = extractKemiClass(def);
+      if (cls) classes.push(cls);
+    } else if (def.type === 'function_definition' && def.childForFieldName('name')?.text === 'mod_init') {
+      modInitNode = def;
+    }
+  }
+
+  const classNames = new Set(classes.map((c) => c.name));
+  let modInit: ModInit | null = null;
+  if (modInitNode) {
+    const returns: ModInitReturn[] = [];
+    const body = modInitNode.childForFieldName('body');
+    if (body) walkForReturns(body, classNames, returns);
+    modInit = { nameRange: nodeRange(modInitNode.childForFieldName('name')!), returns };
+  }
+
+  return { modInit, classes };
+}
+
+/**
+ * The classes Kamailio uses as the KEMI object: those returned by mod_init()
+ * (a bare class return is reported on its own but still names the intended
+ * class), or — without mod_init — any class defining ksr_request_route.
+ */
+export function findEntryClasses(info: KemiEntryInfo): KemiClass[] {
+  if (info.modInit) {
+    const returned = new Set(
+      info.modInit.returns.filter((r) => r.kind !== 'other').map((r) => r.className)
+    );
+    return info.classes.filter((c) => returned.has(c.name));
+  }
+  return info.classes.filter((c) => c.methods.some((m) => m.name === 'ksr_request_route'));
+}
+
+function extractKemiClass(classNode: SyntaxNode): KemiClass | null {
+  const nameNode = classNode.childForFieldName('name');
+  const body = classNode.childForFieldName('body');
+  if (!nameNode || !body) return null;
+
+  const methods: KemiMethod[] = [];
+  for (const node of body.namedChildren) {
+    const def = node.type === 'decorated_definition' ? node.childForFieldName('definition') : node;
+    if (!def || def.type !== 'function_definition') continue;
+    const methodName = def.childForFieldName('name');
+    const params = def.childForFieldName('parameters');
+    if (!methodName || !params) continue;
+    methods.push({
+      name: methodName.text,
+      nameRange: nodeRange(methodName),
+      paramsRange: nodeRange(params),
+      ...countPositionalParams(params),
+    });
+  }
+  return { name: nameNode.text, nameRange: nodeRange(nameNode), methods };
+}
+
+function countPositionalParams(paramsNode: SyntaxNode): { requiredParams: number; maxParams: number } {
+  let requiredParams = 0;
+  let maxParams = 0;
+  for (const param of paramsNode.namedChildren) {
+    switch (param.type) {
+      case 'identifier':
+      case 'typed_parameter':
+        requiredParams++;
+        maxParams++;
+        break;
+      case 'default_parameter':
+      case 'typed_default_parameter':
+        maxParams++;
+        break;
+      case 'list_splat_pattern':
+        return { requiredParams, maxParams: Infinity };
+      case 'keyword_separator':
+        // Parameters after a bare `*` are keyword-only
+        return { requiredParams, maxParams };
+    }
+  }
+  return { requiredParams, maxParams };
+}
+
+function walkForReturns(node: SyntaxNode, classNames: Set<string>, returns: ModInitReturn[]): void {
+  if (node.type === 'function_definition' || node.type === 'class_definition' || node.type === 'lambda') return;
+  if (node.type === 'return_statement') {
+    const value = node.namedChild(0);
+    if (value) returns.push(classifyReturn(value, classNames));
+    return;
+  }
+  for (const child of node.namedChildren) {
+    walkForReturns(child, classNames, returns);
+  }
+}
+
+function classifyReturn(value: SyntaxNode, classNames: Set<string>): ModInitReturn {
+  const range = nodeRange(value);
+  if (value.type === 'call') {
+    const fn = value.childForFieldName('function');
+    const className = fn?.type === 'identifier' ? fn.text : fn?.type === 'attribute' ? fn.childForFieldName('attribute')?.text ?? null : null;
+    return { kind: 'instance', className, range };
+  }
+  if (value.type === 'identifier' && classNames.has(value.text)) {
+    return { kind: 'class', className: value.text, range };
+  }
+  return { kind: 'other', className: null, range };
+}
+
+function nodeRange(node: SyntaxNode): TreeSitterRange {
+  return {
+    startPosition: node.startPosition,
+    endPosition: node.endPosition,
+    startIndex: node.startIndex,
+    endIndex: node.endIndex,
+  };
+}
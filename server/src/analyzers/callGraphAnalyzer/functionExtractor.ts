@@ -16,6 +16,8 @@ export interface CallSite {
   uri: string;
   enclosingFunction: string | null;
   range: TreeSitterRange;
+  /** The called name itself, e.g. `helper` in `self.helper(msg)`. */
+  nameRange: TreeSitterRange;
 }
 
 export interface ExtractedFunction {
@@ -23,6 +25,48 @@ export interface ExtractedFunction {
   callSites: CallSite[];
   pvReads: Set<string>;
   pvWrites: Set<string>;
+  /** Statement-level control flow of the body, used for reachability checks. */
+  flow: FlowStatement[];
+}
+
+/**
+ * Control-flow summary of one statement. Only what decides reachability is
+ * kept: statements that end the script or leave the block, calls to helpers
+ * that may never return, and the nested blocks of compound statements.
+ * `effects` are the PV accesses and calls of the statement's own expressions
+ * — the condition of an `if`, not its blocks — in evaluation order.
+ */
+export type FlowStatement = (
+  | { kind: 'exit'; callee: string }
+  | { kind: 'leave'; keyword: string }
+  | { kind: 'call'; callee: string }
+  | { kind: 'branch'; blocks: FlowStatement[][]; exhaustive: boolean }
+  | { kind: 'loop'; blocks: FlowStatement[][] }
+  | { kind: 'try'; body: FlowStatement[]; handlers: FlowStatement[][]; orelse: FlowStatement[] | null; finalizer: FlowStatement[] | null }
+  | { kind: 'block'; body: FlowStatement[] }
+  | { kind: 'simple' }
+) & { range: TreeSitterRange; effects: FlowEffect[] };
+
+/** A KSR.pv read or write, or a call to a non-KSR function. Ranges are those of the call. */
+export type FlowEffect =
+  | { kind: 'read' | 'write'; pvKey: string; range: TreeSitterRange }
+  | { kind: 'call'; callee: string; range: TreeSitterRange };
+
+// Children of compound statements holding their nested blocks rather than header expressions
+const NESTED_BLOCK_TYPES = new Set([
+  'block', 'elif_clause', 'else_clause', 'except_clause', 'except_group_clause', 'finally_clause',
+]);
+
+/** Statements after which the KEMI script stops running. */
+const KSR_EXIT_CALLS = new Set(['KSR.x.exit', 'KSR.x.drop']);
+
+export interface UnreachableCode {
+  /** From the first unreachable statement to the end of its block. */
+  range: TreeSitterRange;
+  /** What ends the flow: `KSR.x.exit()`, `return`, or the name of a helper that never returns. */
+  cause: string;
+  /** `compound` when every branch of an if/try ends the flow. */
+  causeKind: 'exit' | 'leave' | 'call' | 'compound';
 }
 
 function nodeRange(node: SyntaxNode): TreeSitterRange {
@@ -65,6 +109,7 @@ export function extractFunctions(tree: Tree, uri: string): ExtractedFunction[] {
     callSites: [],
     pvReads: new Set(),
     pvWrites: new Set(),
+    flow: [],
   };
   collectCallsAndPvAccess(root, uri, null, moduleFn.callSites, moduleFn.pvReads, moduleFn.pvWrites, true);
   if (moduleFn.callSites.length > 0 || moduleFn.pvReads.size > 0 || moduleFn.pvWrites.size > 0) {
@@ -128,6 +173,7 @@ function extractOneFunction(funcNode: SyntaxNode, uri: string): ExtractedFunctio
     callSites,
     pvReads,
     pvWrites,
+    flow: extractFlow(bodyNode),
   };
 }
 
@@ -159,11 +205,13 @@ function collectCallsAndPvAccess(
         // Regular function call — record as call site
         const callee = getCalleeName(funcNode);
         if (callee && !callee.startsWith('KSR.')) {
+          const nameNode = funcNode.type === 'attribute' ? funcNode.childForFieldName('attribute')! : funcNode;
           callSites.push({
             callee,
             uri,
             enclosingFunction,
             range: nodeRange(node),
+            nameRange: nodeRange(nameNode),
           });
         }
       }
@@ -226,10 +274,10 @@ function extractPvAccess(
   }
   if (!firstArg || firstArg.type !== 'string') return;
 
-  const contentNode = firstArg.namedChildren.find((c) => c.type === 'string_content');
-  if (!contentNode) return;
-
-  const pvs = parsePvString(contentNode.text);
+  // Every literal chunk, so PVs between f-string interpolations count too
+  const pvs = firstArg.namedChildren
+    .filter((c) => c.type === 'string_content')
+    .flatMap((c) => parsePvString(c.text));
   const isWrite = KSR_PV_METHODS[method]?.isWrite ?? false;
 
   for (const pv of pvs) {
@@ -241,3 +289,250 @@ function extractPvAccess(
     }
   }
 }
+
+// --- Control flow ---
+
+function extractFlow(block: SyntaxNode | null): FlowStatement[] {
+  if (!block) return [];
+  const statements: FlowStatement[] = [];
+  for (const node of block.namedChildren) {
+    if (node.type === 'comment') continue;
+    statements.push(toFlowStatement(node));
+  }
+  return statements;
+}
+
+function toFlowStatement(node: SyntaxNode): FlowStatement {
+  const range = nodeRange(node);
+  switch (node.type) {
+    case 'return_statement':
+    case 'raise_statement':
+    case 'break_statement':
+    case 'continue_statement':
+      return { kind: 'leave', keyword: node.type.replace('_statement', ''), range, effects: collectEffects(node) };
+    case 'expression_statement': {
+      const effects = collectEffects(node);
+      const expr = node.namedChild(0);
+      const funcNode = node.namedChildCount === 1 && expr?.type === 'call' ? expr.childForFieldName('function') : null;
+      const callee = funcNode ? getCalleeName(funcNode) : null;
+      if (callee && KSR_EXIT_CALLS.has(callee)) return { kind: 'exit', callee, range, effects };
+      if (callee && !callee.startsWith('KSR.')) return { kind: 'call', callee, range, effects };
+      return { kind: 'simple', range, effects };
+    }
+    case 'if_statement': {
+      const blocks = [extractFlow(node.childForFieldName('consequence'))];
+      let exhaustive = false;
+      for (const clause of node.childrenForFieldName('alternative')) {
+        if (clause.type === 'elif_clause') {
+          // The elif condition runs only on the paths that reach the clause
+          const condition = clause.childForFieldName('condition');
+          const conditionStmt: FlowStatement[] = condition
+            ? [{ kind: 'simple', range: nodeRange(condition), effects: collectEffects(condition) }]
+            : [];
+          blocks.push([...conditionStmt, ...extractFlow(clause.childForFieldName('consequence'))]);
+        } else if (clause.type === 'else_clause') {
+          blocks.push(extractFlow(clause.childForFieldName('body')));
+          exhaustive = true;
+        }
+      }
+      return { kind: 'branch', blocks, exhaustive, range, effects: collectHeaderEffects(node) };
+    }
+    case 'for_statement':
+    case 'while_statement': {
+      const blocks = [extractFlow(node.childForFieldName('body'))];
+      const orelse = node.childForFieldName('alternative');
+      if (orelse) blocks.push(extractFlow(orelse.childForFieldName('body')));
+      return { kind: 'loop', blocks, range, effects: collectHeaderEffects(node) };
+    }
+    case 'match_statement': {
+      // Cases are not known to be exhaustive, so the match may fall through
+      const cases = node.childForFieldName('body')?.namedChildren.filter((c) => c.type === 'case_clause') ?? [];
+      return {
+        kind: 'loop',
+        blocks: cases.map((c) => extractFlow(c.childForFieldName('consequence'))),
+        range,
+        effects: collectHeaderEffects(node),
+      };
+    }
+    case 'try_statement': {
+      let orelse: FlowStatement[] | null = null;
+      let finalizer: FlowStatement[] | null = null;
+      const handlers: FlowStatement[][] = [];
+      for (const child of node.namedChildren) {
+        if (child.type === 'except_clause' || child.type === 'except_group_clause') {
+          handlers.push(extractFlow(child.namedChildren.find((c) => c.type === 'block') ?? null));
+        } else if (child.type === 'else_clause') {
+          orelse = extractFlow(child.childForFieldName('body'));
+        } else if (child.type === 'finally_clause') {
+          finalizer = extractFlow(child.namedChildren.find((c) => c.type === 'block') ?? null);
+        }
+      }
+      return { kind: 'try', body: extractFlow(node.childForFieldName('body')), handlers, orelse, finalizer, range, effects: [] };
+    }
+    case 'with_statement':
+      return { kind: 'block', body: extractFlow(node.childForFieldName('body')), range, effects: collectHeaderEffects(node) };
+    default:
+      return { kind: 'simple', range, effects: collectEffects(node) };
+  }
+}
+
+/** Effects of a compound statement's header: its condition, iterable, subject or context managers. */
+function collectHeaderEffects(node: SyntaxNode): FlowEffect[] {
+  const effects: FlowEffect[] = [];
+  for (const child of node.namedChildren) {
+    if (!NESTED_BLOCK_TYPES.has(child.type)) walkForEffects(child, effects);
+  }
+  return effects;
+}
+
+function collectEffects(node: SyntaxNode): FlowEffect[] {
+  const effects: FlowEffect[] = [];
+  walkForEffects(node, effects);
+  return effects;
+}
+
+function walkForEffects(node: SyntaxNode, effects: FlowEffect[]): void {
+  if (node.type === 'function_definition' || node.type === 'class_definition' || node.type === 'lambda') return;
+
+  // Arguments are evaluated before the call they are passed to
+  for (const child of node.namedChildren) {
+    walkForEffects(child, effects);
+  }
+  if (node.type !== 'call') return;
+
+  const funcNode = node.childForFieldName('function');
+  if (!funcNode) return;
+  const range = nodeRange(node);
+  const ksrPvMethod = getKsrPvMethod(funcNode);
+  if (ksrPvMethod) {
+    // is_null() probes whether a PV is set rather than using its value
+    if (ksrPvMethod === 'is_null') return;
+    const reads = new Set<string>();
+    const writes = new Set<string>();
+    extractPvAccess(node, ksrPvMethod, reads, writes);
+    for (const pvKey of reads) effects.push({ kind: 'read', pvKey, range });
+    for (const pvKey of writes) effects.push({ kind: 'write', pvKey, range });
+    return;
+  }
+  const callee = getCalleeName(funcNode);
+  if (callee && !callee.startsWith('KSR.')) effects.push({ kind: 'call', callee, range });
+}
+
+/**
+ * How control leaves a statement or block: `falls` through to the next
+ * statement, `exits` the script (KSR.x.exit/drop or a helper that never
+ * returns), or `leaves` the block some other way (return, raise, break,
+ * continue, or a mix of leaving and exiting branches).
+ */
+type FlowOutcome = 'falls' | 'exits' | 'leaves';
+
+function combineOutcomes(outcomes: FlowOutcome[]): FlowOutcome {
+  if (outcomes.includes('falls')) return 'falls';
+  return outcomes.every((o) => o === 'exits') ? 'exits' : 'leaves';
+}
+
+function statementOutcome(stmt: FlowStatement, neverReturns: (callee: string) => boolean): FlowOutcome {
+  switch (stmt.kind) {
+    case 'exit':
+      return 'exits';
+    case 'leave':
+      return 'leaves';
+    case 'call':
+      return neverReturns(stmt.callee) ? 'exits' : 'falls';
+    case 'branch': {
+      const outcomes = stmt.blocks.map((b) => blockOutcome(b, neverReturns));
+      if (!stmt.exhaustive) outcomes.push('falls');
+      return combineOutcomes(outcomes);
+    }
+    case 'loop':
+      return 'falls';
+    case 'try': {
+      const bodyOutcome = blockOutcome(stmt.body, neverReturns);
+      const main = bodyOutcome === 'falls' && stmt.orelse ? blockOutcome(stmt.orelse, neverReturns) : bodyOutcome;
+      const outcome = combineOutcomes([main, ...stmt.handlers.map((h) => blockOutcome(h, neverReturns))]);
+      const finalOutcome = stmt.finalizer ? blockOutcome(stmt.finalizer, neverReturns) : 'falls';
+      return finalOutcome === 'falls' ? outcome : finalOutcome;
+    }
+    case 'block':
+      return blockOutcome(stmt.body, neverReturns);
+    default:
+      return 'falls';
+  }
+}
+
+function blockOutcome(block: FlowStatement[], neverReturns: (callee: string) => boolean): FlowOutcome {
+  for (const stmt of block) {
+    const outcome = statementOutcome(stmt, neverReturns);
+    if (outcome !== 'falls') return outcome;
+  }
+  return 'falls';
+}
+
+/** True when every path through the body ends the script, so the function never returns. */
+export function alwaysExits(flow: FlowStatement[], neverReturns: (callee: string) => boolean): boolean {
+  return blockOutcome(flow, neverReturns) === 'exits';
+}
+
+/** Find statements that can never run. Code nested inside an unreachable statement is not reported again. */
+export function findUnreachableCode(
+  flow: FlowStatement[],
+  neverReturns: (callee: string) => boolean
+): UnreachableCode[] {
+  const results: UnreachableCode[] = [];
+  walkForUnreachable(flow, neverReturns, results);
+  return results;
+}
+
+function walkForUnreachable(
+  block: FlowStatement[],
+  neverReturns: (callee: string) => boolean,
+  results: UnreachableCode[]
+): void {
+  for (let i = 0; i < block.length; i++) {
+    const stmt = block[i];
+    for (const nested of nestedBlocks(stmt)) {
+      walkForUnreachable(nested, neverReturns, results);
+    }
+    if (i === block.length - 1 || statementOutcome(stmt, neverReturns) === 'falls') continue;
+
+    const first = block[i + 1].range;
+    const last = block[block.length - 1].range;
+    results.push({
+      range: {
+        startPosition: first.startPosition,
+        endPosition: last.endPosition,
+        startIndex: first.startIndex,
+        endIndex: last.endIndex,
+      },
+      ...describeCause(stmt),
+    });
+    return;
+  }
+}
+
+function nestedBlocks(stmt: FlowStatement): FlowStatement[][] {
+  switch (stmt.kind) {
+    case 'branch':
+    case 'loop':
+      return stmt.blocks;
+    case 'try':
+      return [stmt.body, ...stmt.handlers, stmt.orelse ?? [], stmt.finalizer ?? []];
+    case 'block':
+      return [stmt.body];
+    default:
+      return [];
+  }
+}
+
+function describeCause(stmt: FlowStatement): Pick<UnreachableCode, 'cause' | 'causeKind'> {
+  switch (stmt.kind) {
+    case 'exit':
+      return { cause: `${stmt.callee}()`, causeKind: 'exit' };
+    case 'leave':
+      return { cause: stmt.keyword, causeKind: 'leave' };
+    case 'call':
+      return { cause: stmt.callee, causeKind: 'call' };
+    default:
+      return { cause: stmt.kind, causeKind: 'compound' };
+  }
+}
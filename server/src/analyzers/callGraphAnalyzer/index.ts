@@ -1,13 +1,22 @@
 import {
+  CallHierarchyIncomingCall,
+  CallHierarchyItem,
+  CallHierarchyOutgoingCall,
+  CodeAction,
+  CodeActionKind,
   CompletionItem,
   CompletionItemKind,
   Diagnostic,
   DiagnosticSeverity,
+  DiagnosticTag,
   Hover,
+  SignatureHelp,
+  SymbolKind,
   Location,
   Position,
   Range,
   TextEdit,
+  WorkspaceEdit,
 } from 'vscode-languageserver';
 import {
   Analyzer,
@@ -17,13 +26,31 @@ import {
   TreeSitterRange,
 } from '../../core/types';
 import { CallGraph } from './callGraph';
+import { RoutingGraph, RoutingGraphEdge, RoutingGraphNode } from './callGraphExport';
+import { FlowFunction, findUnsetPvReads, UnsetPvRead } from './pvFlow';
 import { ImportResolver, ImportBinding } from './importResolver';
-import { extractFunctions, ExtractedFunction, FunctionDef } from './functionExtractor';
+import {
+  alwaysExits,
+  extractFunctions,
+  ExtractedFunction,
+  findUnreachableCode,
+  FunctionDef,
+  UnreachableCode,
+} from './functionExtractor';
+import {
+  extractKemiEntryInfo,
+  findEntryClasses,
+  KEMI_ENTRY_METHODS,
+  KemiEntryInfo,
+} from './entryPointExtractor';
+import { closestMatch } from '../../core/closestMatch';
+import { CfgCallbackDeclaration, HtableDeclaration, StatDeclaration } from '../../core/workspaceIndexer';
+import { ROUTE_TYPE_LABELS, RouteType } from '../../data/routeTypes';
+import { findKemiCallback, KemiCallbackDef } from '../../data/kemiCallbacks';
 import { STANDARD_SIP_HEADERS, findStandardHeader } from '../../data/sipHeaders';
 import { MarkupKind } from 'vscode-languageserver';
 import { SyntaxNode, Tree } from 'web-tree-sitter';
 
-const CALLBACK_METHODS = new Set(['t_on_failure', 't_on_branch']);
 const HTABLE_METHODS = new Set([
   'sht_get', 'sht_gete', 'sht_sets', 'sht_seti', 'sht_inc', 'sht_rm',
 ]);
@@ -35,25 +62,39 @@ const STAT_METHODS = new Set(['update_stat']);
 
 interface CallbackReference {
   name: string;
+  /** Registering function, e.g. `tm.t_on_failure`. */
   method: string;
+  routeType: RouteType;
   nameRange: TreeSitterRange;
+  /** How the route name is written; constants are renamed at their definition. */
+  source: ResolvedStringArg['source'];
+  constant?: string;
 }
 
 interface HtableReference {
   tableName: string;
   method: string;
   nameRange: TreeSitterRange;
+  source: ResolvedStringArg['source'];
+  constant?: string;
 }
 
 interface HdrReference {
   headerName: string;
   method: string;
   nameRange: TreeSitterRange;
+  source: ResolvedStringArg['source'];
+  constant?: string;
 }
 
+/** Names shared between KSR calls, PV strings and kamailio.cfg. */
+export type NamedResourceKind = 'htable' | 'header' | 'stat';
+
 interface StatReference {
   statName: string;
   nameRange: TreeSitterRange;
+  source: ResolvedStringArg['source'];
+  constant?: string;
 }
 
 export class CallGraphAnalyzer implements Analyzer {
@@ -64,24 +105,47 @@ export class CallGraphAnalyzer implements Analyzer {
   private importResolver = new ImportResolver();
   private importsByFile: Map<string, ImportBinding[]> = new Map();
   private functionsByFile: Map<string, ExtractedFunction[]> = new Map();
+  private entryInfoByFile: Map<string, KemiEntryInfo> = new Map();
   private callbacksByFile: Map<string, CallbackReference[]> = new Map();
   private htablesByFile: Map<string, HtableReference[]> = new Map();
   private hdrsByFile: Map<string, HdrReference[]> = new Map();
   private statsByFile: Map<string, StatReference[]> = new Map();
   private rawStringsByFile: Map<string, Map<string, string>> = new Map();
+  // Range of the string content assigned to each plain string constant
+  private rawStringRangesByFile: Map<string, Map<string, TreeSitterRange>> = new Map();
   private rawAliasesByFile: Map<string, Map<string, string>> = new Map();
+  private rawKindsByFile: Map<string, Map<string, ConstantKind>> = new Map();
+  private rawKindAliasesByFile: Map<string, Map<string, string>> = new Map();
+  // Non-returning functions depend on other files; recomputed lazily after changes
+  private neverReturnsDirty = true;
+  private routeTypes: Map<string, Set<RouteType>> | null = null;
+  private reachable: Set<string> | null = null;
+  private unsetVarReads: UnsetPvRead[] | null = null;
+  // Function names treated as reachable, e.g. helpers only called from tests
+  private extraRoots: Set<string> = new Set();
 
   constructor(
     private getWorkspaceRoots: () => string[],
     private getKnownFiles: () => Set<string>,
-    private getDeclaredStats: () => Map<string, { name: string; uri: string; line: number }> = () => new Map()
+    private getDeclaredStats: () => Map<string, StatDeclaration> = () => new Map(),
+    private getCfgCallbacks: () => CfgCallbackDeclaration[] = () => [],
+    private getDeclaredHtables: () => Map<string, HtableDeclaration> = () => new Map()
   ) {}
 
+  setExtraRoots(names: string[]): void {
+    this.extraRoots = new Set(names);
+    this.reachable = null;
+  }
+
   analyze(context: AnalysisContext): void {
     const { uri, tree } = context;
 
     // Remove old data for this file
     this.callGraph.removeFile(uri);
+    this.neverReturnsDirty = true;
+    this.routeTypes = null;
+    this.reachable = null;
+    this.unsetVarReads = null;
 
     // Extract imports and resolve module paths
     const imports = this.importResolver.extractImports(tree);
@@ -105,6 +169,25 @@ export class CallGraphAnalyzer implements Analyzer {
       this.callGraph.setDirectPvAccess(fnKey, fn.pvReads, fn.pvWrites);
     }
 
+    // Record the KEMI entry points Kamailio calls directly
+    const entryInfo = extractKemiEntryInfo(tree);
+    this.entryInfoByFile.set(uri, entryInfo);
+    if (entryInfo.modInit) {
+      this.callGraph.setEntryRoute(CallGraph.qualifiedKey(uri, 'mod_init'), 'init');
+    }
+    const cfgCallbackNames = new Set(this.getCfgCallbacks().map((cb) => cb.name));
+    for (const cls of findEntryClasses(entryInfo)) {
+      for (const method of cls.methods) {
+        const entry = KEMI_ENTRY_METHODS[method.name];
+        if (entry) {
+          this.callGraph.setEntryRoute(CallGraph.qualifiedKey(uri, method.name), entry.routeType);
+        } else if (cfgCallbackNames.has(method.name)) {
+          // Named in kamailio.cfg and called by the module on its events
+          this.callGraph.setEntryRoute(CallGraph.qualifiedKey(uri, method.name), 'event');
+        }
+      }
+    }
+
     // Resolve call edges
     for (const fn of functions) {
       const fnKey = CallGraph.qualifiedKey(uri, fn.def.name);
@@ -117,12 +200,15 @@ export class CallGraphAnalyzer implements Analyzer {
     }
 
     // Collect raw string assignments and aliases for cross-file constant resolution.
-    const { rawStrings, rawAliases } = extractRawConstants(tree);
+    const { rawStrings, rawStringRanges, rawAliases, rawKinds, rawKindAliases } = extractRawConstants(tree);
     this.rawStringsByFile.set(uri, rawStrings);
+    this.rawStringRangesByFile.set(uri, rawStringRanges);
     this.rawAliasesByFile.set(uri, rawAliases);
+    this.rawKindsByFile.set(uri, rawKinds);
+    this.rawKindAliasesByFile.set(uri, rawKindAliases);
     const allConstants = this.getAllConstants();
 
-    // Extract callback registrations (KSR.tm.t_on_failure/t_on_branch)
+    // Extract callback registrations (KSR.tm.t_on_failure, KSR.async.route, ...)
     const callbacks = extractCallbackRegistrations(tree, allConstants);
     this.callbacksByFile.set(uri, callbacks);
 
@@ -140,11 +226,13 @@ export class CallGraphAnalyzer implements Analyzer {
   }
 
   private resolveCallee(callee: string, fromUri: string): string | null {
-    // Check local functions in the same file
+    // Check local functions in the same file; self.method() calls
+    // resolve to methods of the classes in this file
     const localFunctions = this.functionsByFile.get(fromUri);
     if (localFunctions) {
-      const local = localFunctions.find((f) => f.def.name === callee);
-      if (local) return CallGraph.qualifiedKey(fromUri, callee);
+      const localName = callee.startsWith('self.') ? callee.substring(5) : callee;
+      const local = localFunctions.find((f) => f.def.name === localName);
+      if (local) return CallGraph.qualifiedKey(fromUri, localName);
     }
 
     // Check imports
@@ -358,6 +446,47 @@ export class CallGraphAnalyzer implements Analyzer {
       }
     }
 
+    // KEMI entry class returned by mod_init()
+    const entryInfo = this.entryInfoByFile.get(doc.uri);
+    if (entryInfo) diags.push(...this.checkKemiEntryPoints(entryInfo));
+
+    // Unreachable code after KSR.x.exit(), return, or calls that never return
+    const functions = this.functionsByFile.get(doc.uri);
+    if (functions) {
+      this.updateNeverReturns();
+      const neverReturns = (callee: string) => this.isNeverReturningCall(callee, doc.uri);
+      for (const fn of functions) {
+        for (const unreachable of findUnreachableCode(fn.flow, neverReturns)) {
+          diags.push({
+            severity: DiagnosticSeverity.Hint,
+            range: toRange(unreachable.range),
+            message: unreachableMessage(unreachable),
+            source: 'kamailio-flow',
+            code: 'unreachable-code',
+            tags: [DiagnosticTag.Unnecessary],
+          });
+        }
+      }
+    }
+
+    // Functions no entry point, callback or module-level code ever reaches
+    if (functions && this.callGraph.getEntryPoints().length > 0) {
+      const reachable = this.getReachableFunctions();
+      for (const fn of functions) {
+        const { name } = fn.def;
+        if (name === '<module>' || /^__\w+__$/.test(name)) continue;
+        if (reachable.has(CallGraph.qualifiedKey(doc.uri, name))) continue;
+        diags.push({
+          severity: DiagnosticSeverity.Hint,
+          range: toRange(fn.def.nameRange),
+          message: `Function '${name}' is never reached from a KEMI entry point`,
+          source: 'kamailio-flow',
+          code: 'unreachable-function',
+          tags: [DiagnosticTag.Unnecessary],
+        });
+      }
+    }
+
     return diags;
   }
 
@@ -395,8 +524,8 @@ export class CallGraphAnalyzer implements Analyzer {
       return [{
         uri: decl.uri,
         range: {
-          start: { line: decl.line, character: 0 },
-          end: { line: decl.line, character: 0 },
+          start: { line: decl.line, character: decl.startColumn },
+          end: { line: decl.line, character: decl.endColumn },
         },
       }];
     }
@@ -430,21 +559,434 @@ export class CallGraphAnalyzer implements Analyzer {
     return [];
   }
 
+  getSignatureHelp(_doc: DocumentContext, _position: Position): SignatureHelp | null {
+    return null;
+  }
+
+  getCodeActions(doc: DocumentContext, _range: Range, diagnostics: Diagnostic[]): CodeAction[] {
+    const actions: CodeAction[] = [];
+    for (const diag of diagnostics) {
+      if (diag.source !== 'kamailio-entry') continue;
+      const suggestion = (diag.data as { suggestion?: string } | undefined)?.suggestion;
+      if (!suggestion) continue;
+      actions.push({
+        title: `Change to '${suggestion}'`,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diag],
+        isPreferred: true,
+        edit: { changes: { [doc.uri]: [TextEdit.replace(diag.range, suggestion)] } },
+      });
+    }
+    return actions;
+  }
+
+  prepareRename(doc: DocumentContext, position: Position): Range | null {
+    const target = this.findCallbackRenameTarget(doc, position);
+    return target ? toRange(target.range) : null;
+  }
+
+  /**
+   * Rename a function used as a KEMI callback: its definition, direct calls,
+   * route name strings (at the constant definition when registered through a
+   * constant) and cfg event callbacks. Route names built by f-strings are left alone.
+   * Only the function the position resolves to is renamed; route names that
+   * resolve to no single function are matched by name.
+   */
+  getRenameEdits(doc: DocumentContext, position: Position, newName: string): WorkspaceEdit | null {
+    const target = this.findCallbackRenameTarget(doc, position);
+    if (!target || !/^[A-Za-z_]\w*$/.test(newName)) return null;
+
+    const changes: Record<string, TextEdit[]> = {};
+    const seen = new Set<string>();
+    const addEdit = (uri: string, range: Range) => {
+      const id = `${uri}:${range.start.line}:${range.start.character}`;
+      if (seen.has(id)) return;
+      seen.add(id);
+      let edits = changes[uri];
+      if (!edits) {
+        edits = [];
+        changes[uri] = edits;
+      }
+      edits.push(TextEdit.replace(range, newName));
+    };
+
+    const targetKeys = new Set<string>();
+    const nodes = target.key ? [this.callGraph.getFunction(target.key)] : this.callGraph.getFunctionsByName(target.name);
+    for (const node of nodes) {
+      if (!node) continue;
+      targetKeys.add(CallGraph.qualifiedKey(node.def.uri, node.def.name));
+      addEdit(node.def.uri, toRange(node.def.nameRange));
+    }
+    const isTarget = (name: string, fromUri: string | null) => {
+      if (name !== target.name) return false;
+      const resolved = this.resolveCallback(name, fromUri);
+      return resolved ? targetKeys.has(resolved) : true;
+    };
+
+    for (const [uri, functions] of this.functionsByFile) {
+      for (const fn of functions) {
+        for (const callSite of fn.callSites) {
+          const resolved = this.resolveCallee(callSite.callee, uri);
+          if (resolved && targetKeys.has(resolved)) addEdit(uri, toRange(callSite.nameRange));
+        }
+      }
+    }
+    for (const [uri, callbacks] of this.callbacksByFile) {
+      for (const cb of callbacks) {
+        if (!isTarget(cb.name, uri)) continue;
+        if (cb.source === 'literal') {
+          addEdit(uri, toRange(cb.nameRange));
+        } else if (cb.source === 'constant') {
+          const def = this.findConstantDefinition(cb.constant!);
+          if (def) addEdit(def.uri, toRange(def.range));
+        }
+      }
+    }
+    for (const cb of this.getCfgCallbacks()) {
+      if (!isTarget(cb.name, null)) continue;
+      addEdit(cb.uri, {
+        start: { line: cb.line, character: cb.startColumn },
+        end: { line: cb.line, character: cb.endColumn },
+      });
+    }
+    return { changes };
+  }
+
   onDocumentRemoved(uri: string): void {
     this.callGraph.removeFile(uri);
+    this.neverReturnsDirty = true;
+    this.routeTypes = null;
+    this.reachable = null;
+    this.unsetVarReads = null;
     this.importsByFile.delete(uri);
     this.functionsByFile.delete(uri);
+    this.entryInfoByFile.delete(uri);
     this.callbacksByFile.delete(uri);
     this.htablesByFile.delete(uri);
     this.hdrsByFile.delete(uri);
     this.statsByFile.delete(uri);
     this.rawStringsByFile.delete(uri);
+    this.rawStringRangesByFile.delete(uri);
     this.rawAliasesByFile.delete(uri);
+    this.rawKindsByFile.delete(uri);
+    this.rawKindAliasesByFile.delete(uri);
+  }
+
+  // --- Call hierarchy ---
+
+  /** The function defined, called or registered as a callback at the position. */
+  prepareCallHierarchy(doc: DocumentContext, position: Position): CallHierarchyItem[] {
+    const offset = positionToOffset(doc.fullText, position);
+    const contains = (r: TreeSitterRange) => offset >= r.startIndex && offset <= r.endIndex;
+    const functions = this.functionsByFile.get(doc.uri) ?? [];
+
+    const defined = functions.find((fn) => fn.def.name !== '<module>' && contains(fn.def.nameRange));
+    if (defined) return [this.toCallHierarchyItem(CallGraph.qualifiedKey(doc.uri, defined.def.name))!];
+
+    const cb = this.findCallbackAtPosition(doc, position);
+    if (cb) {
+      return this.callGraph.getFunctionsByName(cb.name)
+        .map((node) => this.toCallHierarchyItem(CallGraph.qualifiedKey(node.def.uri, node.def.name))!);
+    }
+
+    for (const fn of functions) {
+      for (const callSite of fn.callSites) {
+        if (!contains(callSite.range)) continue;
+        const resolved = this.resolveCallee(callSite.callee, doc.uri);
+        const item = resolved ? this.toCallHierarchyItem(resolved) : null;
+        if (item) return [item];
+      }
+    }
+    return [];
+  }
+
+  /** Callers of the item, including functions registering it as a callback. */
+  getIncomingCalls(item: CallHierarchyItem): CallHierarchyIncomingCall[] {
+    const targetKey = (item.data as { key: string }).key;
+    const target = this.callGraph.getFunction(targetKey);
+    if (!target) return [];
+
+    const fromRanges = new Map<string, Range[]>();
+
+    for (const callerKey of target.callers) {
+      const caller = this.callGraph.getFunction(callerKey);
+      if (!caller) continue;
+      const fn = this.functionsByFile.get(caller.def.uri)?.find((f) => f.def.name === caller.def.name);
+      for (const callSite of fn?.callSites ?? []) {
+        if (this.resolveCallee(callSite.callee, caller.def.uri) === targetKey) addFromRange(fromRanges, callerKey, callSite.range);
+      }
+    }
+
+    for (const [uri, callbacks] of this.callbacksByFile) {
+      for (const cb of callbacks) {
+        if (cb.name !== target.def.name) continue;
+        const registrar = this.findEnclosingFunction(uri, cb.nameRange.startIndex);
+        if (registrar) addFromRange(fromRanges, CallGraph.qualifiedKey(uri, registrar.name), cb.nameRange);
+      }
+    }
+
+    const calls: CallHierarchyIncomingCall[] = [];
+    for (const [key, ranges] of fromRanges) {
+      const from = this.toCallHierarchyItem(key);
+      if (from) calls.push({ from, fromRanges: ranges });
+    }
+    return calls;
+  }
+
+  /** Functions the item calls, including the callbacks it registers. */
+  getOutgoingCalls(item: CallHierarchyItem): CallHierarchyOutgoingCall[] {
+    const sourceKey = (item.data as { key: string }).key;
+    const source = this.callGraph.getFunction(sourceKey);
+    if (!source) return [];
+    const { uri, range } = source.def;
+
+    const fromRanges = new Map<string, Range[]>();
+
+    const fn = this.functionsByFile.get(uri)?.find((f) => f.def.name === source.def.name);
+    for (const callSite of fn?.callSites ?? []) {
+      const resolved = this.resolveCallee(callSite.callee, uri);
+      if (resolved) addFromRange(fromRanges, resolved, callSite.range);
+    }
+
+    for (const cb of this.callbacksByFile.get(uri) ?? []) {
+      if (cb.nameRange.startIndex < range.startIndex || cb.nameRange.endIndex > range.endIndex) continue;
+      if (this.findEnclosingFunction(uri, cb.nameRange.startIndex)?.name !== source.def.name) continue;
+      for (const node of this.callGraph.getFunctionsByName(cb.name)) {
+        addFromRange(fromRanges, CallGraph.qualifiedKey(node.def.uri, node.def.name), cb.nameRange);
+      }
+    }
+
+    const calls: CallHierarchyOutgoingCall[] = [];
+    for (const [key, ranges] of fromRanges) {
+      const to = this.toCallHierarchyItem(key);
+      if (to) calls.push({ to, fromRanges: ranges });
+    }
+    return calls;
+  }
+
+  // --- Call graph export ---
+
+  /** Functions reachable from the KEMI entry points, following calls and callback registrations. */
+  getRoutingGraph(): RoutingGraph {
+    this.updateNeverReturns();
+
+    const callbacksByRegistrar = new Map<string, CallbackReference[]>();
+    for (const [uri, callbacks] of this.callbacksByFile) {
+      for (const cb of callbacks) {
+        const registrar = this.findEnclosingFunction(uri, cb.nameRange.startIndex);
+        if (!registrar) continue;
+        const key = CallGraph.qualifiedKey(uri, registrar.name);
+        let list = callbacksByRegistrar.get(key);
+        if (!list) {
+          list = [];
+          callbacksByRegistrar.set(key, list);
+        }
+        list.push(cb);
+      }
+    }
+
+    const nodes: RoutingGraphNode[] = [];
+    const edges: RoutingGraphEdge[] = [];
+    const visited = new Set<string>();
+    const queue = this.callGraph.getEntryPoints()
+      .map((node) => CallGraph.qualifiedKey(node.def.uri, node.def.name));
+    while (queue.length > 0) {
+      const key = queue.shift()!;
+      if (visited.has(key)) continue;
+      visited.add(key);
+      const node = this.callGraph.getFunction(key);
+      if (!node) continue;
+
+      nodes.push({
+        key,
+        name: node.def.name,
+        uri: node.def.uri,
+        entryRoute: node.entryRoute,
+        pvWrites: Array.from(node.directPvWrites).sort(),
+      });
+      for (const callee of node.callees) {
+        edges.push({ from: key, to: callee, callback: null });
+        queue.push(callee);
+      }
+      for (const cb of callbacksByRegistrar.get(key) ?? []) {
+        for (const target of this.callGraph.getFunctionsByName(cb.name)) {
+          const targetKey = CallGraph.qualifiedKey(target.def.uri, target.def.name);
+          edges.push({ from: key, to: targetKey, callback: cb.method });
+          queue.push(targetKey);
+        }
+      }
+    }
+    return { nodes, edges };
   }
 
   // --- Public API for PvAnalyzer ---
 
-  getCallGraph(): CallGraph { return this.callGraph; }
+  getCallGraph(): CallGraph {
+    this.updateNeverReturns();
+    return this.callGraph;
+  }
+
+  /**
+   * Route types each function can run in: reachable from a KEMI entry point
+   * or from a function registered as a callback. Functions that are not
+   * reachable from any of them are absent.
+   */
+  getRouteTypes(): Map<string, Set<RouteType>> {
+    if (this.routeTypes) return this.routeTypes;
+
+    const roots = new Map<string, Set<RouteType>>();
+    const addRoot = (key: string, routeType: RouteType) => {
+      let set = roots.get(key);
+      if (!set) {
+        set = new Set();
+        roots.set(key, set);
+      }
+      set.add(routeType);
+    };
+    for (const node of this.callGraph.getEntryPoints()) {
+      addRoot(CallGraph.qualifiedKey(node.def.uri, node.def.name), node.entryRoute!);
+    }
+    for (const callbacks of this.callbacksByFile.values()) {
+      for (const cb of callbacks) {
+        for (const fn of this.callGraph.getFunctionsByName(cb.name)) {
+          addRoot(CallGraph.qualifiedKey(fn.def.uri, fn.def.name), cb.routeType);
+        }
+      }
+    }
+
+    this.routeTypes = this.callGraph.propagateRouteTypes(roots);
+    return this.routeTypes;
+  }
+
+  /** Definition of the KEMI method named by an event callback modparam at a position in a cfg file. */
+  getCfgCallbackDefinitions(uri: string, position: Position): Location[] {
+    const cb = this.getCfgCallbacks().find(
+      (c) => c.uri === uri && c.line === position.line &&
+        position.character >= c.startColumn && position.character <= c.endColumn
+    );
+    if (!cb) return [];
+    const method = this.findEntryMethod(cb.name);
+    const def = method ?? this.findFunctionByName(cb.name);
+    if (!def) return [];
+    return [{ uri: def.uri, range: toRange(def.nameRange) }];
+  }
+
+  /** Route types of the innermost function containing the offset, or null outside known routes. */
+  getRouteTypesAt(uri: string, offset: number): Set<RouteType> | null {
+    const innermost = this.findEnclosingFunction(uri, offset);
+    if (!innermost) return null;
+    return this.getRouteTypes().get(CallGraph.qualifiedKey(uri, innermost.name)) ?? null;
+  }
+
+  /**
+   * The htable, custom header or statistic named by the string at a position,
+   * with the range to rename. Names built by f-strings or taken from a constant
+   * are not renamed from the call site.
+   */
+  findNamedResourceAt(doc: DocumentContext, position: Position): { kind: NamedResourceKind; name: string; range: Range } | null {
+    const ht = this.findHtableAtPosition(doc, position);
+    if (ht) {
+      return ht.source === 'literal' ? { kind: 'htable', name: ht.tableName, range: toRange(ht.nameRange) } : null;
+    }
+    const hdr = this.findHdrAtPosition(doc, position);
+    if (hdr) {
+      if (hdr.source !== 'literal' || findStandardHeader(hdr.headerName)) return null;
+      return { kind: 'header', name: hdr.headerName, range: toRange(hdr.nameRange) };
+    }
+    const stat = this.findStatAtPosition(doc, position);
+    if (stat) {
+      return stat.source === 'literal' ? { kind: 'stat', name: stat.statName, range: toRange(stat.nameRange) } : null;
+    }
+    return null;
+  }
+
+  /**
+   * Where a named resource is spelled out outside PV strings: KSR call
+   * arguments, the definition of constants passed to them, and the
+   * kamailio.cfg declaration. Header names compare case-insensitively.
+   */
+  getNamedResourceLocations(kind: NamedResourceKind, name: string): Location[] {
+    const locations: Location[] = [];
+    const add = (uri: string, ref: { nameRange: TreeSitterRange; source: ResolvedStringArg['source']; constant?: string }) => {
+      if (ref.source === 'literal') {
+        locations.push({ uri, range: toRange(ref.nameRange) });
+      } else if (ref.source === 'constant') {
+        const def = this.findConstantDefinition(ref.constant!);
+        if (def) locations.push({ uri: def.uri, range: toRange(def.range) });
+      }
+    };
+    const addDecl = (decl: { uri: string; line: number; startColumn: number; endColumn: number } | undefined) => {
+      if (!decl) return;
+      locations.push({
+        uri: decl.uri,
+        range: {
+          start: { line: decl.line, character: decl.startColumn },
+          end: { line: decl.line, character: decl.endColumn },
+        },
+      });
+    };
+
+    if (kind === 'htable') {
+      for (const [uri, refs] of this.htablesByFile) {
+        for (const ref of refs) if (ref.tableName === name) add(uri, ref);
+      }
+      addDecl(this.getDeclaredHtables().get(name));
+    } else if (kind === 'header') {
+      const lower = name.toLowerCase();
+      for (const [uri, refs] of this.hdrsByFile) {
+        for (const ref of refs) if (ref.headerName.toLowerCase() === lower) add(uri, ref);
+      }
+    } else {
+      for (const [uri, refs] of this.statsByFile) {
+        for (const ref of refs) if (ref.statName === name) add(uri, ref);
+      }
+      addDecl(this.getDeclaredStats().get(name));
+    }
+    return locations;
+  }
+
+  /**
+   * `$var` reads in a file that a path from ksr_request_route reaches before
+   * any statement or callee has set the variable. The ranges are those of
+   * the KSR.pv calls.
+   */
+  getUnsetVarReads(uri: string): UnsetPvRead[] {
+    if (!this.unsetVarReads) {
+      const entries = this.callGraph.getEntryPoints()
+        .filter((node) => node.entryRoute === 'request')
+        .map((node) => this.getFlowFunction(CallGraph.qualifiedKey(node.def.uri, node.def.name)))
+        .filter((fn): fn is FlowFunction => fn !== null);
+      this.unsetVarReads = findUnsetPvReads(
+        entries,
+        (callee, fromUri) => {
+          const key = this.resolveCallee(callee, fromUri);
+          return key ? this.getFlowFunction(key) : null;
+        },
+        (pvKey) => pvKey.startsWith('var:')
+      );
+    }
+    return this.unsetVarReads.filter((read) => read.uri === uri);
+  }
+
+  /** Value kind of every module-level constant, with aliases resolved across files. */
+  getConstantKinds(): Map<string, ConstantKind> {
+    const allKinds: Map<string, ConstantKind> = new Map();
+    const allAliases: Map<string, string> = new Map();
+    for (const kinds of this.rawKindsByFile.values()) {
+      for (const [k, v] of kinds) allKinds.set(k, v);
+    }
+    for (const aliases of this.rawKindAliasesByFile.values()) {
+      for (const [k, v] of aliases) allAliases.set(k, v);
+    }
+    const result: Map<string, ConstantKind> = new Map(allKinds);
+    for (const [name, target] of allAliases) {
+      const resolved = resolveAliasChain(target, allKinds, allAliases);
+      if (resolved !== undefined) {
+        result.set(name, resolved);
+      }
+    }
+    return result;
+  }
 
   private getAllConstants(): StringConstants {
     // Merge raw strings and aliases from all files
@@ -469,6 +1011,124 @@ export class CallGraphAnalyzer implements Analyzer {
 
   // --- Private helpers ---
 
+  private checkKemiEntryPoints(info: KemiEntryInfo): Diagnostic[] {
+    const diags: Diagnostic[] = [];
+    const entryDiag = (range: TreeSitterRange, severity: DiagnosticSeverity, code: string, message: string, data?: unknown): Diagnostic =>
+      ({ severity, range: toRange(range), message, source: 'kamailio-entry', code, data });
+
+    const entryClasses = findEntryClasses(info);
+    if (info.modInit) {
+      const { modInit } = info;
+      for (const ret of modInit.returns) {
+        if (ret.kind === 'class') {
+          diags.push(entryDiag(ret.range, DiagnosticSeverity.Error, 'mod-init-returns-class',
+            `mod_init() returns the class '${ret.className}' instead of an instance — use ${ret.className}()`,
+            { suggestion: `${ret.className}()` }));
+        }
+      }
+      if (!modInit.returns.some((r) => r.kind !== 'other')) {
+        diags.push(entryDiag(modInit.nameRange, DiagnosticSeverity.Warning, 'mod-init-no-instance',
+          'mod_init() must return an instance of the KEMI class, e.g. `return kamailio()`'));
+      }
+    } else if (entryClasses.length > 0) {
+      diags.push(entryDiag(entryClasses[0].nameRange, DiagnosticSeverity.Warning, 'missing-mod-init',
+        `Class '${entryClasses[0].name}' defines ksr_request_route but there is no mod_init() returning an instance of it`));
+    }
+
+    const callbackNames = new Set<string>();
+    for (const callbacks of this.callbacksByFile.values()) {
+      for (const cb of callbacks) callbackNames.add(cb.name);
+    }
+    const cfgCallbacks = this.getCfgCallbacks();
+    for (const cb of cfgCallbacks) callbackNames.add(cb.name);
+
+    if (entryClasses.length > 0) {
+      for (const cb of cfgCallbacks) {
+        if (entryClasses.some((cls) => cls.methods.some((m) => m.name === cb.name))) continue;
+        const cfgRange = {
+          start: { line: cb.line, character: cb.startColumn },
+          end: { line: cb.line, character: cb.endColumn },
+        };
+        diags.push({
+          severity: DiagnosticSeverity.Warning,
+          range: toRange(entryClasses[0].nameRange),
+          message: `${cb.uri.split('/').pop()} names '${cb.name}' as the ${cb.module} ${cb.param} callback, but KEMI class '${entryClasses[0].name}' has no such method`,
+          source: 'kamailio-callback',
+          code: 'undefined-cfg-callback',
+          relatedInformation: [{ location: { uri: cb.uri, range: cfgRange }, message: `${cb.module} ${cb.param}` }],
+        });
+      }
+    }
+    const entryNames = Object.keys(KEMI_ENTRY_METHODS);
+
+    for (const cls of entryClasses) {
+      if (info.modInit && !cls.methods.some((m) => m.name === 'ksr_request_route')) {
+        diags.push(entryDiag(cls.nameRange, DiagnosticSeverity.Warning, 'missing-request-route',
+          `KEMI class '${cls.name}' has no ksr_request_route method`));
+      }
+      for (const method of cls.methods) {
+        const entry = KEMI_ENTRY_METHODS[method.name];
+        if (entry) {
+          const expected = entry.params.length + 1;
+          if (method.requiredParams > expected || method.maxParams < expected) {
+            diags.push(entryDiag(method.paramsRange, DiagnosticSeverity.Error, 'entry-point-signature',
+              `${method.name} is called by Kamailio as ${method.name}(self, ${entry.params.join(', ')})`));
+          }
+          continue;
+        }
+        // A near miss of an entry point name is never called by Kamailio
+        if (!method.name.startsWith('ksr_') || callbackNames.has(method.name)) continue;
+        const suggestion = closestMatch(method.name, entryNames);
+        if (suggestion) {
+          diags.push(entryDiag(method.nameRange, DiagnosticSeverity.Warning, 'unknown-entry-point',
+            `'${method.name}' is not a KEMI entry point and is never called by Kamailio. Did you mean '${suggestion}'?`,
+            { suggestion }));
+        }
+      }
+    }
+
+    return diags;
+  }
+
+  /** Mark functions that always end the script, repeating until helpers calling helpers settle. */
+  private updateNeverReturns(): void {
+    if (!this.neverReturnsDirty) return;
+    this.neverReturnsDirty = false;
+
+    for (const [uri, functions] of this.functionsByFile) {
+      for (const fn of functions) {
+        this.callGraph.setNeverReturns(CallGraph.qualifiedKey(uri, fn.def.name), false);
+      }
+    }
+
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const [uri, functions] of this.functionsByFile) {
+        for (const fn of functions) {
+          const key = CallGraph.qualifiedKey(uri, fn.def.name);
+          if (this.callGraph.getFunction(key)?.neverReturns) continue;
+          if (alwaysExits(fn.flow, (callee) => this.isNeverReturningCall(callee, uri))) {
+            this.callGraph.setNeverReturns(key, true);
+            changed = true;
+          }
+        }
+      }
+    }
+  }
+
+  private isNeverReturningCall(callee: string, fromUri: string): boolean {
+    const resolved = this.resolveCallee(callee, fromUri);
+    return !!resolved && !!this.callGraph.getFunction(resolved)?.neverReturns;
+  }
+
+  private getFlowFunction(key: string): FlowFunction | null {
+    const node = this.callGraph.getFunction(key);
+    if (!node) return null;
+    const fn = this.functionsByFile.get(node.def.uri)?.find((f) => f.def.name === node.def.name);
+    return fn ? { key, uri: node.def.uri, flow: fn.flow } : null;
+  }
+
   private findFunctionByName(name: string): FunctionDef | null {
     for (const functions of this.functionsByFile.values()) {
       for (const fn of functions) {
@@ -478,6 +1138,139 @@ export class CallGraphAnalyzer implements Analyzer {
     return null;
   }
 
+  /**
+   * Functions reachable from the entry points, registered callbacks, module-level
+   * code and the configured extra roots. Calls that do not resolve, like
+   * `obj.method()`, keep every function with that name alive.
+   */
+  private getReachableFunctions(): Set<string> {
+    if (this.reachable) return this.reachable;
+
+    const queue: string[] = this.callGraph.getEntryPoints()
+      .map((node) => CallGraph.qualifiedKey(node.def.uri, node.def.name));
+    const addByName = (name: string) => {
+      for (const node of this.callGraph.getFunctionsByName(name)) {
+        queue.push(CallGraph.qualifiedKey(node.def.uri, node.def.name));
+      }
+    };
+    for (const uri of this.functionsByFile.keys()) queue.push(CallGraph.qualifiedKey(uri, '<module>'));
+    for (const callbacks of this.callbacksByFile.values()) {
+      for (const cb of callbacks) addByName(cb.name);
+    }
+    for (const name of this.extraRoots) addByName(name);
+
+    const reachable = new Set<string>();
+    while (queue.length > 0) {
+      const key = queue.pop()!;
+      if (reachable.has(key)) continue;
+      const node = this.callGraph.getFunction(key);
+      if (!node) continue;
+      reachable.add(key);
+      queue.push(...node.callees);
+      const fn = this.functionsByFile.get(node.def.uri)?.find((f) => f.def.name === node.def.name);
+      for (const callSite of fn?.callSites ?? []) {
+        if (!this.resolveCallee(callSite.callee, node.def.uri)) addByName(callSite.callee.split('.').pop()!);
+      }
+    }
+    this.reachable = reachable;
+    return reachable;
+  }
+
+  /** Innermost function (not the module) whose body contains the offset. */
+  private findEnclosingFunction(uri: string, offset: number): FunctionDef | null {
+    const functions = this.functionsByFile.get(uri);
+    if (!functions) return null;
+    let innermost: FunctionDef | null = null;
+    for (const fn of functions) {
+      if (fn.def.name === '<module>') continue;
+      if (offset < fn.def.range.startIndex || offset >= fn.def.range.endIndex) continue;
+      if (!innermost || fn.def.range.startIndex >= innermost.range.startIndex) innermost = fn.def;
+    }
+    return innermost;
+  }
+
+  private toCallHierarchyItem(key: string): CallHierarchyItem | null {
+    const node = this.callGraph.getFunction(key);
+    if (!node) return null;
+    const { def } = node;
+    return {
+      name: def.name,
+      kind: SymbolKind.Function,
+      detail: node.entryRoute ? ROUTE_TYPE_LABELS[node.entryRoute] : undefined,
+      uri: def.uri,
+      range: toRange(def.range),
+      selectionRange: toRange(def.nameRange),
+      data: { key },
+    };
+  }
+
+  /**
+   * The function Kamailio runs for a route name registered from a file, or
+   * from kamailio.cfg when fromUri is null: a method of the KEMI entry class,
+   * else the function the name resolves to from the registering file.
+   */
+  private resolveCallback(name: string, fromUri: string | null): string | null {
+    const method = this.findEntryMethod(name);
+    if (method) return CallGraph.qualifiedKey(method.uri, method.name);
+    if (fromUri) return this.resolveCallee(name, fromUri);
+    const matches = this.callGraph.getFunctionsByName(name);
+    return matches.length === 1 ? CallGraph.qualifiedKey(matches[0].def.uri, name) : null;
+  }
+
+  /** The callback function to rename at a position; key is null for a route name resolving to no single function. */
+  private findCallbackRenameTarget(
+    doc: DocumentContext, position: Position
+  ): { name: string; key: string | null; range: TreeSitterRange } | null {
+    const offset = positionToOffset(doc.fullText, position);
+    const contains = (r: TreeSitterRange) => offset >= r.startIndex && offset <= r.endIndex;
+    const isCallback = (name: string) =>
+      Array.from(this.callbacksByFile.values()).some((cbs) => cbs.some((cb) => cb.name === name)) ||
+      this.getCfgCallbacks().some((cb) => cb.name === name);
+
+    const cb = this.findCallbackAtPosition(doc, position);
+    if (cb) {
+      return cb.source === 'literal' ? { name: cb.name, key: this.resolveCallback(cb.name, doc.uri), range: cb.nameRange } : null;
+    }
+
+    const functions = this.functionsByFile.get(doc.uri) ?? [];
+    for (const fn of functions) {
+      if (fn.def.name !== '<module>' && contains(fn.def.nameRange) && isCallback(fn.def.name)) {
+        return { name: fn.def.name, key: CallGraph.qualifiedKey(doc.uri, fn.def.name), range: fn.def.nameRange };
+      }
+      for (const callSite of fn.callSites) {
+        if (!contains(callSite.nameRange)) continue;
+        const resolved = this.resolveCallee(callSite.callee, doc.uri);
+        const node = resolved ? this.callGraph.getFunction(resolved) : undefined;
+        if (node && isCallback(node.def.name)) return { name: node.def.name, key: resolved, range: callSite.nameRange };
+      }
+    }
+    return null;
+  }
+
+  /** Where a string constant gets its value, following aliases like `B = A`. */
+  private findConstantDefinition(name: string, depth = 0): { uri: string; range: TreeSitterRange } | null {
+    if (depth > 10) return null;
+    for (const [uri, ranges] of this.rawStringRangesByFile) {
+      const range = ranges.get(name);
+      if (range) return { uri, range };
+    }
+    for (const aliases of this.rawAliasesByFile.values()) {
+      const target = aliases.get(name);
+      if (target) return this.findConstantDefinition(target, depth + 1);
+    }
+    return null;
+  }
+
+  /** A method of the KEMI entry class, by name. */
+  private findEntryMethod(name: string): FunctionDef | null {
+    for (const [uri, info] of this.entryInfoByFile) {
+      if (!findEntryClasses(info).some((cls) => cls.methods.some((m) => m.name === name))) continue;
+      const fn = this.functionsByFile.get(uri)?.find((f) => f.def.name === name);
+      if (fn) return fn.def;
+    }
+    return null;
+  }
+
   private findCallbackAtPosition(doc: DocumentContext, position: Position): CallbackReference | undefined {
     const callbacks = this.callbacksByFile.get(doc.uri);
     if (!callbacks) return undefined;
@@ -500,8 +1293,11 @@ export class CallGraphAnalyzer implements Analyzer {
       }
       if (current.type === 'call' && stringNode) {
         const funcNode = current.childForFieldName('function');
-        if (funcNode && isKsrTmCallbackMethod(funcNode)) {
-          return true;
+        const callback = funcNode ? findKsrCallback(funcNode) : undefined;
+        const argsNode = current.childForFieldName('arguments');
+        if (callback && argsNode) {
+          const routeArg = argsNode.namedChild(callback.argIndex);
+          return !!routeArg && routeArg.startIndex === stringNode.startIndex;
         }
       }
       current = current.parent;
@@ -770,23 +1566,60 @@ function toRange(r: TreeSitterRange): Range {
 
 type StringConstants = Map<string, string>;
 
+/** Group call ranges by the function on the other end of the call. */
+function addFromRange(fromRanges: Map<string, Range[]>, key: string, range: TreeSitterRange): void {
+  let ranges = fromRanges.get(key);
+  if (!ranges) {
+    ranges = [];
+    fromRanges.set(key, ranges);
+  }
+  ranges.push(toRange(range));
+}
+
+function unreachableMessage(unreachable: UnreachableCode): string {
+  switch (unreachable.causeKind) {
+    case 'exit':
+      return `Unreachable code: ${unreachable.cause} stops the script`;
+    case 'call':
+      return `Unreachable code: '${unreachable.cause}' never returns`;
+    case 'compound':
+      return 'Unreachable code: every branch above exits or returns';
+    default:
+      return `Unreachable code after '${unreachable.cause}'`;
+  }
+}
+
+export type ConstantKind = 'str' | 'int' | 'float';
+
 function extractRawConstants(tree: Tree): {
   rawStrings: Map<string, string>;
+  rawStringRanges: Map<string, TreeSitterRange>;
   rawAliases: Map<string, string>;
+  rawKinds: Map<string, ConstantKind>;
+  rawKindAliases: Map<string, string>;
 } {
   const rawStrings: Map<string, string> = new Map();
+  const rawStringRanges: Map<string, TreeSitterRange> = new Map();
   const rawAliases: Map<string, string> = new Map();
-  walkForRawAssignments(tree.rootNode, rawStrings, rawAliases);
-  return { rawStrings, rawAliases };
+  const rawKinds: Map<string, ConstantKind> = new Map();
+  const rawKindAliases: Map<string, string> = new Map();
+  walkForRawAssignments(tree.rootNode, rawStrings, rawStringRanges, rawAliases, rawKinds, rawKindAliases);
+  return { rawStrings, rawStringRanges, rawAliases, rawKinds, rawKindAliases };
 }
 
 function walkForRawAssignments(
   node: SyntaxNode,
   rawStrings: Map<string, string>,
-  rawAliases: Map<string, string>
+  rawStringRanges: Map<string, TreeSitterRange>,
+  rawAliases: Map<string, string>,
+  rawKinds: Map<string, ConstantKind>,
+  rawKindAliases: Map<string, string>
 ): void {
   if (node.type === 'expression_statement') {
     const expr = node.namedChild(0);
+    // Kinds are merged across files by bare name, so only module-level
+    // constants count: a function local must not type a same-named parameter.
+    const moduleLevel = node.parent?.type === 'module';
     if (expr?.type === 'assignment') {
       const left = expr.childForFieldName('left');
       const right = expr.childForFieldName('right');
@@ -795,28 +1628,41 @@ function walkForRawAssignments(
           const hasInterpolation = right.namedChildren.some((c) => c.type === 'interpolation');
           if (!hasInterpolation) {
             const content = right.namedChildren.find((c) => c.type === 'string_content');
-            if (content) rawStrings.set(left.text, content.text);
+            if (content) {
+              rawStrings.set(left.text, content.text);
+              rawStringRanges.set(left.text, {
+                startPosition: content.startPosition,
+                endPosition: content.endPosition,
+                startIndex: content.startIndex,
+                endIndex: content.endIndex,
+              });
+            }
           }
+          if (moduleLevel) rawKinds.set(left.text, 'str');
         } else if (right.type === 'integer' || right.type === 'float') {
           rawStrings.set(left.text, right.text);
+          if (moduleLevel) rawKinds.set(left.text, right.type === 'integer' ? 'int' : 'float');
         } else if (right.type === 'identifier') {
           rawAliases.set(left.text, right.text);
+          if (moduleLevel) rawKindAliases.set(left.text, right.text);
         }
       }
     }
   }
   for (let i = 0; i < node.childCount; i++) {
     const child = node.child(i);
-    if (child) walkForRawAssignments(child, rawStrings, rawAliases);
+    if (child) {
+      walkForRawAssignments(child, rawStrings, rawStringRanges, rawAliases, rawKinds, rawKindAliases);
+    }
   }
 }
 
-function resolveAliasChain(
+function resolveAliasChain<T>(
   target: string,
-  rawStrings: Map<string, string>,
+  rawStrings: Map<string, T>,
   rawAliases: Map<string, string>,
   depth = 0
-): string | undefined {
+): T | undefined {
   if (depth > 10) return undefined; // prevent infinite loops
   const direct = rawStrings.get(target);
   if (direct !== undefined) return direct;
@@ -825,21 +1671,37 @@ function resolveAliasChain(
   return undefined;
 }
 
-/** Resolve the first argument of a call to a string value + range.
- *  Handles both string literals and identifier references to constants. */
+/** A string argument with the way it was written: literal, constant reference or f-string. */
+interface ResolvedStringArg {
+  value: string;
+  range: TreeSitterRange;
+  source: 'literal' | 'constant' | 'fstring';
+  /** Constant named by the argument, for `source: 'constant'`. */
+  constant?: string;
+}
+
+/** Resolve the first argument of a call to a string value + range. */
 function resolveFirstStringArg(
   argsNode: SyntaxNode,
   constants: StringConstants
-): { value: string; range: TreeSitterRange } | null {
-  const firstArg = argsNode.namedChild(0);
-  if (!firstArg) return null;
+): ResolvedStringArg | null {
+  return resolveStringArg(argsNode.namedChild(0), constants);
+}
+
+/** Resolve a call argument to a string value + range.
+ *  Handles both string literals and identifier references to constants. */
+function resolveStringArg(
+  arg: SyntaxNode | null,
+  constants: StringConstants
+): ResolvedStringArg | null {
+  if (!arg) return null;
 
-  if (firstArg.type === 'string') {
-    const hasInterpolation = firstArg.namedChildren.some((c) => c.type === 'interpolation');
+  if (arg.type === 'string') {
+    const hasInterpolation = arg.namedChildren.some((c) => c.type === 'interpolation');
 
     if (!hasInterpolation) {
       // Plain string — extract string_content directly
-      const content = firstArg.namedChildren.find((c) => c.type === 'string_content');
+      const content = arg.namedChildren.find((c) => c.type === 'string_content');
       if (!content) return null;
       return {
         value: content.text,
@@ -849,12 +1711,13 @@ function resolveFirstStringArg(
           startIndex: content.startIndex,
           endIndex: content.endIndex,
         },
+        source: 'literal',
       };
     }
 
     // F-string — try to resolve all interpolations from constants
     let resolved = '';
-    for (const child of firstArg.namedChildren) {
+    for (const child of arg.namedChildren) {
       if (child.type === 'string_content') {
         resolved += child.text;
       } else if (child.type === 'interpolation') {
@@ -866,11 +1729,11 @@ function resolveFirstStringArg(
     }
 
     // All interpolations resolved — use the first content/interpolation for range
-    const rangeNode = firstArg.namedChildren.find(
+    const rangeNode = arg.namedChildren.find(
       (c) => c.type === 'string_content' || c.type === 'interpolation'
     );
     if (!rangeNode) return null;
-    const lastNode = [...firstArg.namedChildren].reverse().find(
+    const lastNode = [...arg.namedChildren].reverse().find(
       (c) => c.type === 'string_content' || c.type === 'interpolation'
     )!;
     return {
@@ -881,20 +1744,23 @@ function resolveFirstStringArg(
         startIndex: rangeNode.startIndex,
         endIndex: lastNode.endIndex,
       },
+      source: 'fstring',
     };
   }
 
   // Identifier or attribute access (e.g., STAT_NAME or Definitions.STAT_NAME)
-  const resolvedVal = resolveExprToConstant(firstArg, constants);
+  const resolvedVal = resolveExprToConstant(arg, constants);
   if (resolvedVal !== undefined) {
     return {
       value: resolvedVal,
       range: {
-        startPosition: firstArg.startPosition,
-        endPosition: firstArg.endPosition,
-        startIndex: firstArg.startIndex,
-        endIndex: firstArg.endIndex,
+        startPosition: arg.startPosition,
+        endPosition: arg.endPosition,
+        startIndex: arg.startIndex,
+        endIndex: arg.endIndex,
       },
+      source: 'constant',
+      constant: arg.type === 'attribute' ? arg.childForFieldName('attribute')!.text : arg.text,
     };
   }
 
@@ -937,19 +1803,17 @@ function positionToOffset(text: string, position: Position): number {
   return offset + position.character;
 }
 
-function isKsrTmCallbackMethod(funcNode: SyntaxNode): boolean {
-  if (funcNode.type !== 'attribute') return false;
+/** The callback registry entry for a `KSR.<module>.<fn>` callee, if it takes a route name. */
+function findKsrCallback(funcNode: SyntaxNode): KemiCallbackDef | undefined {
+  if (funcNode.type !== 'attribute') return undefined;
   const methodId = funcNode.childForFieldName('attribute');
-  if (!methodId || !CALLBACK_METHODS.has(methodId.text)) return false;
-
   const obj = funcNode.childForFieldName('object');
-  if (!obj || obj.type !== 'attribute') return false;
-  const tmId = obj.childForFieldName('attribute');
+  if (!methodId || !obj || obj.type !== 'attribute') return undefined;
+  const moduleId = obj.childForFieldName('attribute');
   const ksrId = obj.childForFieldName('object');
-  return (
-    !!ksrId && ksrId.type === 'identifier' && ksrId.text === 'KSR' &&
-    !!tmId && tmId.type === 'identifier' && tmId.text === 'tm'
-  );
+  if (!ksrId || ksrId.type !== 'identifier' || ksrId.text !== 'KSR') return undefined;
+  if (!moduleId || moduleId.type !== 'identifier') return undefined;
+  return findKemiCallback(moduleId.text, methodId.text);
 }
 
 function extractCallbackRegistrations(tree: Tree, constants: StringConstants): CallbackReference[] {
@@ -974,19 +1838,22 @@ function walkForCallbacks(node: SyntaxNode, refs: CallbackReference[], constants
 
 function tryExtractCallback(callNode: SyntaxNode, constants: StringConstants): CallbackReference | null {
   const funcNode = callNode.childForFieldName('function');
-  if (!funcNode || !isKsrTmCallbackMethod(funcNode)) return null;
+  const callback = funcNode ? findKsrCallback(funcNode) : undefined;
+  if (!callback) return null;
 
-  const methodId = funcNode.childForFieldName('attribute')!;
   const argsNode = callNode.childForFieldName('arguments');
   if (!argsNode) return null;
 
-  const resolved = resolveFirstStringArg(argsNode, constants);
+  const resolved = resolveStringArg(argsNode.namedChild(callback.argIndex), constants);
   if (!resolved) return null;
 
   return {
     name: resolved.value,
-    method: methodId.text,
+    method: `${callback.module}.${callback.function}`,
+    routeType: callback.routeType,
     nameRange: resolved.range,
+    source: resolved.source,
+    constant: resolved.constant,
   };
 }
 
@@ -1040,6 +1907,8 @@ function tryExtractHtableCall(callNode: SyntaxNode, constants: StringConstants):
     tableName: resolved.value,
     method: methodId.text,
     nameRange: resolved.range,
+    source: resolved.source,
+    constant: resolved.constant,
   };
 }
 
@@ -1093,6 +1962,8 @@ function tryExtractHdrCall(callNode: SyntaxNode, constants: StringConstants): Hd
     headerName: resolved.value,
     method: methodId.text,
     nameRange: resolved.range,
+    source: resolved.source,
+    constant: resolved.constant,
   };
 }
 
@@ -1144,5 +2015,7 @@ function tryExtractStatCall(callNode: SyntaxNode, constants: StringConstants): S
   return {
     statName: resolved.value,
     nameRange: resolved.range,
+    source: resolved.source,
+    constant: resolved.constant,
   };
 }
@@ -0,0 +1,139 @@
+import { TreeSitterRange } from '../../core/types';
+import { FlowEffect, FlowStatement } from './functionExtractor';
+
+/** A function body as the PV flow analysis sees it. */
+export interface FlowFunction {
+  key: string;
+  uri: string;
+  flow: FlowStatement[];
+}
+
+export interface UnsetPvRead {
+  uri: string;
+  pvKey: string;
+  /** Range of the KSR.pv call reading the PV. */
+  range: TreeSitterRange;
+}
+
+/** PVs set on every path to a point, or null when no path reaches it. */
+type SetPvs = Set<string> | null;
+
+/**
+ * Find reads of tracked PVs that some path from the entry functions reaches
+ * before any statement or callee has set them. A callee sets what it sets on
+ * every path through its body, and ends the path when it never returns.
+ * Callees are analysed once per set of PVs known on entry, so a helper read
+ * is reported when any of its callers can reach it with the PV unset.
+ */
+export function findUnsetPvReads(
+  entries: FlowFunction[],
+  resolve: (callee: string, fromUri: string) => FlowFunction | null,
+  tracks: (pvKey: string) => boolean
+): UnsetPvRead[] {
+  const walker = new PvFlowWalker(resolve, tracks);
+  for (const entry of entries) {
+    walker.analyzeFunction(entry, new Set());
+  }
+  return Array.from(walker.reads.values());
+}
+
+class PvFlowWalker {
+  readonly reads: Map<string, UnsetPvRead> = new Map();
+  private exits: Map<string, SetPvs> = new Map();
+  private inProgress: Set<string> = new Set();
+
+  constructor(
+    private resolve: (callee: string, fromUri: string) => FlowFunction | null,
+    private tracks: (pvKey: string) => boolean
+  ) {}
+
+  /** What the function leaves set when it returns, given what was set on entry. */
+  analyzeFunction(fn: FlowFunction, entry: Set<string>): SetPvs {
+    const memoKey = `${fn.key}|${Array.from(entry).sort().join(',')}`;
+    const cached = this.exits.get(memoKey);
+    if (cached !== undefined) return cached;
+    // Recursive calls are assumed to set nothing
+    if (this.inProgress.has(memoKey)) return entry;
+
+    this.inProgress.add(memoKey);
+    const returns: Set<string>[] = [];
+    const end = this.walkBlock(fn, fn.flow, entry, returns);
+    const exit = intersect([end, ...returns]);
+    this.inProgress.delete(memoKey);
+    this.exits.set(memoKey, exit);
+    return exit;
+  }
+
+  private walkBlock(fn: FlowFunction, block: FlowStatement[], state: SetPvs, returns: Set<string>[]): SetPvs {
+    for (const stmt of block) {
+      if (!state) return null;
+      state = this.walkStatement(fn, stmt, state, returns);
+    }
+    return state;
+  }
+
+  private walkStatement(fn: FlowFunction, stmt: FlowStatement, before: Set<string>, returns: Set<string>[]): SetPvs {
+    const state = this.applyEffects(fn, stmt.effects, before);
+    if (!state) return null;
+
+    switch (stmt.kind) {
+      case 'exit':
+        return null;
+      case 'leave':
+        if (stmt.keyword === 'return') returns.push(state);
+        return null;
+      case 'branch': {
+        const ends = stmt.blocks.map((b) => this.walkBlock(fn, b, state, returns));
+        if (!stmt.exhaustive) ends.push(state);
+        return intersect(ends);
+      }
+      case 'loop':
+        // The body may run zero times, so nothing it sets is known afterwards
+        for (const b of stmt.blocks) this.walkBlock(fn, b, state, returns);
+        return state;
+      case 'try': {
+        const bodyEnd = this.walkBlock(fn, stmt.body, state, returns);
+        const main = bodyEnd && stmt.orelse ? this.walkBlock(fn, stmt.orelse, bodyEnd, returns) : bodyEnd;
+        // A handler may run before anything in the body did
+        const handlerEnds = stmt.handlers.map((h) => this.walkBlock(fn, h, state, returns));
+        const result = intersect([main, ...handlerEnds]);
+        if (!stmt.finalizer) return result;
+        const finalEnd = this.walkBlock(fn, stmt.finalizer, state, returns);
+        if (!result || !finalEnd) return null;
+        return new Set([...result, ...finalEnd]);
+      }
+      case 'block':
+        return this.walkBlock(fn, stmt.body, state, returns);
+      default:
+        return state;
+    }
+  }
+
+  private applyEffects(fn: FlowFunction, effects: FlowEffect[], before: Set<string>): SetPvs {
+    let state = before;
+    for (const effect of effects) {
+      if (effect.kind === 'call') {
+        const callee = this.resolve(effect.callee, fn.uri);
+        if (!callee) continue;
+        const after = this.analyzeFunction(callee, state);
+        if (!after) return null;
+        state = after;
+      } else if (!this.tracks(effect.pvKey)) {
+        continue;
+      } else if (effect.kind === 'write') {
+        state = new Set(state).add(effect.pvKey);
+      } else if (!state.has(effect.pvKey)) {
+        const id = `${fn.uri}:${effect.range.startIndex}:${effect.pvKey}`;
+        this.reads.set(id, { uri: fn.uri, pvKey: effect.pvKey, range: effect.range });
+      }
+    }
+    return state;
+  }
+}
+
+function intersect(states: SetPvs[]): SetPvs {
+  const reached = states.filter((s): s is Set<string> => s !== null);
+  if (reached.length === 0) return null;
+  const [first, ...rest] = reached;
+  return new Set(Array.from(first).filter((key) => rest.every((s) => s.has(key))));
+}
@@ -0,0 +1,613 @@
+import {
+  CodeAction,
+  CodeActionKind,
+  CompletionItem,
+  CompletionItemKind,
+  Diagnostic,
+  DiagnosticSeverity,
+  Hover,
+  Location,
+  MarkupKind,
+  Position,
+  ParameterInformation,
+  Range,
+  SignatureHelp,
+  TextEdit,
+  DiagnosticTag,
+  WorkspaceEdit,
+} from 'vscode-languageserver';
+import {
+  Analyzer,
+  AnalysisContext,
+  DocumentContext,
+  SemanticTokenData,
+  TreeSitterRange,
+} from '../../core/types';
+import { KemiFunctionDef, KemiModuleDef, KemiReturnType } from '../../data/kemiModules';
+import { KemiCatalog } from './kemiCatalog';
+import { extractKsrReferences, KsrCall, KsrReference, LiteralKind } from './kemiExtractor';
+import type { CallGraphAnalyzer, ConstantKind } from '../callGraphAnalyzer/index';
+import type { LoadModuleDeclaration } from '../../core/workspaceIndexer';
+import { describeVersionStatus, formatVersionInfo, versionStatus } from '../../core/kamailioVersion';
+import { closestMatch } from '../../core/closestMatch';
+
+// `KSR.` or `KSR.<partial>` right before the cursor
+const KSR_MEMBER_RE = /(?<![\w.])KSR\.(\w*)$/;
+// `KSR.<module>.` or `KSR.<module>.<partial>` right before the cursor
+const KSR_MODULE_MEMBER_RE = /(?<![\w.])KSR\.(\w+)\.(\w*)$/;
+// `KSR.<fn>` or `KSR.<module>.<fn>` right before an opening paren
+const KSR_CALLEE_RE = /(?<![\w.])KSR\.(\w+)(?:\.(\w+))?\s*$/;
+
+export class KemiAnalyzer implements Analyzer {
+  readonly id = 'kemi';
+  readonly name = 'KEMI Function Analyzer';
+
+  private refsByFile: Map<string, KsrReference[]> = new Map();
+  private callGraphAnalyzer: CallGraphAnalyzer | null = null;
+  private catalog = KemiCatalog.bundled();
+  private kamailioVersion: string | null = null;
+  private uncheckedReturnAllowlist = new Set<string>();
+
+  constructor(
+    private getLoadedModules: () => Map<string, LoadModuleDeclaration> = () => new Map()
+  ) {}
+
+  setCallGraphAnalyzer(cga: CallGraphAnalyzer): void {
+    this.callGraphAnalyzer = cga;
+  }
+
+  /** Replace the bundled catalog, e.g. with one imported from a Kamailio API dump. */
+  setCatalog(catalog: KemiCatalog): void {
+    this.catalog = catalog;
+  }
+
+  /** Target Kamailio version (`5.6`); null disables version checks. */
+  setKamailioVersion(version: string | null): void {
+    this.kamailioVersion = version;
+  }
+
+  /** Functions (`tm.t_relay` or `KSR.tm.t_relay`) whose discarded return value is not reported. */
+  setUncheckedReturnAllowlist(names: string[]): void {
+    this.uncheckedReturnAllowlist = new Set(names.map((n) => n.replace(/^KSR\./, '')));
+  }
+
+  analyze(context: AnalysisContext): void {
+    this.refsByFile.set(context.uri, extractKsrReferences(context.tree));
+  }
+
+  getSemanticTokens(_doc: DocumentContext): SemanticTokenData[] {
+    return [];
+  }
+
+  getCompletions(doc: DocumentContext, position: Position): CompletionItem[] {
+    // Computed from the text before the cursor, since tree-sitter turns
+    // an incomplete `KSR.tm.` into an ERROR node.
+    const prefix = getLinePrefix(doc.fullText, position);
+
+    const moduleMatch = KSR_MODULE_MEMBER_RE.exec(prefix);
+    if (moduleMatch) {
+      const mod = this.catalog.findModule(moduleMatch[1]);
+      if (!mod || mod.name === '') return [];
+      const replaceRange = partialRange(position, moduleMatch[2]);
+      return mod.functions
+        .filter((fn) => this.isOffered(fn))
+        .map((fn) => functionCompletion(mod, fn, replaceRange));
+    }
+
+    const memberMatch = KSR_MEMBER_RE.exec(prefix);
+    if (memberMatch) {
+      const replaceRange = partialRange(position, memberMatch[1]);
+      const items: CompletionItem[] = [];
+      for (const mod of this.catalog.modules) {
+        if (mod.name === '') {
+          for (const fn of mod.functions) {
+            if (this.isOffered(fn)) items.push(functionCompletion(mod, fn, replaceRange));
+          }
+          continue;
+        }
+        if (!mod.functions.some((fn) => this.isOffered(fn))) continue;
+        items.push({
+          label: mod.name,
+          kind: CompletionItemKind.Module,
+          detail: mod.kamailioModule ? `${mod.description} (${mod.kamailioModule} module)` : mod.description,
+          textEdit: TextEdit.replace(replaceRange, mod.name),
+        });
+      }
+      return items;
+    }
+
+    return [];
+  }
+
+  getDiagnostics(doc: DocumentContext): Diagnostic[] {
+    const refs = this.refsByFile.get(doc.uri);
+    if (!refs) return [];
+
+    const constantKinds = this.callGraphAnalyzer?.getConstantKinds() ?? new Map<string, ConstantKind>();
+    const loadedModules = this.getLoadedModules();
+    const diags: Diagnostic[] = [];
+    // One warning per missing module, on its first use, listing the other uses
+    const notLoaded: Map<string, Diagnostic> = new Map();
+    for (const ref of refs) {
+      if (ref.moduleRange) {
+        const mod = this.catalog.findModule(ref.moduleName);
+        if (!mod || mod.name === '') {
+          const candidates = this.catalog.modules.filter((m) => m.name !== '').map((m) => m.name);
+          diags.push(unknownNameDiagnostic(
+            ref.moduleRange, 'unknown-kemi-module',
+            `Unknown KEMI module 'KSR.${ref.moduleName}'`,
+            closestMatch(ref.moduleName, candidates)
+          ));
+          continue;
+        }
+        const fn = this.catalog.findFunction(mod.name, ref.functionName);
+        if (!fn) {
+          const candidates = mod.functions.map((f) => f.name);
+          diags.push(unknownNameDiagnostic(
+            ref.functionRange, 'unknown-kemi-function',
+            `Unknown function '${ref.functionName}' in KEMI module '${mod.name}'`,
+            closestMatch(ref.functionName, candidates)
+          ));
+        } else {
+          const versionDiag = this.checkVersion(mod, fn, ref.functionRange);
+          if (versionDiag) diags.push(versionDiag);
+          if (ref.call) {
+            diags.push(...checkCallArguments(mod, fn, ref.call, constantKinds));
+            const returnDiag = this.checkDiscardedReturn(mod, fn, ref);
+            if (returnDiag) diags.push(returnDiag);
+          }
+        }
+        // Only meaningful once a cfg with loadmodule lines has been indexed
+        if (loadedModules.size > 0 && mod.kamailioModule && !loadedModules.has(mod.kamailioModule)) {
+          const first = notLoaded.get(mod.kamailioModule);
+          if (first) {
+            (first.relatedInformation ??= []).push({
+              location: { uri: doc.uri, range: toRange(ref.moduleRange) },
+              message: `KSR.${mod.name} also used here`,
+            });
+          } else {
+            const diag: Diagnostic = {
+              severity: DiagnosticSeverity.Warning,
+              range: toRange(ref.moduleRange),
+              message: `KSR.${mod.name} requires module '${mod.kamailioModule}', which is not loaded in the Kamailio config`,
+              source: 'kamailio-kemi',
+              code: 'kemi-module-not-loaded',
+              data: { module: mod.kamailioModule },
+            };
+            notLoaded.set(mod.kamailioModule, diag);
+            diags.push(diag);
+          }
+        }
+        continue;
+      }
+
+      // KSR.<name> — a core function or a module used without a member
+      const coreFn = this.catalog.findFunction('', ref.functionName);
+      if (coreFn) {
+        const core = this.catalog.findModule('')!;
+        const versionDiag = this.checkVersion(core, coreFn, ref.functionRange);
+        if (versionDiag) diags.push(versionDiag);
+        if (ref.call) {
+          diags.push(...checkCallArguments(core, coreFn, ref.call, constantKinds));
+          const returnDiag = this.checkDiscardedReturn(core, coreFn, ref);
+          if (returnDiag) diags.push(returnDiag);
+        }
+        continue;
+      }
+      if (this.catalog.findModule(ref.functionName)) continue;
+      const candidates = this.catalog.modules.flatMap((m) =>
+        m.name === '' ? m.functions.map((f) => f.name) : [m.name]
+      );
+      diags.push(unknownNameDiagnostic(
+        ref.functionRange, 'unknown-kemi-function',
+        `Unknown KEMI function or module 'KSR.${ref.functionName}'`,
+        closestMatch(ref.functionName, candidates)
+      ));
+    }
+    return diags;
+  }
+
+  getDefinitions(_doc: DocumentContext, _position: Position): Location[] {
+    return [];
+  }
+
+  getReferences(_doc: DocumentContext, _position: Position): Location[] {
+    return [];
+  }
+
+  getHover(doc: DocumentContext, position: Position): Hover | null {
+    const refs = this.refsByFile.get(doc.uri);
+    if (!refs) return null;
+    const offset = offsetAt(doc.fullText, position);
+
+    for (const ref of refs) {
+      if (ref.moduleRange && containsOffset(ref.moduleRange, offset)) {
+        const mod = this.catalog.findModule(ref.moduleName);
+        if (!mod || mod.name === '') return null;
+        return {
+          contents: { kind: MarkupKind.Markdown, value: formatModuleHover(mod) },
+          range: toRange(ref.moduleRange),
+        };
+      }
+      if (containsOffset(ref.functionRange, offset)) {
+        const mod = this.catalog.findModule(ref.moduleName);
+        const fn = this.catalog.findFunction(ref.moduleName, ref.functionName);
+        if (mod && fn) {
+          return {
+            contents: { kind: MarkupKind.Markdown, value: formatFunctionHover(mod, fn) },
+            range: toRange(ref.functionRange),
+          };
+        }
+        // KSR.<module> without a member
+        const bareModule = ref.moduleName === '' ? this.catalog.findModule(ref.functionName) : undefined;
+        if (bareModule) {
+          return {
+            contents: { kind: MarkupKind.Markdown, value: formatModuleHover(bareModule) },
+            range: toRange(ref.functionRange),
+          };
+        }
+        return null;
+      }
+    }
+    return null;
+  }
+
+  getSignatureHelp(doc: DocumentContext, position: Position): SignatureHelp | null {
+    // Text based for the same reason as completions: an unclosed call
+    // is not a `call` node yet.
+    const call = findEnclosingCall(doc.fullText, offsetAt(doc.fullText, position));
+    if (!call) return null;
+
+    const callee = KSR_CALLEE_RE.exec(doc.fullText.substring(0, call.openIndex));
+    if (!callee) return null;
+    const moduleName = callee[2] ? callee[1] : '';
+    const fnName = callee[2] ?? callee[1];
+    const mod = this.catalog.findModule(moduleName);
+    const fn = this.catalog.findFunction(moduleName, fnName);
+    if (!mod || !fn) return null;
+
+    const label = formatKemiSignature(mod, fn);
+    const parameters: ParameterInformation[] = [];
+    let searchFrom = label.indexOf('(') + 1;
+    for (const p of fn.params) {
+      const paramLabel = `${p.name}: ${p.type}`;
+      const start = label.indexOf(paramLabel, searchFrom);
+      searchFrom = start + paramLabel.length;
+      parameters.push({
+        label: [start, searchFrom],
+        documentation: p.description,
+      });
+    }
+    if (fn.variadic) {
+      const start = label.indexOf('*args: str', searchFrom);
+      parameters.push({ label: [start, start + '*args: str'.length] });
+    }
+
+    return {
+      signatures: [{
+        label,
+        documentation: { kind: MarkupKind.Markdown, value: fn.description },
+        parameters,
+      }],
+      activeSignature: 0,
+      activeParameter: Math.min(call.argIndex, Math.max(parameters.length - 1, 0)),
+    };
+  }
+
+  getCodeActions(doc: DocumentContext, _range: Range, diagnostics: Diagnostic[]): CodeAction[] {
+    const actions: CodeAction[] = [];
+    for (const diag of diagnostics) {
+      if (diag.source !== 'kamailio-kemi') continue;
+      if (diag.code === 'kemi-module-not-loaded') {
+        const action = this.createLoadModuleAction(diag);
+        if (action) actions.push(action);
+        continue;
+      }
+      const suggestion = (diag.data as { suggestion?: string } | undefined)?.suggestion;
+      if (!suggestion) continue;
+      actions.push({
+        title: `Change to '${suggestion}'`,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diag],
+        isPreferred: true,
+        edit: { changes: { [doc.uri]: [TextEdit.replace(diag.range, suggestion)] } },
+      });
+    }
+    return actions;
+  }
+
+  prepareRename(_doc: DocumentContext, _position: Position): Range | null {
+    return null;
+  }
+
+  getRenameEdits(_doc: DocumentContext, _position: Position, _newName: string): WorkspaceEdit | null {
+    return null;
+  }
+
+  onDocumentRemoved(uri: string): void {
+    this.refsByFile.delete(uri);
+  }
+
+  // --- Private helpers ---
+
+  /** Completions hide functions that are unavailable or deprecated in the target version. */
+  private isOffered(fn: KemiFunctionDef): boolean {
+    return versionStatus(fn, this.kamailioVersion).kind === 'available';
+  }
+
+  private checkDiscardedReturn(mod: KemiModuleDef, fn: KemiFunctionDef, ref: KsrReference): Diagnostic | null {
+    if (!fn.checkReturn || !ref.call?.resultDiscarded) return null;
+    const name = mod.name ? `${mod.name}.${fn.name}` : fn.name;
+    if (this.uncheckedReturnAllowlist.has(name)) return null;
+    return {
+      severity: DiagnosticSeverity.Warning,
+      range: toRange(ref.functionRange),
+      message: `Return value of KSR.${name}() is not checked; failures are only reported through its negative return code`,
+      source: 'kamailio-kemi',
+      code: 'unchecked-kemi-return',
+    };
+  }
+
+  private checkVersion(mod: KemiModuleDef, fn: KemiFunctionDef, range: TreeSitterRange): Diagnostic | null {
+    const status = versionStatus(fn, this.kamailioVersion);
+    if (status.kind === 'available' || !this.kamailioVersion) return null;
+    const qualified = mod.name ? `KSR.${mod.name}.${fn.name}` : `KSR.${fn.name}`;
+    const deprecated = status.kind === 'deprecated';
+    return {
+      severity: deprecated ? DiagnosticSeverity.Hint : DiagnosticSeverity.Warning,
+      range: toRange(range),
+      message: `${qualified} ${describeVersionStatus(status, this.kamailioVersion)}`,
+      source: 'kamailio-kemi',
+      code: deprecated ? 'deprecated-kemi-function' : 'kemi-function-not-in-version',
+      tags: deprecated ? [DiagnosticTag.Deprecated] : undefined,
+    };
+  }
+
+  /** Insert a loadmodule line after the last one in the cfg, using the same path style. */
+  private createLoadModuleAction(diag: Diagnostic): CodeAction | null {
+    const moduleName = (diag.data as { module?: string } | undefined)?.module;
+    if (!moduleName) return null;
+
+    let last: LoadModuleDeclaration | null = null;
+    for (const decl of this.getLoadedModules().values()) {
+      if (!last || (decl.uri === last.uri && decl.line > last.line)) last = decl;
+    }
+    if (!last) return null;
+
+    const dir = last.path.substring(0, last.path.lastIndexOf('/') + 1);
+    const suffix = last.path.endsWith('.so') ? '.so' : '';
+    const modulePath = `${dir}${moduleName}${suffix}`;
+    return {
+      title: `Add loadmodule "${modulePath}" to ${last.uri.split('/').pop()}`,
+      kind: CodeActionKind.QuickFix,
+      diagnostics: [diag],
+      isPreferred: true,
+      edit: {
+        changes: {
+          [last.uri]: [TextEdit.insert({ line: last.line + 1, character: 0 }, `loadmodule "${modulePath}"\n`)],
+        },
+      },
+    };
+  }
+}
+
+// --- Module-level helpers ---
+
+const RETURN_TYPE_LABELS: Record<KemiReturnType, string> = {
+  code: 'int',
+  int: 'int',
+  bool: 'bool',
+  str: 'str',
+  xval: 'int | str | None',
+  none: 'None',
+};
+
+const RETURN_SEMANTICS: Record<KemiReturnType, string> = {
+  code: 'Return code: positive (usually `1`) on success, negative on failure, `0` stops the script like `exit`',
+  int: 'Returns an integer value',
+  bool: 'Returns `True` or `False`',
+  str: 'Returns a string',
+  xval: 'Returns the value as `int` or `str`',
+  none: 'No return value',
+};
+
+function formatFunctionHover(mod: KemiModuleDef, fn: KemiFunctionDef): string {
+  const lines = [
+    '```python',
+    formatKemiSignature(mod, fn),
+    '```',
+    '',
+    fn.description,
+  ];
+  const documented = fn.params.filter((p) => p.description);
+  if (documented.length > 0) {
+    lines.push('', ...documented.map((p) => `- \`${p.name}\`: ${p.description}`));
+  }
+  lines.push('', RETURN_SEMANTICS[fn.returns], '', moduleOwnerLine(mod));
+  const versionInfo = formatVersionInfo(fn);
+  if (versionInfo) lines.push('', versionInfo);
+  return lines.join('\n');
+}
+
+function formatModuleHover(mod: KemiModuleDef): string {
+  const count = mod.functions.length;
+  return [
+    `**KSR.${mod.name}**`,
+    '',
+    mod.description,
+    '',
+    moduleOwnerLine(mod),
+    '',
+    `${count} function${count !== 1 ? 's' : ''}`,
+  ].join('\n');
+}
+
+function moduleOwnerLine(mod: KemiModuleDef): string {
+  return mod.kamailioModule ? `Module: \`${mod.kamailioModule}\`` : 'Provided by Kamailio core';
+}
+
+function containsOffset(r: TreeSitterRange, offset: number): boolean {
+  return offset >= r.startIndex && offset < r.endIndex;
+}
+
+/** Format a KEMI function as `KSR.<module>.<name>(param: type, ...) -> type`. */
+export function formatKemiSignature(mod: KemiModuleDef, fn: KemiFunctionDef): string {
+  const params = fn.params.map((p) => `${p.name}: ${p.type}`);
+  if (fn.variadic) params.push('*args: str');
+  const qualified = mod.name ? `KSR.${mod.name}.${fn.name}` : `KSR.${fn.name}`;
+  return `${qualified}(${params.join(', ')}) -> ${RETURN_TYPE_LABELS[fn.returns]}`;
+}
+
+function toRange(r: TreeSitterRange): Range {
+  return {
+    start: { line: r.startPosition.row, character: r.startPosition.column },
+    end: { line: r.endPosition.row, character: r.endPosition.column },
+  };
+}
+
+function unknownNameDiagnostic(
+  range: TreeSitterRange,
+  code: string,
+  message: string,
+  suggestion: string | null
+): Diagnostic {
+  return {
+    severity: DiagnosticSeverity.Error,
+    range: toRange(range),
+    message: suggestion ? `${message}. Did you mean '${suggestion}'?` : message,
+    source: 'kamailio-kemi',
+    code,
+    data: suggestion ? { suggestion } : undefined,
+  };
+}
+
+/** Check argument count and the kinds of literal or constant-resolved arguments. */
+function checkCallArguments(
+  mod: KemiModuleDef,
+  fn: KemiFunctionDef,
+  call: KsrCall,
+  constantKinds: Map<string, ConstantKind>
+): Diagnostic[] {
+  const diags: Diagnostic[] = [];
+  const qualified = mod.name ? `KSR.${mod.name}.${fn.name}` : `KSR.${fn.name}`;
+  const expected = fn.params.length;
+  const got = call.args.length;
+
+  if (!call.hasUnpacking && (got < expected || (got > expected && !fn.variadic))) {
+    const expectation = fn.variadic ? `at least ${expected}` : `${expected}`;
+    const missing = fn.params.slice(got).map((p) => p.name);
+    diags.push({
+      severity: DiagnosticSeverity.Error,
+      range: toRange(call.argsRange),
+      message: `${qualified} expects ${expectation} argument${expected === 1 ? '' : 's'}, got ${got}` +
+        (missing.length > 0 ? ` (missing: ${missing.join(', ')})` : ''),
+      source: 'kamailio-kemi',
+      code: 'kemi-argument-count',
+    });
+  }
+
+  call.args.forEach((arg, idx) => {
+    const param = fn.params[idx];
+    const expectedType = param ? param.type : fn.variadic ? 'str' : null;
+    if (!expectedType) return;
+
+    let actual: LiteralKind | null = arg.literalKind;
+    let via = '';
+    if (!actual && arg.constantName) {
+      actual = constantKinds.get(arg.constantName) ?? null;
+      if (actual) via = ` (constant ${arg.constantName})`;
+    }
+    if (!actual || isCompatibleKind(actual, expectedType)) return;
+
+    diags.push({
+      severity: DiagnosticSeverity.Error,
+      range: toRange(arg.range),
+      message: `Argument '${param ? param.name : `#${idx + 1}`}' of ${qualified} expects ${expectedType}, got ${actual}${via}`,
+      source: 'kamailio-kemi',
+      code: 'kemi-argument-type',
+    });
+  });
+
+  return diags;
+}
+
+function isCompatibleKind(actual: LiteralKind, expected: 'int' | 'str'): boolean {
+  if (expected === 'int') return actual === 'int' || actual === 'bool';
+  return actual === 'str';
+}
+
+/** Completion item for a function of a KSR module, with its signature as detail. */
+function functionCompletion(mod: KemiModuleDef, fn: KemiFunctionDef, replaceRange: Range): CompletionItem {
+  return {
+    label: fn.name,
+    kind: CompletionItemKind.Function,
+    detail: formatKemiSignature(mod, fn),
+    documentation: { kind: MarkupKind.Markdown, value: fn.description },
+    textEdit: TextEdit.replace(replaceRange, fn.name),
+  };
+}
+
+function partialRange(position: Position, partial: string): Range {
+  return {
+    start: { line: position.line, character: position.character - partial.length },
+    end: position,
+  };
+}
+
+function offsetAt(text: string, position: Position): number {
+  let lineStart = 0;
+  for (let line = 0; line < position.line; line++) {
+    const nl = text.indexOf('\n', lineStart);
+    if (nl === -1) return text.length;
+    lineStart = nl + 1;
+  }
+  return Math.min(lineStart + position.character, text.length);
+}
+
+function getLinePrefix(text: string, position: Position): string {
+  const offset = offsetAt(text, position);
+  return text.substring(text.lastIndexOf('\n', offset - 1) + 1, offset);
+}
+
+/**
+ * Find the innermost unclosed `(` before `offset` and the index of the
+ * argument the cursor is in. Skips strings and comments; returns null when
+ * the innermost open bracket is not a paren or the cursor is in a comment.
+ */
+function findEnclosingCall(text: string, offset: number): { openIndex: number; argIndex: number } | null {
+  const stack: { char: string; index: number; commas: number }[] = [];
+  let i = 0;
+  while (i < offset) {
+    const ch = text[i];
+    if (ch === '#') {
+      const nl = text.indexOf('\n', i);
+      if (nl === -1 || nl >= offset) return null;
+      i = nl + 1;
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      const quote = text.startsWith(ch.repeat(3), i) ? ch.repeat(3) : ch;
+      let j = i + quote.length;
+      while (j < offset && !text.startsWith(quote, j)) {
+        if (text[j] === '\\') j++;
+        else if (text[j] === '\n' && quote.length === 1) break;
+        j++;
+      }
+      if (j >= offset) break; // cursor inside the string argument
+      i = j + (text[j] === '\n' ? 1 : quote.length);
+      continue;
+    }
+    if (ch === '(' || ch === '[' || ch === '{') {
+      stack.push({ char: ch, index: i, commas: 0 });
+    } else if (ch === ')' || ch === ']' || ch === '}') {
+      stack.pop();
+    } else if (ch === ',' && stack.length > 0) {
+      stack[stack.length - 1].commas++;
+    }
+    i++;
+  }
+
+  const top = stack[stack.length - 1];
+  if (!top || top.char !== '(') return null;
+  return { openIndex: top.index, argIndex: top.commas };
+}
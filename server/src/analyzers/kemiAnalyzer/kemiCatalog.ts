@@ -0,0 +1,147 @@
+import {
+  KEMI_MODULES,
+  KemiFunctionDef,
+  KemiModuleDef,
+  KemiParam,
+  KemiParamType,
+  KemiReturnType,
+} from '../../data/kemiModules';
+
+// Modules exported by the Kamailio core or the KEMI interpreter itself
+const CORE_KEMI_MODULES = new Set(['', 'pv', 'hdr', 'x']);
+
+/** Lookup over a set of KEMI modules — the bundled data or an imported API dump. */
+export class KemiCatalog {
+  private moduleMap = new Map<string, KemiModuleDef>();
+
+  constructor(readonly modules: KemiModuleDef[]) {
+    for (const m of modules) {
+      this.moduleMap.set(m.name, m);
+    }
+  }
+
+  static bundled(): KemiCatalog {
+    return new KemiCatalog(KEMI_MODULES);
+  }
+
+  findModule(name: string): KemiModuleDef | undefined {
+    return this.moduleMap.get(name);
+  }
+
+  findFunction(moduleName: string, name: string): KemiFunctionDef | undefined {
+    return this.moduleMap.get(moduleName)?.functions.find((f) => f.name === name);
+  }
+}
+
+interface ApiDumpFunction {
+  module: string;
+  name: string;
+  ret: string;
+  params: string;
+}
+
+/**
+ * Build a catalog from the output of Kamailio's `app_python3.api_list` RPC
+ * (also accepts the bare `result` object or its `methods` array). Only the
+ * functions in the dump are known; descriptions and parameter names are
+ * taken from the bundled catalog where the function exists there.
+ */
+export function parseKemiApiDump(raw: unknown, fallback: KemiCatalog = KemiCatalog.bundled()): KemiCatalog {
+  const methods = findMethodsArray(raw);
+  if (!methods) {
+    throw new Error('Expected an api_list dump with a "methods" array');
+  }
+
+  const modules = new Map<string, KemiModuleDef>();
+  for (const entry of methods) {
+    const fn = toApiDumpFunction(entry);
+    if (!fn) continue;
+
+    let mod = modules.get(fn.module);
+    if (!mod) {
+      const known = fallback.findModule(fn.module);
+      mod = {
+        name: fn.module,
+        kamailioModule: known ? known.kamailioModule : CORE_KEMI_MODULES.has(fn.module) ? null : fn.module,
+        description: known ? known.description : `Functions exported by the ${fn.module} module`,
+        functions: [],
+      };
+      modules.set(fn.module, mod);
+    }
+
+    const paramTypes = parseParamTypes(fn.params);
+    const known = fallback.findFunction(fn.module, fn.name);
+    const sameArity = known && known.params.length === paramTypes.length;
+    const params: KemiParam[] = paramTypes.map((type, idx) => ({
+      name: sameArity ? known.params[idx].name : `p${idx + 1}`,
+      type,
+      description: sameArity ? known.params[idx].description : undefined,
+    }));
+
+    const returns = toReturnType(fn.ret);
+    mod.functions.push({
+      name: fn.name,
+      params,
+      returns: returns === 'code' && known?.returns === 'int' ? 'int' : returns,
+      description: known ? known.description : `${fn.module ? `KSR.${fn.module}.` : 'KSR.'}${fn.name}`,
+      checkReturn: known?.checkReturn,
+      since: known?.since,
+      deprecatedIn: known?.deprecatedIn,
+      removedIn: known?.removedIn,
+    });
+  }
+
+  // KSR.x (exit, drop, modf) is implemented by the interpreter and may be
+  // missing from the dump
+  const interpreter = fallback.findModule('x');
+  if (interpreter && !modules.has('x')) modules.set('x', interpreter);
+
+  return new KemiCatalog(Array.from(modules.values()));
+}
+
+function findMethodsArray(raw: unknown): unknown[] | null {
+  if (Array.isArray(raw)) return raw;
+  if (!raw || typeof raw !== 'object') return null;
+  const obj = raw as Record<string, unknown>;
+  if (Array.isArray(obj.methods)) return obj.methods;
+  if (obj.result !== undefined) return findMethodsArray(obj.result);
+  return null;
+}
+
+function toApiDumpFunction(entry: unknown): ApiDumpFunction | null {
+  if (!entry || typeof entry !== 'object') return null;
+  const obj = entry as Record<string, unknown>;
+  const fn = (obj.func && typeof obj.func === 'object' ? obj.func : obj) as Record<string, unknown>;
+  if (typeof fn.name !== 'string' || !fn.name) return null;
+  return {
+    module: typeof fn.module === 'string' ? fn.module : '',
+    name: fn.name,
+    ret: typeof fn.ret === 'string' ? fn.ret : 'none',
+    params: typeof fn.params === 'string' ? fn.params : 'none',
+  };
+}
+
+function parseParamTypes(params: string): KemiParamType[] {
+  return params
+    .split(',')
+    .map((p) => p.trim())
+    .filter((p) => p && p !== 'none')
+    .map((p) => (p === 'int' || p === 'long' ? 'int' : 'str'));
+}
+
+/** `int` in the dump is the return-code convention for nearly every function. */
+function toReturnType(ret: string): KemiReturnType {
+  switch (ret.trim()) {
+    case 'int':
+    case 'long':
+      return 'code';
+    case 'bool':
+      return 'bool';
+    case 'str':
+      return 'str';
+    case 'none':
+      return 'none';
+    default:
+      return 'xval';
+  }
+}
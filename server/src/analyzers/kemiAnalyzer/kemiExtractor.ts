@@ -0,0 +1,172 @@
+import { SyntaxNode, Tree } from 'web-tree-sitter';
+import { TreeSitterRange } from '../../core/types';
+
+/**
+ * A `KSR.<module>.<function>` or `KSR.<function>` attribute chain.
+ * `KSR.foo` alone is recorded with an empty moduleName — foo is then
+ * either a core function or a module referenced without a member.
+ */
+export interface KsrReference {
+  moduleName: string;
+  functionName: string;
+  moduleRange: TreeSitterRange | null;
+  functionRange: TreeSitterRange;
+  /** Present when the chain is called directly: `KSR.tm.t_relay()`. */
+  call: KsrCall | null;
+}
+
+export type LiteralKind = 'str' | 'int' | 'float' | 'bool' | 'none';
+
+export interface KsrArgument {
+  /** Kind of a literal argument, null for any other expression. */
+  literalKind: LiteralKind | null;
+  /** Constant name for `NAME` or `Module.NAME` arguments. */
+  constantName: string | null;
+  range: TreeSitterRange;
+}
+
+export interface KsrCall {
+  args: KsrArgument[];
+  argsRange: TreeSitterRange;
+  /** `*args`, `**kwargs` or keyword arguments — positional count is unknown. */
+  hasUnpacking: boolean;
+  /** The call is a statement on its own, so its return value is thrown away. */
+  resultDiscarded: boolean;
+}
+
+export function extractKsrReferences(tree: Tree): KsrReference[] {
+  const refs: KsrReference[] = [];
+  walkForKsrAttributes(tree.rootNode, refs);
+  return refs;
+}
+
+function walkForKsrAttributes(node: SyntaxNode, refs: KsrReference[]): void {
+  if (node.type === 'attribute') {
+    const ref = tryExtractKsrReference(node);
+    if (ref) refs.push(ref);
+  }
+  for (let i = 0; i < node.childCount; i++) {
+    const child = node.child(i);
+    if (child) walkForKsrAttributes(child, refs);
+  }
+}
+
+function tryExtractKsrReference(attrNode: SyntaxNode): KsrReference | null {
+  const obj = attrNode.childForFieldName('object');
+  const member = attrNode.childForFieldName('attribute');
+  if (!obj || !member || obj.type !== 'identifier' || obj.text !== 'KSR') return null;
+
+  const parent = attrNode.parent;
+  if (parent && parent.type === 'attribute' && parent.childForFieldName('object')?.id === attrNode.id) {
+    const fnId = parent.childForFieldName('attribute');
+    if (!fnId) return null;
+    return {
+      moduleName: member.text,
+      functionName: fnId.text,
+      moduleRange: nodeRange(member),
+      functionRange: nodeRange(fnId),
+      call: extractCall(parent),
+    };
+  }
+
+  return {
+    moduleName: '',
+    functionName: member.text,
+    moduleRange: null,
+    functionRange: nodeRange(member),
+    call: extractCall(attrNode),
+  };
+}
+
+function extractCall(funcNode: SyntaxNode): KsrCall | null {
+  const callNode = funcNode.parent;
+  if (!callNode || callNode.type !== 'call' || callNode.childForFieldName('function')?.id !== funcNode.id) {
+    return null;
+  }
+  const argsNode = callNode.childForFieldName('arguments');
+  if (!argsNode || argsNode.type !== 'argument_list') return null;
+
+  const args: KsrArgument[] = [];
+  let hasUnpacking = false;
+  for (const arg of argsNode.namedChildren) {
+    if (arg.type === 'comment') continue;
+    if (
+      arg.type === 'list_splat' || arg.type === 'dictionary_splat' || arg.type === 'keyword_argument'
+    ) {
+      hasUnpacking = true;
+      continue;
+    }
+    args.push({
+      literalKind: literalKind(arg),
+      constantName: constantName(arg),
+      range: nodeRange(arg),
+    });
+  }
+  const resultDiscarded = callNode.parent?.type === 'expression_statement';
+  return { args, argsRange: nodeRange(argsNode), hasUnpacking, resultDiscarded };
+}
+
+function literalKind(node: SyntaxNode): LiteralKind | null {
+  switch (node.type) {
+    case 'string':
+    case 'concatenated_string':
+      return 'str';
+    case 'integer':
+      return 'int';
+    case 'float':
+      return 'float';
+    case 'true':
+    case 'false':
+      return 'bool';
+    case 'none':
+      return 'none';
+    case 'unary_operator': {
+      const operand = node.childForFieldName('argument');
+      const kind = operand ? literalKind(operand) : null;
+      return kind === 'int' || kind === 'float' ? kind : null;
+    }
+    case 'parenthesized_expression': {
+      const inner = node.namedChild(0);
+      return inner ? literalKind(inner) : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function constantName(node: SyntaxNode): string | null {
+  if (node.type === 'identifier') return isFunctionLocal(node) ? null : node.text;
+  if (node.type === 'attribute') return node.childForFieldName('attribute')?.text ?? null;
+  return null;
+}
+
+/** The name is a parameter of, or assigned in, the function enclosing the reference. */
+function isFunctionLocal(ident: SyntaxNode): boolean {
+  let func = ident.parent;
+  while (func && func.type !== 'function_definition') func = func.parent;
+  if (!func) return false;
+  const params = func.childForFieldName('parameters');
+  for (const param of params?.namedChildren ?? []) {
+    const name = param.type === 'identifier' ? param : param.childForFieldName('name') ?? param.namedChild(0);
+    if (name?.text === ident.text) return true;
+  }
+  const body = func.childForFieldName('body');
+  return body ? assignsName(body, ident.text) : false;
+}
+
+function assignsName(node: SyntaxNode, name: string): boolean {
+  if (node.type === 'function_definition' || node.type === 'class_definition' || node.type === 'lambda') return false;
+  if (node.type === 'assignment' || node.type === 'augmented_assignment') {
+    if (node.childForFieldName('left')?.text === name) return true;
+  }
+  return node.namedChildren.some((child) => assignsName(child, name));
+}
+
+function nodeRange(node: SyntaxNode): TreeSitterRange {
+  return {
+    startPosition: node.startPosition,
+    endPosition: node.endPosition,
+    startIndex: node.startIndex,
+    endIndex: node.endIndex,
+  };
+}
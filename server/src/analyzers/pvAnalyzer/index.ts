@@ -1,9 +1,12 @@
 import {
+  CodeAction,
+  CodeActionKind,
   CompletionItem,
   CompletionItemKind,
   Diagnostic,
   DiagnosticSeverity,
   Hover,
+  SignatureHelp,
   InsertTextFormat,
   Location,
   MarkupKind,
@@ -11,6 +14,8 @@ import {
   Range,
   TextEdit,
   Command,
+  DiagnosticTag,
+  WorkspaceEdit,
 } from 'vscode-languageserver';
 import {
   Analyzer,
@@ -18,12 +23,15 @@ import {
   DocumentContext,
   SemanticTokenData,
 } from '../../core/types';
-import { extractPvReferences, KSR_PV_METHODS } from './pvExtractor';
-import { parsePvString, pvIdentityKey } from './pvParser';
+import { extractPvReferences } from './pvExtractor';
+import { ParsedPv, parsePvString, pvIdentityKey } from './pvParser';
 import { VariableIndex, PvOccurrence } from './variableIndex';
-import { BUILTIN_PVS, BUILTIN_BARE_PVS, BUILTIN_PV_CLASSES, BUILTIN_PV_INNER_NAMES } from '../../data/builtinPvs';
+import { BUILTIN_PVS, BUILTIN_BARE_PVS, BUILTIN_PV_CLASSES, BUILTIN_PV_INNER_NAMES, BuiltinPvDef, isKnownInnerName } from '../../data/builtinPvs';
+import { describeVersionStatus, formatVersionInfo, versionStatus } from '../../core/kamailioVersion';
+import { ROUTE_TYPE_LABELS, RouteType } from '../../data/routeTypes';
 import { SyntaxNode } from 'web-tree-sitter';
-import type { CallGraphAnalyzer } from '../callGraphAnalyzer/index';
+import type { CallGraphAnalyzer, NamedResourceKind } from '../callGraphAnalyzer/index';
+import { findStandardHeader } from '../../data/sipHeaders';
 
 // Semantic token type indices (must match legend order in server.ts)
 const TOKEN_TYPE_PV_TYPE = 0;     // 'kamailioPvType' — $var(, $avp(, $shv(
@@ -33,17 +41,36 @@ const TOKEN_TYPE_PV_BUILTIN = 2;  // 'kamailioPvBuiltin' — $ru, $fu, $si
 // Semantic token modifier flags
 const MODIFIER_WRITE = 0b10; // 'modification' in legend
 
+// Script variable classes whose names are chosen by the script, so they can be renamed
+const RENAMEABLE_PV_CLASSES = new Set(['var', 'avp', 'shv', 'xavp', 'xavu', 'xavi', 'dlg_var']);
+const PV_NAME_RE = /^[A-Za-z_][\w.-]*(=>[A-Za-z_][\w.-]*)?$/;
+const RESOURCE_NAME_RES: Record<NamedResourceKind, RegExp> = {
+  htable: /^[A-Za-z_][\w.-]*$/,
+  header: /^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/,
+  stat: /^[A-Za-z_][\w.:-]*$/,
+};
+// KSR.pv readers that hand back the stored value, whatever its type
+const VALUE_READ_METHODS = new Set(['get', 'gete', 'getw', 'getvs']);
+// Routes tm runs for a transaction after its request_route, possibly in another process
+const TRANSACTION_ROUTES: RouteType[] = ['failure', 'onreply', 'branch_failure'];
+
 export class PvAnalyzer implements Analyzer {
   readonly id = 'pv';
   readonly name = 'KSR.pv Pseudo-Variable Analyzer';
 
   private indices: Map<string, VariableIndex> = new Map();
   private callGraphAnalyzer: CallGraphAnalyzer | null = null;
+  private kamailioVersion: string | null = null;
 
   setCallGraphAnalyzer(cga: CallGraphAnalyzer): void {
     this.callGraphAnalyzer = cga;
   }
 
+  /** Target Kamailio version (`5.6`); null disables version checks. */
+  setKamailioVersion(version: string | null): void {
+    this.kamailioVersion = version;
+  }
+
   analyze(context: AnalysisContext): void {
     // Always rebuild index from the full tree. Tree-sitter parsing is
     // already incremental; walking the parsed tree for KSR.pv calls is
@@ -145,15 +172,6 @@ export class PvAnalyzer implements Analyzer {
       return this.getPvCompletions(doc, position, node);
     }
 
-    // Check if we're completing a KSR.pv method name
-    if (this.isCompletingKsrPvMethod(node)) {
-      return Object.entries(KSR_PV_METHODS).map(([method, info]) => ({
-        label: method,
-        kind: CompletionItemKind.Method,
-        detail: info.description,
-      }));
-    }
-
     return [];
   }
 
@@ -179,33 +197,83 @@ export class PvAnalyzer implements Analyzer {
         continue;
       }
 
+      // Check availability in the configured Kamailio version
+      const builtin = BUILTIN_PVS.find((b) => b.pvClass === occ.pv.pvClass)!;
+      const status = versionStatus(builtin, this.kamailioVersion);
+      if (status.kind !== 'available' && this.kamailioVersion) {
+        const deprecated = status.kind === 'deprecated';
+        diags.push({
+          severity: deprecated ? DiagnosticSeverity.Hint : DiagnosticSeverity.Warning,
+          range: {
+            start: { line: occ.range.startPosition.row, character: occ.range.startPosition.column },
+            end: { line: occ.range.endPosition.row, character: occ.range.endPosition.column },
+          },
+          message: `Pseudo-variable ${occ.pv.fullMatch} ${describeVersionStatus(status, this.kamailioVersion)}`,
+          source: 'kamailio-pv',
+          code: deprecated ? 'deprecated-pv' : 'pv-not-in-version',
+          tags: deprecated ? [DiagnosticTag.Deprecated] : undefined,
+        });
+      }
+
       // Check for invalid inner names on PV classes with fixed options
       const knownNames = BUILTIN_PV_INNER_NAMES.get(occ.pv.pvClass);
-      if (knownNames && occ.pv.innerName) {
+      const innerName = builtinInnerName(builtin, occ.pv);
+      if (knownNames && innerName && !innerName.includes('$')) {
         const validNames = knownNames.map(n => n.name);
-        if (!validNames.includes(occ.pv.innerName)) {
+        if (!isKnownInnerName(knownNames, innerName)) {
           diags.push({
             severity: DiagnosticSeverity.Error,
             range: {
               start: { line: occ.range.startPosition.row, character: occ.range.startPosition.column },
               end: { line: occ.range.endPosition.row, character: occ.range.endPosition.column },
             },
-            message: `Invalid name '${occ.pv.innerName}' for $${occ.pv.pvClass}(). Valid options: ${validNames.join(', ')}`,
+            message: `Invalid name '${innerName}' for $${occ.pv.pvClass}(). Valid options: ${validNames.join(', ')}`,
             source: 'kamailio-pv',
             code: 'invalid-pv-inner-name',
           });
         }
       }
+
+      // Check the PV makes sense in the routes this code runs in
+      const routeDiag = this.checkRouteContext(doc.uri, occ, builtin);
+      if (routeDiag) diags.push(routeDiag);
+
+      // Check writes only target PVs the script may assign
+      if (occ.isWrite && builtin.isReadOnly) diags.push(readOnlyWriteDiagnostic(doc, occ));
     }
 
+    // $var reads reachable from ksr_request_route are checked along the route's paths
+    const unsetVarReads = this.callGraphAnalyzer?.getUnsetVarReads(doc.uri) ?? [];
+    const isOnRequestRoute = (occ: PvOccurrence) =>
+      occ.pv.pvClass === 'var' &&
+      !!this.callGraphAnalyzer?.getRouteTypesAt(doc.uri, occ.range.startIndex)?.has('request');
+
     // Check for variables that are read but never set (within this document)
     for (const key of index.getAllIdentities()) {
       if (userVarPrefixes.some((p) => key.startsWith(p))) {
         const occs = index.getByIdentity(key);
-        const hasRead = occs.some((o) => !o.isWrite);
+        const routeReads = occs.filter((o) => !o.isWrite && isOnRequestRoute(o));
+        for (const read of routeReads) {
+          const unset = unsetVarReads.some((r) =>
+            r.pvKey === key && r.range.startIndex <= read.range.startIndex && read.range.endIndex <= r.range.endIndex
+          );
+          if (!unset) continue;
+          diags.push({
+            severity: DiagnosticSeverity.Warning,
+            range: {
+              start: { line: read.range.startPosition.row, character: read.range.startPosition.column },
+              end: { line: read.range.endPosition.row, character: read.range.endPosition.column },
+            },
+            message: `Pseudo-variable '${read.pv.fullMatch}' may be read before it is set on a path from ksr_request_route`,
+            source: 'kamailio-pv',
+            code: 'undefined-pv',
+          });
+        }
+
+        const otherReads = occs.filter((o) => !o.isWrite && !routeReads.includes(o));
         const hasWrite = occs.some((o) => o.isWrite);
 
-        if (hasRead && !hasWrite) {
+        if (otherReads.length > 0 && !hasWrite) {
           // Check across all documents
           let foundWriteElsewhere = false;
           for (const [uri, otherIndex] of this.indices) {
@@ -223,7 +291,7 @@ export class PvAnalyzer implements Analyzer {
           }
 
           if (!foundWriteElsewhere) {
-            const firstRead = occs.find((o) => !o.isWrite);
+            const firstRead = otherReads[0];
             if (firstRead) {
               diags.push({
                 severity: DiagnosticSeverity.Warning,
@@ -241,6 +309,9 @@ export class PvAnalyzer implements Analyzer {
       }
     }
 
+    diags.push(...this.checkValueTypes(doc, index));
+    diags.push(...this.checkLifetimes(doc.uri, index));
+
     return diags;
   }
 
@@ -313,12 +384,23 @@ export class PvAnalyzer implements Analyzer {
       builtin ? builtin.description : 'User-defined variable',
       '',
       `Category: \`${occ.pv.category}\``,
+      ...(builtin ? [`Module: \`${builtin.module ?? 'core'}\``] : []),
       `References: ${reads} reads, ${writes} writes`,
     ];
 
+    const valueTypes = this.getValueTypes(key);
+    if (valueTypes.size > 0) {
+      const types = Array.from(valueTypes.keys()).sort().join(' | ');
+      lines.push(`Type: \`${types}\`${valueTypes.size > 1 ? ' (mixed)' : ''}`);
+    }
+
     if (builtin?.isReadOnly) {
       lines.push('', '*Read-only*');
     }
+    const versionInfo = builtin ? formatVersionInfo(builtin) : null;
+    if (versionInfo) {
+      lines.push('', versionInfo);
+    }
 
     return {
       contents: {
@@ -332,12 +414,144 @@ export class PvAnalyzer implements Analyzer {
     };
   }
 
+  getSignatureHelp(_doc: DocumentContext, _position: Position): SignatureHelp | null {
+    return null;
+  }
+
+  getCodeActions(doc: DocumentContext, _range: Range, diagnostics: Diagnostic[]): CodeAction[] {
+    const actions: CodeAction[] = [];
+    for (const diag of diagnostics) {
+      if (diag.source === 'kamailio-pv' && diag.code === 'read-only-pv') {
+        const fix = diag.data as { title: string; callRange: Range; newText: string } | undefined;
+        if (!fix) continue;
+        actions.push({
+          title: fix.title,
+          kind: CodeActionKind.QuickFix,
+          diagnostics: [diag],
+          isPreferred: true,
+          edit: { changes: { [doc.uri]: [TextEdit.replace(fix.callRange, fix.newText)] } },
+        });
+        continue;
+      }
+      if (diag.source === 'kamailio-pv' && diag.code === 'pv-int-concat') {
+        const callRange = (diag.data as { callRange?: Range } | undefined)?.callRange;
+        if (!callRange) continue;
+        const edits = [
+          TextEdit.insert(callRange.start, 'str('),
+          TextEdit.insert(callRange.end, ')'),
+        ];
+        actions.push({
+          title: 'Wrap in str()',
+          kind: CodeActionKind.QuickFix,
+          diagnostics: [diag],
+          isPreferred: true,
+          edit: { changes: { [doc.uri]: edits } },
+        });
+        continue;
+      }
+      if (diag.source !== 'kamailio-pv' || diag.code !== 'pv-lifetime') continue;
+      const data = diag.data as { key?: string; replacement?: string } | undefined;
+      if (!data?.key || !data.replacement) continue;
+
+      const changes: Record<string, TextEdit[]> = {};
+      for (const [uri, index] of this.indices) {
+        const occurrences = index.getByIdentity(data.key);
+        if (occurrences.length === 0) continue;
+        changes[uri] = occurrences.map((o) => TextEdit.replace(pvClassRange(o), data.replacement!));
+      }
+      const name = data.key.slice(data.key.indexOf(':') + 1);
+      actions.push({
+        title: `Change to $${data.replacement}(${name}) everywhere`,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diag],
+        edit: { changes },
+      });
+    }
+    return actions;
+  }
+
+  prepareRename(doc: DocumentContext, position: Position): Range | null {
+    const occ = this.findRenameableOccurrence(doc, position);
+    if (occ) return innerNameRange(occ);
+    return this.findResourceRenameTarget(doc, position)?.range ?? null;
+  }
+
+  /** Rename a script variable everywhere it appears with the same identity ($var and $shv stay apart). */
+  getRenameEdits(doc: DocumentContext, position: Position, newName: string): WorkspaceEdit | null {
+    const occ = this.findRenameableOccurrence(doc, position);
+    if (!occ) return this.getResourceRenameEdits(doc, position, newName);
+    if (!PV_NAME_RE.test(newName)) return null;
+
+    const key = pvIdentityKey(occ.pv);
+    const changes: Record<string, TextEdit[]> = {};
+    for (const [uri, index] of this.indices) {
+      const occurrences = index.getByIdentity(key);
+      if (occurrences.length === 0) continue;
+      changes[uri] = occurrences.map((o) => TextEdit.replace(innerNameRange(o), newName));
+    }
+    return { changes };
+  }
+
   onDocumentRemoved(uri: string): void {
     this.indices.delete(uri);
   }
 
   // --- Private helpers ---
 
+  /**
+   * Rename an htable, custom header or statistic: the KSR calls naming it,
+   * the constants they take it from, its kamailio.cfg declaration and the
+   * `$sht(table=>key)`, `$hdr(name)` and `$hdrc(name)` strings.
+   */
+  private getResourceRenameEdits(doc: DocumentContext, position: Position, newName: string): WorkspaceEdit | null {
+    const target = this.findResourceRenameTarget(doc, position);
+    if (!target || !RESOURCE_NAME_RES[target.kind].test(newName)) return null;
+
+    const locations = this.callGraphAnalyzer?.getNamedResourceLocations(target.kind, target.name) ?? [];
+    for (const [uri, index] of this.indices) {
+      for (const occ of index.getAll()) {
+        const range = resourceNameRange(occ, target.kind, target.name);
+        if (range) locations.push({ uri, range });
+      }
+    }
+
+    const changes: Record<string, TextEdit[]> = {};
+    const seen = new Set<string>();
+    for (const { uri, range } of locations) {
+      const id = `${uri}:${range.start.line}:${range.start.character}`;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      let edits = changes[uri];
+      if (!edits) {
+        edits = [];
+        changes[uri] = edits;
+      }
+      edits.push(TextEdit.replace(range, newName));
+    }
+    return { changes };
+  }
+
+  /** The htable or custom header named in a PV string at the position, or a KSR call argument naming one. */
+  private findResourceRenameTarget(doc: DocumentContext, position: Position): { kind: NamedResourceKind; name: string; range: Range } | null {
+    const occ = this.findOccurrenceAtPosition(doc, position);
+    if (occ) {
+      const kind = occ.pv.pvClass === 'sht' ? 'htable' : 'header';
+      const name = resourceName(occ);
+      const range = name ? resourceNameRange(occ, kind, name) : null;
+      if (!name || !range) return null;
+      const onName = position.line === range.start.line &&
+        position.character >= range.start.character && position.character <= range.end.character;
+      return onName ? { kind, name, range } : null;
+    }
+    return this.callGraphAnalyzer?.findNamedResourceAt(doc, position) ?? null;
+  }
+
+  private findRenameableOccurrence(doc: DocumentContext, position: Position): PvOccurrence | undefined {
+    const occ = this.findOccurrenceAtPosition(doc, position);
+    if (!occ || !occ.pv.innerName || !RENAMEABLE_PV_CLASSES.has(occ.pv.pvClass)) return undefined;
+    return occ;
+  }
+
   private findOccurrenceAtPosition(doc: DocumentContext, position: Position): PvOccurrence | undefined {
     const index = this.indices.get(doc.uri);
     if (!index) return undefined;
@@ -369,22 +583,6 @@ export class PvAnalyzer implements Analyzer {
     return false;
   }
 
-  private isCompletingKsrPvMethod(node: SyntaxNode): boolean {
-    if (node.type !== 'identifier' || !node.parent) return false;
-    const parent = node.parent;
-    if (parent.type !== 'attribute') return false;
-
-    const obj = parent.childForFieldName('object');
-    if (!obj || obj.type !== 'attribute') return false;
-
-    const ksrId = obj.childForFieldName('object');
-    const pvId = obj.childForFieldName('attribute');
-    return (
-      !!ksrId && ksrId.type === 'identifier' && ksrId.text === 'KSR' &&
-      !!pvId && pvId.type === 'identifier' && pvId.text === 'pv'
-    );
-  }
-
   private isKsrPvAttribute(funcNode: SyntaxNode): boolean {
     if (funcNode.type !== 'attribute') return false;
     const obj = funcNode.childForFieldName('object');
@@ -478,6 +676,18 @@ export class PvAnalyzer implements Analyzer {
         end: position,
       };
 
+      // Keyed classes like $dbr(result=>rows) only have fixed options after the '=>'
+      const builtin = BUILTIN_PVS.find((b) => b.pvClass === pvClass);
+      if (builtin?.isKeyed) {
+        const arrowIdx = afterDollar.indexOf('=>', openParenIdx + 1);
+        if (arrowIdx === -1) return [];
+        const keyReplaceRange: Range = {
+          start: { line: position.line, character: stringStart.column + dollarIdx + 1 + arrowIdx + 2 },
+          end: position,
+        };
+        return this.getInnerNameCompletions(pvClass, keyReplaceRange);
+      }
+
       return this.getVariableNameCompletions(pvClass, nameReplaceRange);
     }
 
@@ -491,14 +701,14 @@ export class PvAnalyzer implements Analyzer {
 
     // Built-in bare PVs (e.g., $ru, $fu)
     for (const builtin of BUILTIN_PVS) {
-      if (builtin.isBare) {
+      if (builtin.isBare && this.isOffered(builtin)) {
         items.push({
           label: builtin.template,
           kind: CompletionItemKind.Variable,
           detail: builtin.description,
           documentation: {
             kind: MarkupKind.Markdown,
-            value: `**${builtin.template}**\n\n${builtin.description}\n\nCategory: \`${builtin.category}\`${builtin.isReadOnly ? '\n\n*Read-only*' : ''}`,
+            value: `**${builtin.template}**\n\n${builtin.description}\n\nCategory: \`${builtin.category}\`\nModule: \`${builtin.module ?? 'core'}\`${builtin.isReadOnly ? '\n\n*Read-only*' : ''}`,
           },
           filterText: builtin.template,
           sortText: `0${builtin.template}`,
@@ -510,7 +720,7 @@ export class PvAnalyzer implements Analyzer {
 
     // Class PV prefixes (e.g., $var(, $shv() — insert $var() with cursor between parens
     for (const builtin of BUILTIN_PVS) {
-      if (!builtin.isBare) {
+      if (!builtin.isBare && this.isOffered(builtin)) {
         const prefix = `$${builtin.pvClass}(`;
         if (!seen.has(prefix)) {
           // Snippet: \\$ is literal $ in snippet syntax, $1 positions cursor between parens
@@ -561,25 +771,21 @@ export class PvAnalyzer implements Analyzer {
     return items;
   }
 
-  private getVariableNameCompletions(pvClass: string, replaceRange: Range): CompletionItem[] {
-    const items: CompletionItem[] = [];
-    const seen = new Set<string>();
+  /** Known builtin inner names for PV classes with fixed options (e.g., $T, $TV). */
+  private getInnerNameCompletions(pvClass: string, replaceRange: Range): CompletionItem[] {
+    return (BUILTIN_PV_INNER_NAMES.get(pvClass) ?? []).map((entry) => ({
+      label: entry.name,
+      kind: CompletionItemKind.EnumMember,
+      detail: entry.description,
+      filterText: entry.name,
+      sortText: `0${entry.name}`,
+      textEdit: TextEdit.replace(replaceRange, entry.name),
+    }));
+  }
 
-    // Offer known builtin inner names for PV classes with fixed options (e.g., $T, $TV)
-    const builtinNames = BUILTIN_PV_INNER_NAMES.get(pvClass);
-    if (builtinNames) {
-      for (const entry of builtinNames) {
-        items.push({
-          label: entry.name,
-          kind: CompletionItemKind.EnumMember,
-          detail: entry.description,
-          filterText: entry.name,
-          sortText: `0${entry.name}`,
-          textEdit: TextEdit.replace(replaceRange, entry.name),
-        });
-        seen.add(entry.name);
-      }
-    }
+  private getVariableNameCompletions(pvClass: string, replaceRange: Range): CompletionItem[] {
+    const items = this.getInnerNameCompletions(pvClass, replaceRange);
+    const seen = new Set<string>(items.map((item) => item.label));
 
     for (const index of this.indices.values()) {
       for (const key of index.getAllIdentities()) {
@@ -606,6 +812,173 @@ export class PvAnalyzer implements Analyzer {
     return items;
   }
 
+  private checkRouteContext(uri: string, occ: PvOccurrence, builtin: BuiltinPvDef): Diagnostic | null {
+    if (!this.callGraphAnalyzer) return null;
+    const innerName = builtinInnerName(builtin, occ.pv);
+    const innerDef = BUILTIN_PV_INNER_NAMES.get(occ.pv.pvClass)?.find((n) => n.name === innerName);
+    const validRoutes = innerDef?.validRoutes ?? builtin.validRoutes;
+    if (!validRoutes) return null;
+
+    const routeTypes = this.callGraphAnalyzer.getRouteTypesAt(uri, occ.range.startIndex);
+    if (!routeTypes || routeTypes.size === 0) return null;
+    // Event routes run with whatever message the module's event carries
+    if (routeTypes.has('event')) return null;
+    if (Array.from(routeTypes).some((r) => validRoutes.includes(r))) return null;
+
+    const label = (routes: Iterable<RouteType>) => Array.from(routes).map((r) => ROUTE_TYPE_LABELS[r]).join(', ');
+    return {
+      severity: DiagnosticSeverity.Warning,
+      range: {
+        start: { line: occ.range.startPosition.row, character: occ.range.startPosition.column },
+        end: { line: occ.range.endPosition.row, character: occ.range.endPosition.column },
+      },
+      message: `${occ.pv.fullMatch} is only meaningful in ${label(validRoutes)}, but this code runs in ${label(routeTypes)}`,
+      source: 'kamailio-pv',
+      code: 'pv-invalid-route',
+    };
+  }
+
+  /**
+   * Variables written both with seti() and sets(), and reads of int-only
+   * variables whose value is concatenated with a string, which raises a
+   * TypeError in Python.
+   */
+  private checkValueTypes(doc: DocumentContext, index: VariableIndex): Diagnostic[] {
+    const diags: Diagnostic[] = [];
+    for (const key of index.getAllIdentities()) {
+      const valueTypes = this.getValueTypes(key);
+      if (valueTypes.size === 0) continue;
+      const occs = index.getByIdentity(key);
+
+      if (valueTypes.size > 1) {
+        for (const write of occs) {
+          const type = valueType(write.method);
+          if (!type) continue;
+          const other = valueTypes.get(type === 'int' ? 'str' : 'int')!;
+          diags.push({
+            severity: DiagnosticSeverity.Warning,
+            range: occurrenceRange(write),
+            message: `${write.pv.fullMatch} is set as ${type} here but as ${type === 'int' ? 'str' : 'int'} elsewhere`,
+            source: 'kamailio-pv',
+            code: 'pv-mixed-types',
+            relatedInformation: [{
+              location: { uri: other.uri, range: occurrenceRange(other.occ) },
+              message: `Set with KSR.pv.${other.occ.method}()`,
+            }],
+          });
+        }
+        continue;
+      }
+
+      if (!valueTypes.has('int')) continue;
+      for (const read of occs) {
+        if (read.isWrite || !VALUE_READ_METHODS.has(read.method)) continue;
+        const call = enclosingCall(doc, read);
+        if (!call || !isConcatenatedWithString(call)) continue;
+        diags.push({
+          severity: DiagnosticSeverity.Warning,
+          range: occurrenceRange(read),
+          message: `${read.pv.fullMatch} holds an int (set with KSR.pv.seti), so KSR.pv.${read.method}() returns an int ` +
+            'and concatenating it with a string raises a TypeError — wrap it in str()',
+          source: 'kamailio-pv',
+          code: 'pv-int-concat',
+          data: {
+            callRange: {
+              start: { line: call.startPosition.row, character: call.startPosition.column },
+              end: { line: call.endPosition.row, character: call.endPosition.column },
+            },
+          },
+        });
+      }
+    }
+    return diags;
+  }
+
+  /** Value types a PV identity is written with across the workspace, with the first write of each. */
+  private getValueTypes(key: string): Map<'int' | 'str', { uri: string; occ: PvOccurrence }> {
+    const types = new Map<'int' | 'str', { uri: string; occ: PvOccurrence }>();
+    for (const [uri, index] of this.indices) {
+      for (const write of index.getAllWrites(key)) {
+        const type = valueType(write.method);
+        if (type && !types.has(type)) types.set(type, { uri, occ: write });
+      }
+    }
+    return types;
+  }
+
+  /**
+   * Reads that see a value from another lifetime: a `$var` set in request_route
+   * and read in a route tm runs later for the transaction (possibly in another
+   * process), or an AVP read in request_route but only set in those routes,
+   * which belong to an earlier transaction.
+   */
+  private checkLifetimes(uri: string, index: VariableIndex): Diagnostic[] {
+    if (!this.callGraphAnalyzer) return [];
+    const diags: Diagnostic[] = [];
+    const label = (routes: Iterable<RouteType>) => Array.from(routes).map((r) => ROUTE_TYPE_LABELS[r]).join(', ');
+
+    for (const key of index.getAllIdentities()) {
+      const reads = index.getByIdentity(key).filter((o) => !o.isWrite);
+      const category = reads[0]?.pv.category;
+      if (category !== 'script_var' && category !== 'avp') continue;
+
+      const writeRoutes = this.getWriteRouteTypes(key);
+      if (writeRoutes.size === 0) continue;
+      const name = reads[0].pv.innerName ?? '';
+
+      for (const read of reads) {
+        const routeTypes = this.callGraphAnalyzer.getRouteTypesAt(uri, read.range.startIndex);
+        if (!routeTypes) continue;
+        let message: string;
+        let replacement: string;
+        if (category === 'script_var') {
+          const later = TRANSACTION_ROUTES.filter((r) => routeTypes.has(r) && !writeRoutes.has(r));
+          if (later.length === 0 || !writeRoutes.has('request')) continue;
+          message = `${read.pv.fullMatch} is set in request_route but read in ${label(later)}, ` +
+            `which may run in another process. $var is kept per process, not per transaction — ` +
+            `use $avp(${name}) or $xavp(${name}) to carry it with the transaction`;
+          replacement = 'avp';
+        } else {
+          const onlyLater = Array.from(writeRoutes).every((r) => TRANSACTION_ROUTES.includes(r));
+          if (!routeTypes.has('request') || !onlyLater) continue;
+          message = `${read.pv.fullMatch} is read in request_route but only set in ${label(writeRoutes)}. ` +
+            `AVPs belong to one transaction, so a new request never sees it — ` +
+            `use $dlg_var(${name}) to keep it for the dialog`;
+          replacement = 'dlg_var';
+        }
+        diags.push({
+          severity: DiagnosticSeverity.Warning,
+          range: {
+            start: { line: read.range.startPosition.row, character: read.range.startPosition.column },
+            end: { line: read.range.endPosition.row, character: read.range.endPosition.column },
+          },
+          message,
+          source: 'kamailio-pv',
+          code: 'pv-lifetime',
+          data: { key, replacement },
+        });
+      }
+    }
+    return diags;
+  }
+
+  /** Route types of the code writing a PV identity anywhere in the workspace. */
+  private getWriteRouteTypes(key: string): Set<RouteType> {
+    const routes = new Set<RouteType>();
+    for (const [uri, index] of this.indices) {
+      for (const write of index.getAllWrites(key)) {
+        const routeTypes = this.callGraphAnalyzer?.getRouteTypesAt(uri, write.range.startIndex);
+        if (routeTypes) routeTypes.forEach((r) => routes.add(r));
+      }
+    }
+    return routes;
+  }
+
+  /** Completions hide PVs that are unavailable or deprecated in the target version. */
+  private isOffered(builtin: BuiltinPvDef): boolean {
+    return versionStatus(builtin, this.kamailioVersion).kind === 'available';
+  }
+
   private hasWriteForKey(key: string): boolean {
     for (const index of this.indices.values()) {
       if (index.getAllWrites(key).length > 0) return true;
@@ -628,3 +1001,139 @@ export class PvAnalyzer implements Analyzer {
     return offset + position.character;
   }
 }
+
+// --- Module-level helpers ---
+
+/** The inner name checked against the catalog: the key after '=>' for keyed classes. */
+function builtinInnerName(builtin: BuiltinPvDef, pv: ParsedPv): string | null {
+  if (!pv.innerName || !builtin.isKeyed) return pv.innerName;
+  const arrowIdx = pv.innerName.indexOf('=>');
+  return arrowIdx === -1 ? null : pv.innerName.substring(arrowIdx + 2);
+}
+
+/** Range of the name inside `$class(name)`. */
+function innerNameRange(occ: PvOccurrence): Range {
+  const start = occ.range.startPosition.column + 1 + occ.pv.pvClass.length + 1;
+  return {
+    start: { line: occ.range.startPosition.row, character: start },
+    end: { line: occ.range.startPosition.row, character: start + occ.pv.innerName!.length },
+  };
+}
+
+/** Table of a `$sht(table=>key)` or custom header of a `$hdr(name)`/`$hdrc(name)` occurrence. */
+function resourceName(occ: PvOccurrence): string | null {
+  const inner = occ.pv.innerName;
+  if (!inner) return null;
+  if (occ.pv.pvClass === 'sht') {
+    const arrow = inner.indexOf('=>');
+    return arrow > 0 ? inner.slice(0, arrow) : null;
+  }
+  if ((occ.pv.pvClass === 'hdr' || occ.pv.pvClass === 'hdrc') && !findStandardHeader(inner)) return inner;
+  return null;
+}
+
+/** Range of the resource name inside the occurrence, if it names that resource. */
+function resourceNameRange(occ: PvOccurrence, kind: NamedResourceKind, name: string): Range | null {
+  const occName = resourceName(occ);
+  if (!occName) return null;
+  const occKind: NamedResourceKind = occ.pv.pvClass === 'sht' ? 'htable' : 'header';
+  if (occKind !== kind) return null;
+  if (kind === 'header' ? occName.toLowerCase() !== name.toLowerCase() : occName !== name) return null;
+  const start = occ.range.startPosition.column + 1 + occ.pv.pvClass.length + 1;
+  return {
+    start: { line: occ.range.startPosition.row, character: start },
+    end: { line: occ.range.startPosition.row, character: start + occName.length },
+  };
+}
+
+/** Range of the class name in `$class(name)` or `$(class(name)[i])`. */
+function pvClassRange(occ: PvOccurrence): Range {
+  const start = occ.range.startPosition.column + occ.pv.fullMatch.indexOf(occ.pv.pvClass);
+  return {
+    start: { line: occ.range.startPosition.row, character: start },
+    end: { line: occ.range.startPosition.row, character: start + occ.pv.pvClass.length },
+  };
+}
+
+/** Error for a KSR.pv write to a read-only PV, with the KEMI call to use instead when there is one. */
+function readOnlyWriteDiagnostic(doc: DocumentContext, occ: PvOccurrence): Diagnostic {
+  const diag: Diagnostic = {
+    severity: DiagnosticSeverity.Error,
+    range: {
+      start: { line: occ.range.startPosition.row, character: occ.range.startPosition.column },
+      end: { line: occ.range.endPosition.row, character: occ.range.endPosition.column },
+    },
+    message: `${occ.pv.fullMatch} is read-only and cannot be changed with KSR.pv.${occ.method}()`,
+    source: 'kamailio-pv',
+    code: 'read-only-pv',
+  };
+
+  const call = enclosingCall(doc, occ);
+  const value = call?.childForFieldName('arguments')?.namedChild(1)?.text ?? null;
+  const replacement = call ? kemiWriteFor(occ.pv, occ.method, value) : null;
+  if (call && replacement) {
+    diag.message += ` — use ${replacement.fn}()`;
+    diag.data = {
+      title: `Use ${replacement.fn}()`,
+      callRange: {
+        start: { line: call.startPosition.row, character: call.startPosition.column },
+        end: { line: call.endPosition.row, character: call.endPosition.column },
+      },
+      newText: replacement.text,
+    };
+  }
+  return diag;
+}
+
+/** The KEMI call that changes what a read-only PV reads, from the value passed to KSR.pv. */
+function kemiWriteFor(pv: ParsedPv, method: string, value: string | null): { fn: string; text: string } | null {
+  const clears = method === 'unset' || method === 'setx';
+  const call = (fn: string, ...args: string[]) => ({ fn, text: `${fn}(${args.join(', ')})` });
+  switch (pv.pvClass) {
+    case 'fu':
+      return !clears && value ? call('KSR.uac.uac_replace_from_uri', value) : null;
+    case 'tu':
+      return !clears && value ? call('KSR.uac.uac_replace_to_uri', value) : null;
+    case 'hdr': {
+      if (!pv.innerName) return null;
+      if (clears) return call('KSR.hdr.remove', `"${pv.innerName}"`);
+      if (!value) return null;
+      const text = method === 'seti' ? `str(${value})` : value;
+      return call('KSR.hdr.append', `"${pv.innerName}: " + ${text} + "\\r\\n"`);
+    }
+    default:
+      return null;
+  }
+}
+
+/** `int` for seti(), `str` for sets(); null for writes that clear the PV. */
+function valueType(method: string): 'int' | 'str' | null {
+  if (method === 'seti') return 'int';
+  if (method === 'sets') return 'str';
+  return null;
+}
+
+function occurrenceRange(occ: PvOccurrence): Range {
+  return {
+    start: { line: occ.range.startPosition.row, character: occ.range.startPosition.column },
+    end: { line: occ.range.endPosition.row, character: occ.range.endPosition.column },
+  };
+}
+
+/** The KSR.pv call whose string holds the occurrence. */
+function enclosingCall(doc: DocumentContext, occ: PvOccurrence): SyntaxNode | null {
+  let node: SyntaxNode | null = doc.tree.rootNode.descendantForIndex(occ.range.startIndex);
+  while (node && node.type !== 'call') node = node.parent;
+  return node;
+}
+
+/** True for `call + "..."`, `"..." + call` and the same with `str(...)` as the other operand. */
+function isConcatenatedWithString(call: SyntaxNode): boolean {
+  const parent = call.parent;
+  if (!parent || parent.type !== 'binary_operator' || parent.childForFieldName('operator')?.type !== '+') return false;
+  const left = parent.childForFieldName('left');
+  const other = left && left.startIndex === call.startIndex ? parent.childForFieldName('right') : left;
+  if (!other) return false;
+  if (other.type === 'string') return true;
+  return other.type === 'call' && other.childForFieldName('function')?.text === 'str';
+}
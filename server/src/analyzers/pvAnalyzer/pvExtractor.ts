@@ -59,9 +59,9 @@ export function extractPvReferences(
 
 function walkForPvCalls(node: SyntaxNode, refs: PvReference[]): void {
   if (node.type === 'call') {
-    const ref = tryExtractPvCall(node);
-    if (ref) {
-      refs.push(ref);
+    const callRefs = tryExtractPvCall(node);
+    if (callRefs) {
+      refs.push(...callRefs);
       return;
     }
   }
@@ -71,7 +71,8 @@ function walkForPvCalls(node: SyntaxNode, refs: PvReference[]): void {
   }
 }
 
-function tryExtractPvCall(callNode: SyntaxNode): PvReference | null {
+/** One reference per literal chunk of the string, so f-strings are covered between interpolations. */
+function tryExtractPvCall(callNode: SyntaxNode): PvReference[] | null {
   const funcNode = callNode.childForFieldName('function');
   if (!funcNode || funcNode.type !== 'attribute') return null;
 
@@ -103,12 +104,12 @@ function tryExtractPvCall(callNode: SyntaxNode): PvReference | null {
   if (!firstArg || firstArg.type !== 'string') return null;
 
   // Find string_content inside the string node
-  const contentNode = firstArg.namedChildren.find(
+  const contentNodes = firstArg.namedChildren.filter(
     (c) => c.type === 'string_content'
   );
-  if (!contentNode) return null;
+  if (contentNodes.length === 0) return null;
 
-  return {
+  return contentNodes.map((contentNode) => ({
     pvString: contentNode.text,
     method,
     isWrite: KSR_PV_METHODS[method].isWrite,
@@ -124,7 +125,7 @@ function tryExtractPvCall(callNode: SyntaxNode): PvReference | null {
       startIndex: callNode.startIndex,
       endIndex: callNode.endIndex,
     },
-  };
+  }));
 }
 
 function findStatementAncestor(node: SyntaxNode): SyntaxNode {
@@ -26,16 +26,20 @@ export interface ParsedPv {
 const SIP_URI_PVS = new Set([
   'ru', 'rU', 'fu', 'fU', 'tu', 'tU', 'ou', 'oU', 'du', 'su',
   'rd', 'fd', 'td', 'od', 'dd', 'pd', 'ad', 'rp', 'rP',
-  'dp', 'dP', 'op', 'oP', 'fn', 'tn', 'pn',
+  'dp', 'dP', 'op', 'oP', 'fn', 'tn', 'pn', 'pU', 'pu', 'rz',
+  'ai', 're', 'rt', 'di', 'dir', 'dip', 'ds', 'nh',
 ]);
 
 const NETWORK_PVS = new Set([
   'si', 'sp', 'Ri', 'Rp', 'Rn', 'RAi', 'RAp', 'pr', 'proto',
+  'sut', 'Ru', 'Rut', 'RAu', 'RAut', 'fs', 'fsn', 'conid', 'K',
+  'snd', 'sndfrom', 'sndto', 'rcv',
 ]);
 
 const MESSAGE_PVS = new Set([
   'rm', 'rs', 'cl', 'rb', 'ml', 'mb', 'bs', 'ct', 'cT', 'ua',
-  'mi', 'mt', 'cs', 'csb', 'ci', 'ft', 'tt',
+  'mi', 'mt', 'cs', 'csb', 'ci', 'ft', 'tt', 'rr', 'rv', 'rmid',
+  'mbu', 'mf', 'mF', 'sf', 'sF',
 ]);
 
 function categorizePv(pvClass: string): PvCategory {
@@ -50,6 +54,7 @@ function categorizePv(pvClass: string): PvCategory {
   if (NETWORK_PVS.has(pvClass)) return 'network';
   if (MESSAGE_PVS.has(pvClass)) return 'message';
   if (pvClass === 'Ts' || pvClass === 'Tf' || pvClass === 'TF' || pvClass === 'TV' || pvClass === 'time' || pvClass === 'utime') return 'time';
+  if (pvClass === 'TS' || pvClass === 'Tb' || pvClass === 'timef') return 'time';
   return 'other';
 }
 
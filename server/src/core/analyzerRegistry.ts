@@ -1,9 +1,13 @@
 import {
+  CodeAction,
   CompletionItem,
   Diagnostic,
   Location,
   Position,
+  Range,
   Hover,
+  SignatureHelp,
+  WorkspaceEdit,
 } from 'vscode-languageserver';
 import {
   Analyzer,
@@ -102,6 +106,54 @@ export class AnalyzerRegistry {
     return null;
   }
 
+  getSignatureHelp(doc: DocumentContext, position: Position): SignatureHelp | null {
+    for (const analyzer of this.analyzers.values()) {
+      try {
+        const help = analyzer.getSignatureHelp(doc, position);
+        if (help) return help;
+      } catch (err) {
+        console.error(`Analyzer '${analyzer.id}' threw during getSignatureHelp():`, err);
+      }
+    }
+    return null;
+  }
+
+  getCodeActions(doc: DocumentContext, range: Range, diagnostics: Diagnostic[]): CodeAction[] {
+    const actions: CodeAction[] = [];
+    for (const analyzer of this.analyzers.values()) {
+      try {
+        actions.push(...analyzer.getCodeActions(doc, range, diagnostics));
+      } catch (err) {
+        console.error(`Analyzer '${analyzer.id}' threw during getCodeActions():`, err);
+      }
+    }
+    return actions;
+  }
+
+  prepareRename(doc: DocumentContext, position: Position): Range | null {
+    for (const analyzer of this.analyzers.values()) {
+      try {
+        const range = analyzer.prepareRename(doc, position);
+        if (range) return range;
+      } catch (err) {
+        console.error(`Analyzer '${analyzer.id}' threw during prepareRename():`, err);
+      }
+    }
+    return null;
+  }
+
+  getRenameEdits(doc: DocumentContext, position: Position, newName: string): WorkspaceEdit | null {
+    for (const analyzer of this.analyzers.values()) {
+      try {
+        const edit = analyzer.getRenameEdits(doc, position, newName);
+        if (edit) return edit;
+      } catch (err) {
+        console.error(`Analyzer '${analyzer.id}' threw during getRenameEdits():`, err);
+      }
+    }
+    return null;
+  }
+
   getSemanticTokens(doc: DocumentContext): SemanticTokenData[] {
     const tokens: SemanticTokenData[] = [];
     for (const analyzer of this.analyzers.values()) {
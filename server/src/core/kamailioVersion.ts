@@ -0,0 +1,74 @@
+/** Version metadata shared by builtin PVs and KEMI functions. Versions are `major.minor`. */
+export interface VersionedDef {
+  /** First Kamailio release providing it. */
+  since?: string;
+  /** Release that deprecated it — still works, but should not be used in new code. */
+  deprecatedIn?: string;
+  /** First release that no longer provides it. */
+  removedIn?: string;
+}
+
+export type VersionStatus =
+  | { kind: 'available' }
+  | { kind: 'deprecated'; version: string }
+  | { kind: 'notYetAvailable'; version: string }
+  | { kind: 'removed'; version: string };
+
+/** Parse `5.6`, `5.6.3` or `v5.8` into numeric parts, or null when not a version. */
+export function parseKamailioVersion(version: string): number[] | null {
+  const m = /^v?(\d+)\.(\d+)(?:\.(\d+))?$/.exec(version.trim());
+  if (!m) return null;
+  return m.slice(1).filter((p) => p !== undefined).map(Number);
+}
+
+export function compareVersions(a: string, b: string): number {
+  const pa = parseKamailioVersion(a) ?? [];
+  const pb = parseKamailioVersion(b) ?? [];
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Status of a PV or KEMI function in the target Kamailio version.
+ * Patch releases are ignored: 5.6.3 is checked as 5.6.
+ */
+export function versionStatus(def: VersionedDef, target: string | null): VersionStatus {
+  if (!target) return { kind: 'available' };
+  const minor = target.split('.').slice(0, 2).join('.');
+  if (def.since && compareVersions(minor, def.since) < 0) {
+    return { kind: 'notYetAvailable', version: def.since };
+  }
+  if (def.removedIn && compareVersions(minor, def.removedIn) >= 0) {
+    return { kind: 'removed', version: def.removedIn };
+  }
+  if (def.deprecatedIn && compareVersions(minor, def.deprecatedIn) >= 0) {
+    return { kind: 'deprecated', version: def.deprecatedIn };
+  }
+  return { kind: 'available' };
+}
+
+/** Hover line describing the version metadata, e.g. `*Kamailio 5.5+, deprecated in 5.8*`. */
+export function formatVersionInfo(def: VersionedDef): string | null {
+  const parts: string[] = [];
+  if (def.since) parts.push(`Kamailio ${def.since}+`);
+  if (def.deprecatedIn) parts.push(`deprecated in ${def.deprecatedIn}`);
+  if (def.removedIn) parts.push(`removed in ${def.removedIn}`);
+  return parts.length > 0 ? `*${parts.join(', ')}*` : null;
+}
+
+/** Diagnostic message suffix for a status other than available. */
+export function describeVersionStatus(status: VersionStatus, target: string): string {
+  switch (status.kind) {
+    case 'notYetAvailable':
+      return `is not available in Kamailio ${target} (added in ${status.version})`;
+    case 'removed':
+      return `is not available in Kamailio ${target} (removed in ${status.version})`;
+    case 'deprecated':
+      return `is deprecated since Kamailio ${status.version}`;
+    default:
+      return 'is available';
+  }
+}
@@ -1,10 +1,14 @@
 import type { Tree, Point } from 'web-tree-sitter';
 import type {
+  CodeAction,
   CompletionItem,
   Diagnostic,
   Location,
   Position,
+  Range,
   Hover,
+  SignatureHelp,
+  WorkspaceEdit,
 } from 'vscode-languageserver';
 
 export interface TreeSitterRange {
@@ -47,5 +51,10 @@ export interface Analyzer {
   getDefinitions(doc: DocumentContext, position: Position): Location[];
   getReferences(doc: DocumentContext, position: Position): Location[];
   getHover(doc: DocumentContext, position: Position): Hover | null;
+  getSignatureHelp(doc: DocumentContext, position: Position): SignatureHelp | null;
+  getCodeActions(doc: DocumentContext, range: Range, diagnostics: Diagnostic[]): CodeAction[];
+  /** Range of the renameable symbol at the position, or null to leave it to other analyzers. */
+  prepareRename(doc: DocumentContext, position: Position): Range | null;
+  getRenameEdits(doc: DocumentContext, position: Position, newName: string): WorkspaceEdit | null;
   onDocumentRemoved(uri: string): void;
 }
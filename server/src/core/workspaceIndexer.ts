@@ -4,16 +4,67 @@ import { Connection, FileChangeType } from 'vscode-languageserver';
 import { DocumentManager } from './documentManager';
 
 const STAT_MODPARAM_RE = /modparam\s*\(\s*"statistics"\s*,\s*"variable"\s*,\s*"([^"]+)"\s*\)/g;
+const HTABLE_MODPARAM_RE = /modparam\s*\(\s*"htable"\s*,\s*"htable"\s*,\s*"\s*([^"=\s]+)\s*=>/;
+const LOADMODULE_RE = /^\s*loadmodule\s*\(?\s*["']([^"']+)["']/;
+const EVENT_CALLBACK_RE = /modparam\s*\(\s*"(\w+)"\s*,\s*"event_callback"\s*,\s*"([^"]+)"\s*\)/;
+const RTIMER_EXEC_RE = /modparam\s*\(\s*"rtimer"\s*,\s*"exec"\s*,\s*"([^"]+)"\s*\)/;
 
 export interface StatDeclaration {
   name: string;
   uri: string;
   line: number;
+  /** Columns of the statistic name within the line. */
+  startColumn: number;
+  endColumn: number;
+}
+
+/** A hash table defined with `modparam("htable", "htable", "name=>...")`. */
+export interface HtableDeclaration {
+  name: string;
+  uri: string;
+  line: number;
+  /** Columns of the table name within the line. */
+  startColumn: number;
+  endColumn: number;
+}
+
+export interface LoadModuleDeclaration {
+  /** Module name without directory and `.so` suffix, e.g. `tm`. */
+  name: string;
+  /** Path as written in the cfg, e.g. `tm.so` or `/usr/lib/kamailio/modules/tm.so`. */
+  path: string;
+  uri: string;
+  line: number;
+}
+
+/** A KEMI function named in a modparam, called by the module on its events. */
+export interface CfgCallbackDeclaration {
+  name: string;
+  /** Module and parameter naming it, e.g. `htable` and `event_callback`. */
+  module: string;
+  param: string;
+  uri: string;
+  line: number;
+  /** Columns of the function name within the line. */
+  startColumn: number;
+  endColumn: number;
+}
+
+/** Everything one cfg file declares, so a change to it leaves other files' declarations alone. */
+interface CfgFileDeclarations {
+  stats: StatDeclaration[];
+  htables: HtableDeclaration[];
+  modules: LoadModuleDeclaration[];
+  callbacks: CfgCallbackDeclaration[];
 }
 
 export class WorkspaceIndexer {
   private knownFiles: Set<string> = new Set();
+  private cfgFiles: Map<string, CfgFileDeclarations> = new Map();
   private declaredStats: Map<string, StatDeclaration> = new Map();
+  private declaredHtables: Map<string, HtableDeclaration> = new Map();
+  private loadedModules: Map<string, LoadModuleDeclaration> = new Map();
+  private cfgCallbacks: CfgCallbackDeclaration[] = [];
 
   constructor(
     private connection: Connection,
@@ -22,15 +73,21 @@ export class WorkspaceIndexer {
   ) {}
 
   async scanWorkspace(): Promise<void> {
-    // Scan config files first so declared stats are available during .py analysis
+    // Scan config files first so declared stats and loaded modules are
+    // available during .py analysis
     for (const root of this.workspaceRoots) {
-      this.collectCfgStats(root);
+      this.collectCfgDeclarations(root);
     }
     if (this.declaredStats.size > 0) {
       this.connection.console.log(
         `[workspace-indexer] Found ${this.declaredStats.size} declared statistics`
       );
     }
+    if (this.loadedModules.size > 0) {
+      this.connection.console.log(
+        `[workspace-indexer] Found ${this.loadedModules.size} loaded modules`
+      );
+    }
 
     const pyFiles: string[] = [];
     for (const root of this.workspaceRoots) {
@@ -88,6 +145,12 @@ export class WorkspaceIndexer {
   onFileChange(uri: string, changeType: FileChangeType): void {
     const filePath = uri.replace('file://', '');
 
+    if (uri.endsWith('.cfg')) {
+      if (changeType === FileChangeType.Deleted) this.removeCfgDeclarations(uri);
+      else this.collectCfgFile(filePath);
+      return;
+    }
+
     if (changeType === FileChangeType.Deleted) {
       this.knownFiles.delete(uri);
       this.documentManager.removeDocument(uri);
@@ -120,29 +183,28 @@ export class WorkspaceIndexer {
     return this.declaredStats;
   }
 
-  private collectCfgStats(dir: string): void {
+  getDeclaredHtables(): Map<string, HtableDeclaration> {
+    return this.declaredHtables;
+  }
+
+  getLoadedModules(): Map<string, LoadModuleDeclaration> {
+    return this.loadedModules;
+  }
+
+  getCfgCallbacks(): CfgCallbackDeclaration[] {
+    return this.cfgCallbacks;
+  }
+
+  private collectCfgDeclarations(dir: string): void {
     try {
       const entries = fs.readdirSync(dir, { withFileTypes: true });
       for (const entry of entries) {
         const fullPath = path.join(dir, entry.name);
         if (entry.isDirectory()) {
           if (entry.name === 'node_modules' || entry.name === '.git') continue;
-          this.collectCfgStats(fullPath);
+          this.collectCfgDeclarations(fullPath);
         } else if (entry.name.endsWith('.cfg')) {
-          try {
-            const content = fs.readFileSync(fullPath, 'utf-8');
-            const uri = 'file://' + fullPath;
-            const lines = content.split('\n');
-            for (let lineNo = 0; lineNo < lines.length; lineNo++) {
-              STAT_MODPARAM_RE.lastIndex = 0;
-              const match = STAT_MODPARAM_RE.exec(lines[lineNo]);
-              if (match) {
-                this.declaredStats.set(match[1], { name: match[1], uri, line: lineNo });
-              }
-            }
-          } catch {
-            // Can't read file
-          }
+          this.collectCfgFile(fullPath);
         }
       }
     } catch {
@@ -150,6 +212,57 @@ export class WorkspaceIndexer {
     }
   }
 
+  private collectCfgFile(fullPath: string): void {
+    try {
+      const content = fs.readFileSync(fullPath, 'utf-8');
+      const uri = 'file://' + fullPath;
+      const decls: CfgFileDeclarations = { stats: [], htables: [], modules: [], callbacks: [] };
+      const lines = content.split('\n');
+      for (let lineNo = 0; lineNo < lines.length; lineNo++) {
+        STAT_MODPARAM_RE.lastIndex = 0;
+        const match = STAT_MODPARAM_RE.exec(lines[lineNo]);
+        if (match) {
+          const startColumn = match.index + match[0].lastIndexOf(match[1]);
+          decls.stats.push({
+            name: match[1], uri, line: lineNo, startColumn, endColumn: startColumn + match[1].length,
+          });
+        }
+        const htable = parseHtableDeclaration(lines[lineNo], uri, lineNo);
+        if (htable) {
+          decls.htables.push(htable);
+        }
+        const loadMatch = LOADMODULE_RE.exec(lines[lineNo]);
+        if (loadMatch) {
+          const name = path.basename(loadMatch[1]).replace(/\.so$/, '');
+          decls.modules.push({ name, path: loadMatch[1], uri, line: lineNo });
+        }
+        decls.callbacks.push(...parseCfgCallbacks(lines[lineNo], uri, lineNo));
+      }
+      this.cfgFiles.set(uri, decls);
+      this.rebuildCfgDeclarations();
+    } catch {
+      // Can't read file
+    }
+  }
+
+  private removeCfgDeclarations(uri: string): void {
+    if (this.cfgFiles.delete(uri)) this.rebuildCfgDeclarations();
+  }
+
+  /** Merge the per-file declarations; a later file wins when two declare the same name. */
+  private rebuildCfgDeclarations(): void {
+    this.declaredStats = new Map();
+    this.declaredHtables = new Map();
+    this.loadedModules = new Map();
+    this.cfgCallbacks = [];
+    for (const decls of this.cfgFiles.values()) {
+      for (const stat of decls.stats) this.declaredStats.set(stat.name, stat);
+      for (const htable of decls.htables) this.declaredHtables.set(htable.name, htable);
+      for (const mod of decls.modules) this.loadedModules.set(mod.name, mod);
+      this.cfgCallbacks.push(...decls.callbacks);
+    }
+  }
+
   private collectPyFiles(dir: string, results: string[]): void {
     try {
       const entries = fs.readdirSync(dir, { withFileTypes: true });
@@ -172,3 +285,40 @@ export class WorkspaceIndexer {
     }
   }
 }
+
+/**
+ * Event callbacks named on a cfg line: `modparam("htable", "event_callback", "fn")`
+ * and the `route=` of `modparam("rtimer", "exec", "timer=t1;route=fn")`.
+ */
+export function parseCfgCallbacks(line: string, uri: string, lineNo: number): CfgCallbackDeclaration[] {
+  if (/^\s*#/.test(line)) return [];
+  const decl = (name: string, module: string, param: string, startColumn: number): CfgCallbackDeclaration => ({
+    name, module, param, uri, line: lineNo, startColumn, endColumn: startColumn + name.length,
+  });
+
+  const eventMatch = EVENT_CALLBACK_RE.exec(line);
+  if (eventMatch) {
+    const valueStart = eventMatch.index + eventMatch[0].lastIndexOf(eventMatch[2]);
+    return [decl(eventMatch[2], eventMatch[1], 'event_callback', valueStart)];
+  }
+
+  const rtimerMatch = RTIMER_EXEC_RE.exec(line);
+  if (rtimerMatch) {
+    const valueStart = rtimerMatch.index + rtimerMatch[0].lastIndexOf(rtimerMatch[1]);
+    const route = /(^|;)\s*route\s*=\s*([^;\s]+)/.exec(rtimerMatch[1]);
+    if (route) {
+      const nameStart = route.index + route[0].length - route[2].length;
+      return [decl(route[2], 'rtimer', 'exec', valueStart + nameStart)];
+    }
+  }
+  return [];
+}
+
+/** The table defined on a cfg line: `modparam("htable", "htable", "ipban=>size=8;")`. */
+export function parseHtableDeclaration(line: string, uri: string, lineNo: number): HtableDeclaration | null {
+  if (/^\s*#/.test(line)) return null;
+  const match = HTABLE_MODPARAM_RE.exec(line);
+  if (!match) return null;
+  const startColumn = match.index + match[0].lastIndexOf(match[1]);
+  return { name: match[1], uri, line: lineNo, startColumn, endColumn: startColumn + match[1].length };
+}
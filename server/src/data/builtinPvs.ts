@@ -1,92 +1,281 @@
-export interface BuiltinPvDef {
+import type { VersionedDef } from '../core/kamailioVersion';
+import type { RouteType } from './routeTypes';
+
+export interface BuiltinPvDef extends VersionedDef {
   pvClass: string;
   template: string;
   description: string;
   category: string;
+  /** Kamailio module exporting the PV, or null for the core. */
+  module: string | null;
   isBare: boolean;
   isReadOnly: boolean;
+  /** Inner name is `name=>key`; the valid inner names apply to the key. */
+  isKeyed?: boolean;
+  /** Route types where the PV has a meaningful value; valid everywhere when absent. */
+  validRoutes?: RouteType[];
+}
+
+export interface BuiltinPvInnerName {
+  name: string;
+  description: string;
+  /** Matches inner names built from the template, e.g. `[row,col]`. */
+  pattern?: RegExp;
+  validRoutes?: RouteType[];
 }
 
+/** Routes where a SIP reply is being processed. */
+const REPLY_ROUTES: RouteType[] = ['reply', 'onreply'];
+/** Routes where the transaction holds a received or local reply. */
+const TM_REPLY_ROUTES: RouteType[] = ['failure', 'onreply', 'branch_failure'];
+/** The http_async_client callback, which registers as a resumed transaction. */
+const HTTP_REPLY_ROUTES: RouteType[] = ['failure'];
+
 export const BUILTIN_PVS: BuiltinPvDef[] = [
   // SIP URI
-  { pvClass: 'ru', template: '$ru', description: 'Request URI', category: 'sip_uri', isBare: true, isReadOnly: false },
-  { pvClass: 'rU', template: '$rU', description: 'Username in Request URI', category: 'sip_uri', isBare: true, isReadOnly: false },
-  { pvClass: 'rd', template: '$rd', description: 'Domain in Request URI', category: 'sip_uri', isBare: true, isReadOnly: false },
-  { pvClass: 'rp', template: '$rp', description: 'Port in Request URI', category: 'sip_uri', isBare: true, isReadOnly: true },
-  { pvClass: 'rP', template: '$rP', description: 'Transport protocol of Request URI', category: 'sip_uri', isBare: true, isReadOnly: true },
+  { pvClass: 'ru', template: '$ru', description: 'Request URI', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: false },
+  { pvClass: 'rU', template: '$rU', description: 'Username in Request URI', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: false },
+  { pvClass: 'rd', template: '$rd', description: 'Domain in Request URI', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: false },
+  { pvClass: 'rp', template: '$rp', description: 'Port in Request URI', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: false },
+  { pvClass: 'rP', template: '$rP', description: 'Transport protocol of Request URI', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'rz', template: '$rz', description: 'Scheme of Request URI (sip, sips, tel, ...)', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'ou', template: '$ou', description: 'Original Request URI, as received', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'oU', template: '$oU', description: 'Username in the original Request URI', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'od', template: '$od', description: 'Domain in the original Request URI', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'op', template: '$op', description: 'Port in the original Request URI', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'oP', template: '$oP', description: 'Transport protocol of the original Request URI', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
   // From header
-  { pvClass: 'fu', template: '$fu', description: 'From URI', category: 'sip_uri', isBare: true, isReadOnly: true },
-  { pvClass: 'fU', template: '$fU', description: 'From URI username', category: 'sip_uri', isBare: true, isReadOnly: true },
-  { pvClass: 'fd', template: '$fd', description: 'From URI domain', category: 'sip_uri', isBare: true, isReadOnly: true },
-  { pvClass: 'fn', template: '$fn', description: 'From display name', category: 'sip_uri', isBare: true, isReadOnly: true },
-  { pvClass: 'ft', template: '$ft', description: 'From tag', category: 'sip_uri', isBare: true, isReadOnly: true },
+  { pvClass: 'fu', template: '$fu', description: 'From URI', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'fU', template: '$fU', description: 'From URI username', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'fd', template: '$fd', description: 'From URI domain', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'fn', template: '$fn', description: 'From display name', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'ft', template: '$ft', description: 'From tag', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
   // To header
-  { pvClass: 'tu', template: '$tu', description: 'To URI', category: 'sip_uri', isBare: true, isReadOnly: true },
-  { pvClass: 'tU', template: '$tU', description: 'To URI username', category: 'sip_uri', isBare: true, isReadOnly: true },
-  { pvClass: 'td', template: '$td', description: 'To URI domain', category: 'sip_uri', isBare: true, isReadOnly: true },
-  { pvClass: 'tn', template: '$tn', description: 'To display name', category: 'sip_uri', isBare: true, isReadOnly: true },
-  { pvClass: 'tt', template: '$tt', description: 'To tag', category: 'sip_uri', isBare: true, isReadOnly: true },
+  { pvClass: 'tu', template: '$tu', description: 'To URI', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'tU', template: '$tU', description: 'To URI username', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'td', template: '$td', description: 'To URI domain', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'tn', template: '$tn', description: 'To display name', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'tt', template: '$tt', description: 'To tag', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  // Identity headers
+  { pvClass: 'ai', template: '$ai', description: 'URI in the P-Asserted-Identity header', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'pu', template: '$pu', description: 'URI in the P-Preferred-Identity header', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'pU', template: '$pU', description: 'Username in the P-Preferred-Identity URI', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'pd', template: '$pd', description: 'Domain in the P-Preferred-Identity URI', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'pn', template: '$pn', description: 'Display name in the P-Preferred-Identity header', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 're', template: '$re', description: 'URI in the Remote-Party-ID header', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'rt', template: '$rt', description: 'URI in the Refer-To header', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'di', template: '$di', description: 'URI in the Diversion header', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'dir', template: '$dir', description: 'Reason parameter of the Diversion header', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'dip', template: '$dip', description: 'Privacy parameter of the Diversion header', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  // Authentication credentials
+  { pvClass: 'adu', template: '$adu', description: 'Digest URI from the Authorization or Proxy-Authorization header', category: 'other', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'aa', template: '$aa', description: 'Digest algorithm from the credentials', category: 'other', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'ar', template: '$ar', description: 'Realm from the credentials', category: 'other', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'au', template: '$au', description: 'User part of the credentials username', category: 'other', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'ad', template: '$ad', description: 'Domain part of the credentials username', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'aU', template: '$aU', description: 'Whole username from the credentials', category: 'other', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'Au', template: '$Au', description: 'Username for accounting, from the credentials or the From URI', category: 'other', module: 'pv', isBare: true, isReadOnly: true },
   // Call/Message
-  { pvClass: 'ci', template: '$ci', description: 'Call-ID header value', category: 'message', isBare: true, isReadOnly: true },
-  { pvClass: 'cs', template: '$cs', description: 'CSeq number', category: 'message', isBare: true, isReadOnly: true },
-  { pvClass: 'rm', template: '$rm', description: 'SIP request method', category: 'message', isBare: true, isReadOnly: true },
-  { pvClass: 'rs', template: '$rs', description: 'SIP reply status code', category: 'message', isBare: true, isReadOnly: true },
-  { pvClass: 'rr', template: '$rr', description: 'SIP reply reason phrase', category: 'message', isBare: true, isReadOnly: true },
-  { pvClass: 'rb', template: '$rb', description: 'SIP message body', category: 'message', isBare: true, isReadOnly: true },
-  { pvClass: 'ml', template: '$ml', description: 'SIP message length', category: 'message', isBare: true, isReadOnly: true },
-  { pvClass: 'mb', template: '$mb', description: 'SIP message buffer', category: 'message', isBare: true, isReadOnly: true },
-  { pvClass: 'ct', template: '$ct', description: 'Contact header', category: 'message', isBare: true, isReadOnly: true },
-  { pvClass: 'cT', template: '$cT', description: 'Content-Type header', category: 'message', isBare: true, isReadOnly: true },
-  { pvClass: 'ua', template: '$ua', description: 'User-Agent header value', category: 'message', isBare: true, isReadOnly: true },
+  { pvClass: 'ci', template: '$ci', description: 'Call-ID header value', category: 'message', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'cs', template: '$cs', description: 'CSeq number', category: 'message', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'cl', template: '$cl', description: 'Content-Length header value', category: 'message', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'rm', template: '$rm', description: 'SIP request method', category: 'message', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'rmid', template: '$rmid', description: 'Internal id of the SIP request method', category: 'message', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'rs', template: '$rs', description: 'SIP reply status code', category: 'message', module: 'pv', isBare: true, isReadOnly: true, validRoutes: REPLY_ROUTES },
+  { pvClass: 'rr', template: '$rr', description: 'SIP reply reason phrase', category: 'message', module: 'pv', isBare: true, isReadOnly: true, validRoutes: REPLY_ROUTES },
+  { pvClass: 'rv', template: '$rv', description: 'SIP message version (SIP/2.0)', category: 'message', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'rb', template: '$rb', description: 'SIP message body', category: 'message', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'bs', template: '$bs', description: 'SIP message body size', category: 'message', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'ml', template: '$ml', description: 'SIP message length', category: 'message', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'mb', template: '$mb', description: 'SIP message buffer', category: 'message', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'mbu', template: '$mbu', description: 'SIP message buffer with the changes made so far applied', category: 'message', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'mi', template: '$mi', description: 'Internal id of the SIP message', category: 'message', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'mt', template: '$mt', description: 'SIP message type: 1 for requests, 2 for replies', category: 'message', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'mf', template: '$mf', description: 'Message flags as a decimal number', category: 'message', module: 'pv', isBare: true, isReadOnly: false },
+  { pvClass: 'mF', template: '$mF', description: 'Message flags as a hexadecimal number', category: 'message', module: 'pv', isBare: true, isReadOnly: false },
+  { pvClass: 'sf', template: '$sf', description: 'Script flags as a decimal number', category: 'message', module: 'pv', isBare: true, isReadOnly: false },
+  { pvClass: 'sF', template: '$sF', description: 'Script flags as a hexadecimal number', category: 'message', module: 'pv', isBare: true, isReadOnly: false },
+  { pvClass: 'ct', template: '$ct', description: 'Contact header', category: 'message', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'cT', template: '$cT', description: 'Content-Type header', category: 'message', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'ua', template: '$ua', description: 'User-Agent header value', category: 'message', module: 'pv', isBare: true, isReadOnly: true },
   // Network
-  { pvClass: 'si', template: '$si', description: 'Source IP address', category: 'network', isBare: true, isReadOnly: true },
-  { pvClass: 'sp', template: '$sp', description: 'Source port', category: 'network', isBare: true, isReadOnly: true },
-  { pvClass: 'Ri', template: '$Ri', description: 'Received IP address (local)', category: 'network', isBare: true, isReadOnly: true },
-  { pvClass: 'Rp', template: '$Rp', description: 'Received port (local)', category: 'network', isBare: true, isReadOnly: true },
-  { pvClass: 'pr', template: '$pr', description: 'Protocol (UDP, TCP, TLS, etc.)', category: 'network', isBare: true, isReadOnly: true },
+  { pvClass: 'si', template: '$si', description: 'Source IP address', category: 'network', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'sp', template: '$sp', description: 'Source port', category: 'network', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'su', template: '$su', description: 'Source address as a SIP URI (sip:ip:port;transport=proto)', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'sut', template: '$sut', description: 'Source address as a SIP URI, always with the transport', category: 'network', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'Ri', template: '$Ri', description: 'Received IP address (local)', category: 'network', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'Rp', template: '$Rp', description: 'Received port (local)', category: 'network', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'Rn', template: '$Rn', description: 'Name of the socket the message was received on', category: 'network', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'Ru', template: '$Ru', description: 'Receiving socket as a SIP URI', category: 'network', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'Rut', template: '$Rut', description: 'Receiving socket as a SIP URI, always with the transport', category: 'network', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'RAi', template: '$RAi', description: 'Advertised IP address of the receiving socket', category: 'network', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'RAp', template: '$RAp', description: 'Advertised port of the receiving socket', category: 'network', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'RAu', template: '$RAu', description: 'Advertised address of the receiving socket as a SIP URI', category: 'network', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'RAut', template: '$RAut', description: 'Advertised address of the receiving socket as a SIP URI, always with the transport', category: 'network', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'snd', template: '$snd(name)', description: 'Address and buffer of the message being sent', category: 'network', module: 'pv', isBare: false, isReadOnly: true, validRoutes: ['onsend'] },
+  { pvClass: 'sndfrom', template: '$sndfrom(name)', description: 'Local address the message is sent from', category: 'network', module: 'pv', isBare: false, isReadOnly: true, validRoutes: ['onsend', 'event'] },
+  { pvClass: 'sndto', template: '$sndto(name)', description: 'Remote address the message is sent to', category: 'network', module: 'pv', isBare: false, isReadOnly: true, validRoutes: ['onsend', 'event'] },
+  { pvClass: 'rcv', template: '$rcv(name)', description: 'Received data, in event_route[core:msg-received]', category: 'network', module: 'pv', isBare: false, isReadOnly: true, validRoutes: ['event'] },
+  { pvClass: 'pr', template: '$pr', description: 'Protocol (UDP, TCP, TLS, etc.)', category: 'network', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'proto', template: '$proto', description: 'Protocol (UDP, TCP, TLS, etc.)', category: 'network', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'conid', template: '$conid', description: 'Id of the TCP/TLS connection the message arrived on', category: 'network', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'fs', template: '$fs', description: 'Forced sending socket (proto:ip:port)', category: 'network', module: 'pv', isBare: true, isReadOnly: false },
+  { pvClass: 'fsn', template: '$fsn', description: 'Name of the forced sending socket', category: 'network', module: 'pv', isBare: true, isReadOnly: false },
+  { pvClass: 'K', template: '$K(name)', description: 'Numeric value of a transport or address family constant', category: 'network', module: 'pv', isBare: false, isReadOnly: true },
   // Destination
-  { pvClass: 'du', template: '$du', description: 'Destination URI', category: 'sip_uri', isBare: true, isReadOnly: false },
+  { pvClass: 'du', template: '$du', description: 'Destination URI', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: false },
+  { pvClass: 'dd', template: '$dd', description: 'Domain of the destination URI', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'dp', template: '$dp', description: 'Port of the destination URI', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'dP', template: '$dP', description: 'Transport protocol of the destination URI', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'ds', template: '$ds', description: 'Destination set', category: 'sip_uri', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'nh', template: '$nh(name)', description: 'Next hop address: the destination URI if set, otherwise the Request URI', category: 'sip_uri', module: 'pv', isBare: false, isReadOnly: true },
   // Branch
-  { pvClass: 'bf', template: '$bf', description: 'Branch flags', category: 'other', isBare: true, isReadOnly: false },
-  { pvClass: 'br', template: '$br', description: 'Branch', category: 'other', isBare: true, isReadOnly: false },
+  { pvClass: 'bf', template: '$bf', description: 'Branch flags', category: 'other', module: 'pv', isBare: true, isReadOnly: false },
+  { pvClass: 'bF', template: '$bF', description: 'Branch flags as a hexadecimal number', category: 'other', module: 'pv', isBare: true, isReadOnly: false },
+  { pvClass: 'br', template: '$br', description: 'Branch', category: 'other', module: 'pv', isBare: true, isReadOnly: false },
+  { pvClass: 'bR', template: '$bR', description: 'All branches, comma separated', category: 'other', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'branch', template: '$branch(name)', description: 'Attribute of the branch selected by index', category: 'other', module: 'pv', isBare: false, isReadOnly: false },
   // Time
-  { pvClass: 'Ts', template: '$Ts', description: 'Current timestamp (unix epoch)', category: 'time', isBare: true, isReadOnly: true },
-  { pvClass: 'Tf', template: '$Tf', description: 'Current time formatted', category: 'time', isBare: true, isReadOnly: true },
+  { pvClass: 'Ts', template: '$Ts', description: 'Current timestamp (unix epoch)', category: 'time', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'Tf', template: '$Tf', description: 'Current time formatted', category: 'time', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'TF', template: '$TF', description: 'Current time formatted, not cached per message', category: 'time', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'TS', template: '$TS', description: 'Timestamp when Kamailio started', category: 'time', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'Tb', template: '$Tb', description: 'Timestamp of the system boot', category: 'time', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'time', template: '$time(name)', description: 'Broken-down local time', category: 'time', module: 'pv', isBare: false, isReadOnly: true },
+  { pvClass: 'utime', template: '$utime(name)', description: 'Broken-down UTC time', category: 'time', module: 'pv', isBare: false, isReadOnly: true },
+  { pvClass: 'timef', template: '$timef(format)', description: 'Current time formatted with a strftime() format', category: 'time', module: 'pv', isBare: false, isReadOnly: true },
   // Return code
-  { pvClass: 'rc', template: '$rc', description: 'Return code of last function', category: 'other', isBare: true, isReadOnly: true },
-  { pvClass: 'retcode', template: '$retcode', description: 'Return code of last function', category: 'other', isBare: true, isReadOnly: true },
+  { pvClass: 'rc', template: '$rc', description: 'Return code of last function', category: 'other', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'retcode', template: '$retcode', description: 'Return code of last function', category: 'other', module: 'pv', isBare: true, isReadOnly: true },
+  // Process and configuration
+  { pvClass: 'pp', template: '$pp', description: 'Process id', category: 'other', module: 'pv', isBare: true, isReadOnly: true },
+  { pvClass: 'cfg', template: '$cfg(name)', description: 'Position in the configuration file', category: 'other', module: 'pv', isBare: false, isReadOnly: true },
+  { pvClass: 'env', template: '$env(NAME)', description: 'Environment variable', category: 'other', module: 'pv', isBare: false, isReadOnly: true },
+  { pvClass: 'def', template: '$def(NAME)', description: 'Value of a #!define in the configuration', category: 'other', module: 'pv', isBare: false, isReadOnly: true },
+  { pvClass: 'sel', template: '$sel(select)', description: 'Value of a select expression, e.g. $sel(via[1].host)', category: 'other', module: null, isBare: false, isReadOnly: true },
+  { pvClass: 'stat', template: '$stat(name)', description: 'Value of a statistic', category: 'other', module: 'kex', isBare: false, isReadOnly: true },
   // Parenthesized (class) PVs — these are templates, not bare
-  { pvClass: 'var', template: '$var(name)', description: 'Script private variable', category: 'script_var', isBare: false, isReadOnly: false },
-  { pvClass: 'avp', template: '$avp(name)', description: 'Attribute-Value Pair', category: 'avp', isBare: false, isReadOnly: false },
-  { pvClass: 'xavp', template: '$xavp(name)', description: 'Extended AVP (supports nesting with =>)', category: 'avp', isBare: false, isReadOnly: false },
-  { pvClass: 'xavu', template: '$xavu(name)', description: 'Extended AVP (unique, single value)', category: 'avp', isBare: false, isReadOnly: false },
-  { pvClass: 'xavi', template: '$xavi(name)', description: 'Extended AVP (case insensitive)', category: 'avp', isBare: false, isReadOnly: false },
-  { pvClass: 'shv', template: '$shv(name)', description: 'Shared memory variable', category: 'shared_var', isBare: false, isReadOnly: false },
-  { pvClass: 'hdr', template: '$hdr(name)', description: 'SIP header value', category: 'sip_header', isBare: false, isReadOnly: true },
-  { pvClass: 'hdrc', template: '$hdrc(name)', description: 'SIP header count', category: 'sip_header', isBare: false, isReadOnly: true },
-  { pvClass: 'sht', template: '$sht(table=>key)', description: 'Hash table entry (htable module)', category: 'htable', isBare: false, isReadOnly: false },
-  { pvClass: 'dlg_var', template: '$dlg_var(name)', description: 'Dialog variable', category: 'dialog_var', isBare: false, isReadOnly: false },
+  { pvClass: 'var', template: '$var(name)', description: 'Script private variable', category: 'script_var', module: 'pv', isBare: false, isReadOnly: false },
+  { pvClass: 'vz', template: '$vz(name)', description: 'Script private variable, initialized to 0', category: 'script_var', module: 'pv', isBare: false, isReadOnly: false },
+  { pvClass: 'vn', template: '$vn(name)', description: 'Script private variable, initialized to $null', category: 'script_var', module: 'pv', isBare: false, isReadOnly: false },
+  { pvClass: 'avp', template: '$avp(name)', description: 'Attribute-Value Pair', category: 'avp', module: 'pv', isBare: false, isReadOnly: false },
+  { pvClass: 'xavp', template: '$xavp(name)', description: 'Extended AVP (supports nesting with =>)', category: 'avp', module: 'pv', isBare: false, isReadOnly: false },
+  { pvClass: 'xavu', template: '$xavu(name)', description: 'Extended AVP (unique, single value)', category: 'avp', module: 'pv', isBare: false, isReadOnly: false, since: '5.4' },
+  { pvClass: 'xavi', template: '$xavi(name)', description: 'Extended AVP (case insensitive)', category: 'avp', module: 'pv', isBare: false, isReadOnly: false, since: '5.5' },
+  { pvClass: 'cnt', template: '$cnt(pv)', description: 'Number of values of an AVP or XAVP', category: 'other', module: 'pv', isBare: false, isReadOnly: true },
+  { pvClass: 'shv', template: '$shv(name)', description: 'Shared memory variable', category: 'shared_var', module: 'pv', isBare: false, isReadOnly: false },
+  { pvClass: 'hdr', template: '$hdr(name)', description: 'SIP header value', category: 'sip_header', module: 'pv', isBare: false, isReadOnly: true },
+  { pvClass: 'hdrc', template: '$hdrc(name)', description: 'SIP header count', category: 'sip_header', module: 'pv', isBare: false, isReadOnly: true },
+  { pvClass: 'hfl', template: '$hfl(name)', description: 'SIP header value, one body per comma separated entry of Via, Record-Route, Route and Contact', category: 'sip_header', module: 'pv', isBare: false, isReadOnly: true, since: '5.5' },
+  { pvClass: 'hflc', template: '$hflc(name)', description: 'Number of bodies of a header, counting comma separated entries', category: 'sip_header', module: 'pv', isBare: false, isReadOnly: true, since: '5.5' },
+  // htable
+  { pvClass: 'sht', template: '$sht(table=>key)', description: 'Hash table entry (htable module)', category: 'htable', module: 'htable', isBare: false, isReadOnly: false },
+  { pvClass: 'shtex', template: '$shtex(table=>key)', description: 'Expire time of a hash table entry', category: 'htable', module: 'htable', isBare: false, isReadOnly: false },
+  { pvClass: 'shtcn', template: '$shtcn(table=>regexp)', description: 'Number of hash table items whose name matches', category: 'htable', module: 'htable', isBare: false, isReadOnly: true },
+  { pvClass: 'shtcv', template: '$shtcv(table=>regexp)', description: 'Number of hash table items whose value matches', category: 'htable', module: 'htable', isBare: false, isReadOnly: true },
+  { pvClass: 'shtinc', template: '$shtinc(table=>key)', description: 'Increment a hash table entry and return the new value', category: 'htable', module: 'htable', isBare: false, isReadOnly: true },
+  { pvClass: 'shtdec', template: '$shtdec(table=>key)', description: 'Decrement a hash table entry and return the new value', category: 'htable', module: 'htable', isBare: false, isReadOnly: true },
+  { pvClass: 'shtitkey', template: '$shtitkey(iterator)', description: 'Key of the current hash table iterator item', category: 'htable', module: 'htable', isBare: false, isReadOnly: true },
+  { pvClass: 'shtitval', template: '$shtitval(iterator)', description: 'Value of the current hash table iterator item', category: 'htable', module: 'htable', isBare: false, isReadOnly: true },
+  // Dialog
+  { pvClass: 'dlg_var', template: '$dlg_var(name)', description: 'Dialog variable', category: 'dialog_var', module: 'dialog', isBare: false, isReadOnly: false },
+  { pvClass: 'dlg', template: '$dlg(name)', description: 'Attribute of the current dialog', category: 'dialog_var', module: 'dialog', isBare: false, isReadOnly: true },
+  { pvClass: 'dlg_ctx', template: '$dlg_ctx(name)', description: 'Dialog context of the current message', category: 'dialog_var', module: 'dialog', isBare: false, isReadOnly: false },
   // Transaction
-  { pvClass: 'T', template: '$T(name)', description: 'Transaction pseudo-variable (e.g., reply_code, reply_reason)', category: 'transaction', isBare: false, isReadOnly: true },
-  { pvClass: 'TV', template: '$TV(name)', description: 'Timestamp value (s=seconds, u=microseconds, sn/un=with nanoseconds)', category: 'time', isBare: false, isReadOnly: true },
+  { pvClass: 'T', template: '$T(name)', description: 'Transaction pseudo-variable (e.g., reply_code, reply_reason)', category: 'transaction', module: 'tmx', isBare: false, isReadOnly: true },
+  { pvClass: 'T_branch_idx', template: '$T_branch_idx', description: 'Index of the branch being processed', category: 'transaction', module: 'tmx', isBare: true, isReadOnly: true },
+  { pvClass: 'T_reply_code', template: '$T_reply_code', description: 'Transaction reply status code', category: 'transaction', module: 'tmx', isBare: true, isReadOnly: true, validRoutes: TM_REPLY_ROUTES },
+  { pvClass: 'T_reply_reason', template: '$T_reply_reason', description: 'Transaction reply reason phrase', category: 'transaction', module: 'tmx', isBare: true, isReadOnly: true, validRoutes: TM_REPLY_ROUTES },
+  { pvClass: 'T_req', template: '$T_req(pv)', description: 'A PV evaluated against the request of the transaction', category: 'transaction', module: 'tmx', isBare: false, isReadOnly: true },
+  { pvClass: 'T_rpl', template: '$T_rpl(pv)', description: 'A PV evaluated against the reply of the transaction', category: 'transaction', module: 'tmx', isBare: false, isReadOnly: true, validRoutes: TM_REPLY_ROUTES },
+  { pvClass: 'T_inv', template: '$T_inv(pv)', description: 'A PV evaluated against the INVITE a CANCEL matches', category: 'transaction', module: 'tmx', isBare: false, isReadOnly: true },
+  { pvClass: 'ltt', template: '$ltt(name)', description: 'Local To tag Kamailio uses when replying', category: 'other', module: 'pv', isBare: false, isReadOnly: true },
+  { pvClass: 'TV', template: '$TV(name)', description: 'Timestamp value (s=seconds, u=microseconds, sn/un=with nanoseconds)', category: 'time', module: 'pv', isBare: false, isReadOnly: true },
+  // Registrar
+  { pvClass: 'ulc', template: '$ulc(profile=>key)', description: 'Contact attribute loaded by reg_fetch_contacts()', category: 'other', module: 'registrar', isBare: false, isReadOnly: true, isKeyed: true },
+  // Database queries
+  { pvClass: 'dbr', template: '$dbr(result=>key)', description: 'Result of a sql_query()', category: 'other', module: 'sqlops', isBare: false, isReadOnly: true, isKeyed: true },
+  // UAC
+  { pvClass: 'uac_req', template: '$uac_req(name)', description: 'Request built for uac_req_send()', category: 'other', module: 'uac', isBare: false, isReadOnly: false },
+  // HTTP async client
+  { pvClass: 'http_req', template: '$http_req(name)', description: 'Attribute of the next http_async_query() request', category: 'other', module: 'http_async_client', isBare: false, isReadOnly: false },
+  { pvClass: 'http_ok', template: '$http_ok', description: '1 if the HTTP request succeeded, 0 otherwise', category: 'other', module: 'http_async_client', isBare: true, isReadOnly: true, validRoutes: HTTP_REPLY_ROUTES },
+  { pvClass: 'http_err', template: '$http_err', description: 'Error string of a failed HTTP request', category: 'other', module: 'http_async_client', isBare: true, isReadOnly: true, validRoutes: HTTP_REPLY_ROUTES },
+  { pvClass: 'http_rs', template: '$http_rs', description: 'HTTP reply status code', category: 'other', module: 'http_async_client', isBare: true, isReadOnly: true, validRoutes: HTTP_REPLY_ROUTES },
+  { pvClass: 'http_rr', template: '$http_rr', description: 'HTTP reply reason phrase', category: 'other', module: 'http_async_client', isBare: true, isReadOnly: true, validRoutes: HTTP_REPLY_ROUTES },
+  { pvClass: 'http_hdr', template: '$http_hdr(name)', description: 'HTTP reply header value', category: 'other', module: 'http_async_client', isBare: false, isReadOnly: true, validRoutes: HTTP_REPLY_ROUTES },
+  { pvClass: 'http_mb', template: '$http_mb', description: 'HTTP reply buffer', category: 'other', module: 'http_async_client', isBare: true, isReadOnly: true, validRoutes: HTTP_REPLY_ROUTES },
+  { pvClass: 'http_ml', template: '$http_ml', description: 'HTTP reply buffer length', category: 'other', module: 'http_async_client', isBare: true, isReadOnly: true, validRoutes: HTTP_REPLY_ROUTES },
+  { pvClass: 'http_rb', template: '$http_rb', description: 'HTTP reply body', category: 'other', module: 'http_async_client', isBare: true, isReadOnly: true, validRoutes: HTTP_REPLY_ROUTES },
+  { pvClass: 'http_bs', template: '$http_bs', description: 'HTTP reply body size', category: 'other', module: 'http_async_client', isBare: true, isReadOnly: true, validRoutes: HTTP_REPLY_ROUTES },
+  { pvClass: 'http_time', template: '$http_time(name)', description: 'Timing of the HTTP request', category: 'other', module: 'http_async_client', isBare: false, isReadOnly: true, validRoutes: HTTP_REPLY_ROUTES },
+  // MSRP
+  { pvClass: 'msrp', template: '$msrp(name)', description: 'Attribute of the MSRP frame, in event_route[msrp:frame-in]', category: 'other', module: 'msrp', isBare: false, isReadOnly: true, validRoutes: ['event'] },
 ];
 
 export const BUILTIN_PV_CLASSES = new Set(BUILTIN_PVS.map((pv) => pv.pvClass));
 
-/** Known inner names for builtin parenthesized PV classes with fixed options. */
-export const BUILTIN_PV_INNER_NAMES: Map<string, Array<{ name: string; description: string }>> = new Map([
+const SOCKET_INNER_NAMES: BuiltinPvInnerName[] = [
+  { name: 'ip', description: 'IP address' },
+  { name: 'port', description: 'Port' },
+  { name: 'af', description: 'Address family (inet or inet6)' },
+  { name: 'proto', description: 'Transport protocol as a number' },
+  { name: 'sproto', description: 'Transport protocol as a string (udp, tcp, tls, sctp, ws, wss)' },
+  { name: 'buf', description: 'Outgoing message buffer' },
+  { name: 'len', description: 'Length of the outgoing message buffer' },
+];
+
+const TIME_INNER_NAMES: BuiltinPvInnerName[] = [
+  { name: 'sec', description: 'Seconds (0-60)' },
+  { name: 'min', description: 'Minutes (0-59)' },
+  { name: 'hour', description: 'Hours (0-23)' },
+  { name: 'mday', description: 'Day of the month (1-31)' },
+  { name: 'mon', description: 'Month (1-12)' },
+  { name: 'year', description: 'Year (e.g. 2024)' },
+  { name: 'wday', description: 'Day of the week (1-7, Sunday is 1)' },
+  { name: 'yday', description: 'Day of the year (1-366)' },
+  { name: 'isdst', description: 'Daylight saving time flag' },
+];
+
+/**
+ * Known inner names for builtin parenthesized PV classes with fixed options.
+ * For keyed classes they are the names allowed after `=>`.
+ */
+export const BUILTIN_PV_INNER_NAMES: Map<string, BuiltinPvInnerName[]> = new Map([
   ['T', [
     { name: 'id_index', description: 'Internal transaction index ($null if no transaction)' },
     { name: 'id_label', description: 'Internal transaction label ($null if no transaction)' },
     { name: 'id_index_n', description: 'Internal transaction index (creates transaction if needed)' },
     { name: 'id_label_n', description: 'Internal transaction label (creates transaction if needed)' },
-    { name: 'reply_code', description: 'Transaction reply status code' },
-    { name: 'reply_reason', description: 'Transaction reply reason phrase' },
+    { name: 'reply_code', description: 'Transaction reply status code', validRoutes: TM_REPLY_ROUTES },
+    { name: 'reply_reason', description: 'Transaction reply reason phrase', validRoutes: TM_REPLY_ROUTES },
     { name: 'reply_last', description: 'Most recently received response code' },
     { name: 'reply_type', description: '1 for locally generated replies, 0 otherwise' },
     { name: 'branch_index', description: 'Current branch index' },
     { name: 'ruid', description: 'Internal location ruid field for current branch' },
   ]],
+  ['snd', [
+    { name: 'ip', description: 'Destination IP address' },
+    { name: 'port', description: 'Destination port' },
+    { name: 'af', description: 'Address family (inet or inet6)' },
+    { name: 'proto', description: 'Transport protocol as a number' },
+    { name: 'sproto', description: 'Transport protocol as a string (udp, tcp, tls, sctp, ws, wss)' },
+    { name: 'buf', description: 'Outgoing message buffer' },
+    { name: 'len', description: 'Length of the outgoing message buffer' },
+  ]],
+  ['sndfrom', SOCKET_INNER_NAMES],
+  ['sndto', SOCKET_INNER_NAMES],
+  ['rcv', [
+    { name: 'buf', description: 'Received data' },
+    { name: 'len', description: 'Length of the received data' },
+    { name: 'srcip', description: 'Source IP address' },
+    { name: 'srcport', description: 'Source port' },
+    { name: 'rcvip', description: 'Local IP address the data arrived on' },
+    { name: 'rcvport', description: 'Local port the data arrived on' },
+    { name: 'af', description: 'Address family (inet or inet6)' },
+    { name: 'proto', description: 'Transport protocol as a number' },
+    { name: 'sproto', description: 'Transport protocol as a string' },
+  ]],
   ['TV', [
     { name: 's', description: 'Seconds since epoch (cached per SIP message)' },
     { name: 'u', description: 'Microseconds since epoch (cached per SIP message)' },
@@ -95,8 +284,190 @@ export const BUILTIN_PV_INNER_NAMES: Map<string, Array<{ name: string; descripti
     { name: 'Sn', description: 'String seconds.microseconds at current moment (not cached)' },
     { name: 'Sm', description: 'String monotonic counter (always increases)' },
   ]],
+  ['time', TIME_INNER_NAMES],
+  ['utime', TIME_INNER_NAMES],
+  ['nh', [
+    { name: 'u', description: 'Next hop URI' },
+    { name: 'U', description: 'Username of the next hop URI' },
+    { name: 'd', description: 'Domain of the next hop URI' },
+    { name: 'p', description: 'Port of the next hop URI' },
+    { name: 'P', description: 'Transport protocol of the next hop URI' },
+  ]],
+  ['K', [
+    { name: 'IPv4', description: 'Address family inet' },
+    { name: 'IPv6', description: 'Address family inet6' },
+    { name: 'UDP', description: 'UDP transport' },
+    { name: 'TCP', description: 'TCP transport' },
+    { name: 'TLS', description: 'TLS transport' },
+    { name: 'SCTP', description: 'SCTP transport' },
+    { name: 'WS', description: 'WebSocket transport' },
+    { name: 'WSS', description: 'Secure WebSocket transport' },
+  ]],
+  ['branch', [
+    { name: 'uri', description: 'Request URI of the branch' },
+    { name: 'dst_uri', description: 'Destination URI of the branch' },
+    { name: 'path', description: 'Path vector of the branch' },
+    { name: 'q', description: 'Q value of the branch' },
+    { name: 'send_socket', description: 'Sending socket of the branch' },
+    { name: 'count', description: 'Number of branches' },
+    { name: 'flags', description: 'Branch flags' },
+    { name: 'ruid', description: 'Location ruid of the branch' },
+    { name: 'ua', description: 'User agent of the branch contact' },
+  ]],
+  ['cfg', [
+    { name: 'line', description: 'Current line in the configuration file' },
+    { name: 'name', description: 'Name of the configuration file' },
+    { name: 'file', description: 'Name of the configuration file' },
+    { name: 'route', description: 'Name of the current route block' },
+  ]],
+  ['ltt', [
+    { name: 'x', description: 'Local To tag if a reply was sent, otherwise $null' },
+    { name: 's', description: 'Local To tag for stateless replies' },
+    { name: 't', description: 'Local To tag for stateful replies' },
+  ]],
+  ['dlg', [
+    { name: 'h_id', description: 'Hash id of the dialog' },
+    { name: 'h_entry', description: 'Hash entry of the dialog' },
+    { name: 'ref', description: 'Reference count' },
+    { name: 'state', description: 'Dialog state' },
+    { name: 'to_rs', description: 'Route set of the callee side' },
+    { name: 'from_rs', description: 'Route set of the caller side' },
+    { name: 'dflags', description: 'Internal dialog flags' },
+    { name: 'sflags', description: 'Script dialog flags' },
+    { name: 'callid', description: 'Call-ID of the dialog' },
+    { name: 'to_uri', description: 'To URI of the dialog' },
+    { name: 'to_tag', description: 'To tag of the dialog' },
+    { name: 'from_uri', description: 'From URI of the dialog' },
+    { name: 'from_tag', description: 'From tag of the dialog' },
+    { name: 'toroute', description: 'Id of the timeout route' },
+    { name: 'toroute_name', description: 'Name of the timeout route' },
+    { name: 'lifetime', description: 'Dialog lifetime in seconds' },
+    { name: 'start_ts', description: 'Timestamp when the dialog was confirmed' },
+    { name: 'to_cseq', description: 'CSeq of the callee side' },
+    { name: 'from_cseq', description: 'CSeq of the caller side' },
+    { name: 'to_contact', description: 'Contact of the callee side' },
+    { name: 'from_contact', description: 'Contact of the caller side' },
+    { name: 'to_bindaddr', description: 'Local socket for the callee side' },
+    { name: 'from_bindaddr', description: 'Local socket for the caller side' },
+  ]],
+  ['dlg_ctx', [
+    { name: 'set', description: '1 if the message belongs to a dialog' },
+    { name: 'flags', description: 'Dialog flags to set when the dialog is created' },
+    { name: 'timeout_route', description: 'Route to run when the dialog times out' },
+    { name: 'timeout_route_id', description: 'Id of the timeout route' },
+    { name: 'timeout_bye', description: '1 to send BYE on timeout' },
+    { name: 'timeout', description: 'Dialog timeout in seconds' },
+    { name: 'on', description: 'Whether the dialog module tracks the message' },
+    { name: 'dir', description: 'Direction of the message: 1 downstream, 2 upstream' },
+  ]],
+  ['ulc', [
+    { name: 'aor', description: 'Address of record' },
+    { name: 'domain', description: 'Location table' },
+    { name: 'aorhash', description: 'Hash of the address of record' },
+    { name: 'count', description: 'Number of contacts' },
+    { name: 'addr', description: 'Contact address, by index' },
+    { name: 'path', description: 'Path header, by index' },
+    { name: 'received', description: 'Received address, by index' },
+    { name: 'expires', description: 'Expires value, by index' },
+    { name: 'callid', description: 'Call-ID, by index' },
+    { name: 'q', description: 'Q value, by index' },
+    { name: 'cseq', description: 'CSeq, by index' },
+    { name: 'flags', description: 'Flags, by index' },
+    { name: 'cflags', description: 'Branch flags, by index' },
+    { name: 'user_agent', description: 'User-Agent, by index' },
+    { name: 'socket', description: 'Local socket, by index' },
+    { name: 'modified', description: 'Last modification time, by index' },
+    { name: 'methods', description: 'Supported methods, by index' },
+    { name: 'ruid', description: 'Record unique id, by index' },
+    { name: 'reg_id', description: 'reg-id parameter, by index' },
+    { name: 'instance', description: '+sip.instance parameter, by index' },
+    { name: 'server_id', description: 'Id of the server that saved the contact, by index' },
+    { name: 'conid', description: 'TCP connection id, by index' },
+    { name: 'keepalive', description: 'Keepalive flag, by index' },
+  ]],
+  ['dbr', [
+    { name: 'rows', description: 'Number of rows' },
+    { name: 'cols', description: 'Number of columns' },
+    { name: '[row,col]', description: 'Value at a row and column', pattern: /^\[\d+,\d+\]$/ },
+    { name: 'colname[index]', description: 'Name of a column', pattern: /^colname\[\d+\]$/ },
+  ]],
+  ['uac_req', [
+    { name: 'method', description: 'Request method' },
+    { name: 'ruri', description: 'Request URI' },
+    { name: 'turi', description: 'To URI' },
+    { name: 'furi', description: 'From URI' },
+    { name: 'ouri', description: 'Outbound proxy URI' },
+    { name: 'hdrs', description: 'Extra headers, each ending with \\r\\n' },
+    { name: 'body', description: 'Message body' },
+    { name: 'flags', description: 'Request flags' },
+    { name: 'sock', description: 'Local socket to send from' },
+    { name: 'callid', description: 'Call-ID' },
+    { name: 'auser', description: 'Authentication username' },
+    { name: 'apasswd', description: 'Authentication password' },
+    { name: 'evroute', description: 'Set to 1 to run event_route[uac:reply] on the reply' },
+    { name: 'evcode', description: 'Reply status code, in event_route[uac:reply]' },
+    { name: 'evtype', description: 'Reply type, in event_route[uac:reply]' },
+    { name: 'evparam', description: 'Custom value passed to event_route[uac:reply]' },
+    { name: 'all', description: 'Reset all attributes (write $null)' },
+  ]],
+  ['http_req', [
+    { name: 'all', description: 'Reset all attributes (write $null)' },
+    { name: 'hdr', description: 'Add a request header' },
+    { name: 'body', description: 'Request body' },
+    { name: 'method', description: 'Request method' },
+    { name: 'timeout', description: 'Timeout in milliseconds' },
+    { name: 'tls_client_cert', description: 'TLS client certificate file' },
+    { name: 'tls_client_key', description: 'TLS client key file' },
+    { name: 'tls_ca_path', description: 'TLS CA path' },
+    { name: 'tls_verify_host', description: 'Verify the TLS server host name' },
+    { name: 'tls_verify_peer', description: 'Verify the TLS server certificate' },
+    { name: 'authmethod', description: 'HTTP authentication methods' },
+    { name: 'username', description: 'HTTP authentication username' },
+    { name: 'password', description: 'HTTP authentication password' },
+    { name: 'suspend', description: 'Suspend the transaction while waiting (default 1)' },
+    { name: 'tcp_keepalive', description: 'Enable TCP keepalive' },
+    { name: 'tcp_ka_idle', description: 'TCP keepalive idle time' },
+    { name: 'tcp_ka_interval', description: 'TCP keepalive interval' },
+    { name: 'follow_redirect', description: 'Follow HTTP redirects' },
+  ]],
+  ['http_time', [
+    { name: 'total', description: 'Total time of the request' },
+    { name: 'lookup', description: 'Time until the name was resolved' },
+    { name: 'connect', description: 'Time until the connection was established' },
+    { name: 'appconnect', description: 'Time until the TLS handshake finished' },
+    { name: 'pretransfer', description: 'Time until the transfer was about to begin' },
+    { name: 'starttransfer', description: 'Time until the first byte was received' },
+    { name: 'redirect', description: 'Time spent on redirects' },
+  ]],
+  ['msrp', [
+    { name: 'buf', description: 'Whole frame buffer' },
+    { name: 'buflen', description: 'Length of the frame buffer' },
+    { name: 'body', description: 'Frame body' },
+    { name: 'bodylen', description: 'Length of the frame body' },
+    { name: 'code', description: 'Reply status code' },
+    { name: 'reason', description: 'Reply reason phrase' },
+    { name: 'hdrs', description: 'Frame headers' },
+    { name: 'method', description: 'Request method' },
+    { name: 'msgid', description: 'Message-ID header' },
+    { name: 'transaction', description: 'Transaction id' },
+    { name: 'crthop', description: 'Current hop URI' },
+    { name: 'prevhop', description: 'Previous hop URI' },
+    { name: 'nexthop', description: 'Next hop URI' },
+    { name: 'firsthop', description: 'First hop URI' },
+    { name: 'lasthop', description: 'Last hop URI' },
+    { name: 'prevhops', description: 'Number of previous hops' },
+    { name: 'nexthops', description: 'Number of next hops' },
+    { name: 'srcaddr', description: 'Source address' },
+    { name: 'srcsock', description: 'Local socket the frame arrived on' },
+    { name: 'conid', description: 'TCP connection id' },
+  ]],
 ]);
 
+/** Whether an inner name (or, for keyed classes, the key) is one of the known options. */
+export function isKnownInnerName(names: BuiltinPvInnerName[], name: string): boolean {
+  return names.some((n) => n.name === name || n.pattern?.test(name));
+}
+
 export const BUILTIN_BARE_PVS = new Map(
   BUILTIN_PVS.filter((pv) => pv.isBare).map((pv) => [pv.pvClass, pv])
 );
@@ -0,0 +1,37 @@
+import { RouteType } from './routeTypes';
+
+/** A KSR function argument naming a method of the KEMI class that Kamailio calls later. */
+export interface KemiCallbackDef {
+  module: string;
+  function: string;
+  /** Position of the route name among the call's arguments. */
+  argIndex: number;
+  /** Route the callback runs in. */
+  routeType: RouteType;
+}
+
+/**
+ * KSR functions that take a route name. Suspended transactions are resumed
+ * through tm's t_continue, which runs the callback as a failure route.
+ *
+ * evapi's async_* functions take no route name — the transaction they suspend
+ * is resumed with KSR.tmx.t_continue from the evapi event callback. Dialog and
+ * rtimer callbacks are configured with modparams in kamailio.cfg.
+ */
+export const KEMI_CALLBACKS: KemiCallbackDef[] = [
+  { module: 'tm', function: 't_on_failure', argIndex: 0, routeType: 'failure' },
+  { module: 'tm', function: 't_on_branch', argIndex: 0, routeType: 'branch' },
+  { module: 'tm', function: 't_on_reply', argIndex: 0, routeType: 'onreply' },
+  { module: 'tm', function: 't_on_branch_failure', argIndex: 0, routeType: 'branch_failure' },
+  { module: 'tmx', function: 't_continue', argIndex: 2, routeType: 'failure' },
+  { module: 'async', function: 'route', argIndex: 0, routeType: 'failure' },
+  { module: 'async', function: 'ms_route', argIndex: 0, routeType: 'failure' },
+  { module: 'async', function: 'task_route', argIndex: 0, routeType: 'failure' },
+  { module: 'http_async_client', function: 'query', argIndex: 1, routeType: 'failure' },
+];
+
+const CALLBACKS_BY_NAME = new Map(KEMI_CALLBACKS.map((cb) => [`${cb.module}.${cb.function}`, cb]));
+
+export function findKemiCallback(module: string, fn: string): KemiCallbackDef | undefined {
+  return CALLBACKS_BY_NAME.get(`${module}.${fn}`);
+}
@@ -0,0 +1,1080 @@
+import type { VersionedDef } from '../core/kamailioVersion';
+
+export type KemiParamType = 'int' | 'str';
+
+/**
+ * KEMI return kinds. `code` is the usual int return code convention:
+ * positive means success, negative means failure, 0 stops the script.
+ */
+export type KemiReturnType = 'code' | 'int' | 'bool' | 'str' | 'xval' | 'none';
+
+export interface KemiParam {
+  name: string;
+  type: KemiParamType;
+  description?: string;
+}
+
+export interface KemiFunctionDef extends VersionedDef {
+  name: string;
+  params: KemiParam[];
+  returns: KemiReturnType;
+  description: string;
+  /** Accepts additional string parameters after the declared ones (e.g. KSR.x.modf). */
+  variadic?: boolean;
+  /** Failure is reported only through the return code — discarding it is flagged. */
+  checkReturn?: boolean;
+}
+
+export interface KemiModuleDef {
+  /** Name under KSR — '' for functions exported directly on KSR (KSR.info, KSR.is_INVITE). */
+  name: string;
+  /** Kamailio module providing the functions, or null when provided by core/the KEMI interpreter. */
+  kamailioModule: string | null;
+  description: string;
+  functions: KemiFunctionDef[];
+}
+
+const s = (name: string, description?: string): KemiParam => ({ name, type: 'str', description });
+const i = (name: string, description?: string): KemiParam => ({ name, type: 'int', description });
+
+export const KEMI_MODULES: KemiModuleDef[] = [
+  {
+    name: '',
+    kamailioModule: null,
+    description: 'Core functions exported directly on KSR',
+    functions: [
+      { name: 'dbg', params: [s('msg')], returns: 'none', description: 'Log message at debug level' },
+      { name: 'info', params: [s('msg')], returns: 'none', description: 'Log message at info level' },
+      { name: 'notice', params: [s('msg')], returns: 'none', description: 'Log message at notice level' },
+      { name: 'warn', params: [s('msg')], returns: 'none', description: 'Log message at warning level' },
+      { name: 'err', params: [s('msg')], returns: 'none', description: 'Log message at error level' },
+      { name: 'crit', params: [s('msg')], returns: 'none', description: 'Log message at critical level' },
+      { name: 'log', params: [s('level', 'Log level: dbg, info, warn, err or crit'), s('msg')], returns: 'none', description: 'Log message at the given level (dbg, info, warn, err, crit)' },
+      { name: 'is_method', params: [s('vmethod')], returns: 'bool', description: 'True if the request method matches' },
+      { name: 'is_method_in', params: [s('vmethods')], returns: 'bool', description: 'True if the request method is one of the letters in the list (I=INVITE, A=ACK, B=BYE, ...)' },
+      { name: 'is_INVITE', params: [], returns: 'bool', description: 'True if the request is an INVITE' },
+      { name: 'is_ACK', params: [], returns: 'bool', description: 'True if the request is an ACK' },
+      { name: 'is_BYE', params: [], returns: 'bool', description: 'True if the request is a BYE' },
+      { name: 'is_CANCEL', params: [], returns: 'bool', description: 'True if the request is a CANCEL' },
+      { name: 'is_REGISTER', params: [], returns: 'bool', description: 'True if the request is a REGISTER' },
+      { name: 'is_OPTIONS', params: [], returns: 'bool', description: 'True if the request is an OPTIONS' },
+      { name: 'is_SUBSCRIBE', params: [], returns: 'bool', description: 'True if the request is a SUBSCRIBE' },
+      { name: 'is_PUBLISH', params: [], returns: 'bool', description: 'True if the request is a PUBLISH' },
+      { name: 'is_NOTIFY', params: [], returns: 'bool', description: 'True if the request is a NOTIFY' },
+      { name: 'is_REFER', params: [], returns: 'bool', description: 'True if the request is a REFER' },
+      { name: 'is_INFO', params: [], returns: 'bool', description: 'True if the request is an INFO' },
+      { name: 'is_UPDATE', params: [], returns: 'bool', description: 'True if the request is an UPDATE' },
+      { name: 'is_PRACK', params: [], returns: 'bool', description: 'True if the request is a PRACK' },
+      { name: 'is_MESSAGE', params: [], returns: 'bool', description: 'True if the request is a MESSAGE' },
+      { name: 'is_KDMQ', params: [], returns: 'bool', description: 'True if the request is a KDMQ' },
+      { name: 'is_GET', params: [], returns: 'bool', description: 'True if the HTTP request is a GET' },
+      { name: 'is_POST', params: [], returns: 'bool', description: 'True if the HTTP request is a POST' },
+      { name: 'is_PUT', params: [], returns: 'bool', description: 'True if the HTTP request is a PUT' },
+      { name: 'is_DELETE', params: [], returns: 'bool', description: 'True if the HTTP request is a DELETE' },
+      { name: 'is_myself', params: [s('uri')], returns: 'bool', description: 'True if the URI host and port match a local socket or alias' },
+      { name: 'is_myself_ruri', params: [], returns: 'bool', description: 'True if the R-URI points to this server' },
+      { name: 'is_myself_furi', params: [], returns: 'bool', description: 'True if the From URI points to this server' },
+      { name: 'is_myself_turi', params: [], returns: 'bool', description: 'True if the To URI points to this server' },
+      { name: 'is_myself_duri', params: [], returns: 'bool', description: 'True if the destination URI points to this server' },
+      { name: 'is_myself_nhuri', params: [], returns: 'bool', description: 'True if the next hop URI points to this server' },
+      { name: 'is_myself_srcip', params: [], returns: 'bool', description: 'True if the source IP is a local address' },
+      { name: 'is_UDP', params: [], returns: 'bool', description: 'True if the message was received over UDP' },
+      { name: 'is_TCP', params: [], returns: 'bool', description: 'True if the message was received over TCP' },
+      { name: 'is_TLS', params: [], returns: 'bool', description: 'True if the message was received over TLS' },
+      { name: 'is_WS', params: [], returns: 'bool', description: 'True if the message was received over WebSocket' },
+      { name: 'is_WSS', params: [], returns: 'bool', description: 'True if the message was received over secure WebSocket' },
+      { name: 'is_WSX', params: [], returns: 'bool', description: 'True if the message was received over WS or WSS' },
+      { name: 'is_SCTP', params: [], returns: 'bool', description: 'True if the message was received over SCTP' },
+      { name: 'is_IPv4', params: [], returns: 'bool', description: 'True if the message was received over IPv4' },
+      { name: 'is_IPv6', params: [], returns: 'bool', description: 'True if the message was received over IPv6' },
+      { name: 'is_proto', params: [s('vproto')], returns: 'bool', description: 'True if the receiving protocol is one of the letters in the list (e=tls, s=sctp, t=tcp, u=udp, w=ws, W=wss)' },
+      { name: 'setflag', params: [i('flag')], returns: 'code', description: 'Set a message flag' },
+      { name: 'resetflag', params: [i('flag')], returns: 'code', description: 'Reset a message flag' },
+      { name: 'isflagset', params: [i('flag')], returns: 'bool', description: 'True if the message flag is set' },
+      { name: 'setbflag', params: [i('flag')], returns: 'code', description: 'Set a flag on branch 0' },
+      { name: 'resetbflag', params: [i('flag')], returns: 'code', description: 'Reset a flag on branch 0' },
+      { name: 'isbflagset', params: [i('flag')], returns: 'bool', description: 'True if the flag is set on branch 0' },
+      { name: 'setbiflag', params: [i('flag'), i('idx')], returns: 'code', description: 'Set a flag on the given branch' },
+      { name: 'resetbiflag', params: [i('flag'), i('idx')], returns: 'code', description: 'Reset a flag on the given branch' },
+      { name: 'isbiflagset', params: [i('flag'), i('idx')], returns: 'bool', description: 'True if the flag is set on the given branch' },
+      { name: 'setsflag', params: [i('flag')], returns: 'code', description: 'Set a script (global) flag' },
+      { name: 'resetsflag', params: [i('flag')], returns: 'code', description: 'Reset a script (global) flag' },
+      { name: 'issflagset', params: [i('flag')], returns: 'bool', description: 'True if the script (global) flag is set' },
+      { name: 'seturi', params: [s('uri')], returns: 'code', description: 'Replace the R-URI' },
+      { name: 'setuser', params: [s('user')], returns: 'code', description: 'Replace the user part of the R-URI' },
+      { name: 'sethost', params: [s('host')], returns: 'code', description: 'Replace the host part of the R-URI' },
+      { name: 'setdsturi', params: [s('uri')], returns: 'code', description: 'Set the destination URI (outbound proxy)' },
+      { name: 'resetdsturi', params: [], returns: 'code', description: 'Reset the destination URI' },
+      { name: 'isdsturiset', params: [], returns: 'bool', description: 'True if the destination URI is set' },
+      { name: 'force_rport', params: [], returns: 'code', description: 'Add rport to the top Via so the reply goes back to the source port' },
+      { name: 'add_local_rport', params: [], returns: 'code', description: 'Add rport to the local Via header' },
+      { name: 'set_forward_close', params: [], returns: 'code', description: 'Close the TCP connection after forwarding' },
+      { name: 'set_forward_no_connect', params: [], returns: 'code', description: 'Do not open a new TCP connection when forwarding' },
+      { name: 'set_reply_close', params: [], returns: 'code', description: 'Close the TCP connection after sending the reply' },
+      { name: 'set_reply_no_connect', params: [], returns: 'code', description: 'Do not open a new TCP connection when replying' },
+      { name: 'set_advertised_address', params: [s('addr')], returns: 'code', description: 'Set the advertised address for this message' },
+      { name: 'set_advertised_port', params: [s('port')], returns: 'code', description: 'Set the advertised port for this message' },
+      { name: 'add_tcp_alias', params: [i('port')], returns: 'code', description: 'Add a TCP port alias for the current connection' },
+      { name: 'add_tcp_alias_via', params: [], returns: 'code', description: 'Add the Via source as TCP alias for the current connection' },
+      { name: 'forward', params: [], returns: 'code', description: 'Forward the message statelessly to the destination URI or R-URI' },
+      { name: 'forward_uri', params: [s('uri')], returns: 'code', description: 'Forward the message statelessly to the given URI' },
+      { name: 'is_request', params: [], returns: 'bool', description: 'True if the message is a request' },
+      { name: 'is_reply', params: [], returns: 'bool', description: 'True if the message is a reply' },
+    ],
+  },
+  {
+    name: 'x',
+    kamailioModule: null,
+    description: 'Special functions exported by the KEMI interpreter',
+    functions: [
+      { name: 'exit', params: [], returns: 'none', description: 'Stop the execution of the script (like exit in native cfg)' },
+      { name: 'drop', params: [], returns: 'none', description: 'Stop the execution of the script and drop the message (like drop in native cfg)' },
+      { name: 'modf', params: [s('fname', 'Name of the native cfg function, followed by its string parameters')], returns: 'code', description: 'Execute a module function exported to the native cfg but not to KEMI', variadic: true },
+    ],
+  },
+  {
+    name: 'hdr',
+    kamailioModule: null,
+    description: 'Core SIP header operations',
+    functions: [
+      { name: 'append', params: [s('txt', 'Full header line including name and trailing "\\r\\n"')], returns: 'code', description: 'Append header text (must end with "\\r\\n") after the last header' },
+      { name: 'append_after', params: [s('txt'), s('hname')], returns: 'code', description: 'Append header text after the first header with the given name' },
+      { name: 'insert', params: [s('txt')], returns: 'code', description: 'Insert header text (must end with "\\r\\n") before the first header' },
+      { name: 'insert_before', params: [s('txt'), s('hname')], returns: 'code', description: 'Insert header text before the first header with the given name' },
+      { name: 'remove', params: [s('hname', 'Header name')], returns: 'code', description: 'Remove all headers with the given name' },
+      { name: 'rmappend', params: [s('hrm'), s('hadd')], returns: 'code', description: 'Remove headers named hrm, then append the hadd header text' },
+      { name: 'rminsert', params: [s('hrm'), s('hadd')], returns: 'code', description: 'Remove headers named hrm, then insert the hadd header text' },
+      { name: 'is_present', params: [s('hname')], returns: 'code', description: 'Return 1 if the header is present, -1 otherwise' },
+      { name: 'append_to_reply', params: [s('txt')], returns: 'code', description: 'Add header text to the locally generated reply' },
+      { name: 'get', params: [s('hname')], returns: 'xval', description: 'Get the body of the first header with the given name ($null if missing)' },
+      { name: 'gete', params: [s('hname')], returns: 'xval', description: 'Get the body of the first header with the given name (empty string if missing)' },
+      { name: 'getw', params: [s('hname')], returns: 'xval', description: 'Get the body of the first header with the given name ("<<null>>" if missing)' },
+      { name: 'get_idx', params: [s('hname'), i('idx')], returns: 'xval', description: 'Get the body of the header at the given index ($null if missing)' },
+      { name: 'gete_idx', params: [s('hname'), i('idx')], returns: 'xval', description: 'Get the body of the header at the given index (empty string if missing)' },
+    ],
+  },
+  {
+    name: 'pv',
+    kamailioModule: null,
+    description: 'Pseudo-variable access',
+    functions: [
+      { name: 'get', params: [s('pvname', 'Pseudo-variable name, e.g. "$ru" or "$var(x)"')], returns: 'xval', description: 'Get PV value (returns int/string or $null)' },
+      { name: 'gete', params: [s('pvname')], returns: 'xval', description: 'Get PV value (empty string instead of $null)' },
+      { name: 'getw', params: [s('pvname')], returns: 'xval', description: 'Get PV value ("<<null>>" instead of $null)', since: '5.3' },
+      { name: 'getvs', params: [s('pvname'), s('vdef')], returns: 'xval', description: 'Get PV value (custom string instead of $null)', since: '5.3' },
+      { name: 'getvn', params: [s('pvname'), i('vdef')], returns: 'xval', description: 'Get PV value (custom int instead of $null)', since: '5.3' },
+      { name: 'sets', params: [s('pvname', 'Pseudo-variable name, e.g. "$var(x)"'), s('sval', 'String value to assign')], returns: 'none', description: 'Set PV to string value' },
+      { name: 'seti', params: [s('pvname', 'Pseudo-variable name, e.g. "$var(x)"'), i('ival', 'Integer value to assign')], returns: 'none', description: 'Set PV to integer value' },
+      { name: 'setx', params: [s('pvname')], returns: 'none', description: 'Set PV to null' },
+      { name: 'unset', params: [s('pvname')], returns: 'none', description: 'Unset PV value' },
+      { name: 'is_null', params: [s('pvname')], returns: 'bool', description: 'Check if PV is null' },
+    ],
+  },
+  {
+    name: 'kx',
+    kamailioModule: 'kemix',
+    description: 'Extended KEMI getters for message attributes',
+    functions: [
+      { name: 'get_ruri', params: [], returns: 'xval', description: 'Get the R-URI' },
+      { name: 'get_ruser', params: [], returns: 'xval', description: 'Get the user part of the R-URI' },
+      { name: 'get_rhost', params: [], returns: 'xval', description: 'Get the host part of the R-URI' },
+      { name: 'get_duri', params: [], returns: 'xval', description: 'Get the destination URI' },
+      { name: 'get_furi', params: [], returns: 'xval', description: 'Get the From URI' },
+      { name: 'get_fuser', params: [], returns: 'xval', description: 'Get the user part of the From URI' },
+      { name: 'get_fhost', params: [], returns: 'xval', description: 'Get the host part of the From URI' },
+      { name: 'get_turi', params: [], returns: 'xval', description: 'Get the To URI' },
+      { name: 'get_tuser', params: [], returns: 'xval', description: 'Get the user part of the To URI' },
+      { name: 'get_thost', params: [], returns: 'xval', description: 'Get the host part of the To URI' },
+      { name: 'get_srcip', params: [], returns: 'xval', description: 'Get the source IP address' },
+      { name: 'get_srcport', params: [], returns: 'xval', description: 'Get the source port' },
+      { name: 'get_method', params: [], returns: 'xval', description: 'Get the request method' },
+      { name: 'get_status', params: [], returns: 'xval', description: 'Get the reply status code' },
+      { name: 'get_callid', params: [], returns: 'xval', description: 'Get the Call-ID' },
+      { name: 'get_ua', params: [], returns: 'xval', description: 'Get the User-Agent header body' },
+      { name: 'get_body', params: [], returns: 'xval', description: 'Get the message body' },
+      { name: 'get_proto', params: [], returns: 'xval', description: 'Get the receiving transport protocol' },
+      { name: 'get_timestamp', params: [], returns: 'xval', description: 'Get the current timestamp' },
+    ],
+  },
+  {
+    name: 'sl',
+    kamailioModule: 'sl',
+    description: 'Stateless replies',
+    functions: [
+      { name: 'send_reply', params: [i('code', 'SIP status code, e.g. 404'), s('reason', 'Reason phrase, e.g. "Not Found"')], returns: 'code', description: 'Send a stateful reply if a transaction exists, otherwise a stateless reply' },
+      { name: 'sl_send_reply', params: [i('code', 'SIP status code, e.g. 404'), s('reason', 'Reason phrase, e.g. "Not Found"')], returns: 'code', description: 'Send a stateless reply' },
+      { name: 'sl_reply_error', params: [], returns: 'code', description: 'Send a stateless reply for the last internal error' },
+      { name: 'sl_forward_reply', params: [s('code'), s('reason')], returns: 'code', description: 'Forward the current reply statelessly, optionally changing status and reason' },
+    ],
+  },
+  {
+    name: 'tm',
+    kamailioModule: 'tm',
+    description: 'Transaction management',
+    functions: [
+      { name: 't_relay', params: [], returns: 'code', description: 'Relay the request statefully to the destination URI or R-URI', checkReturn: true },
+      { name: 't_relay_to_proxy', params: [s('proxy')], returns: 'code', description: 'Relay statefully to the given proxy address ([proto:]host[:port])', checkReturn: true },
+      { name: 't_relay_to_proto_addr', params: [s('proto'), s('host'), i('port')], returns: 'code', description: 'Relay statefully to the given protocol, host and port', checkReturn: true },
+      { name: 't_relay_to_flags', params: [i('flags')], returns: 'code', description: 'Relay statefully with the given flags', checkReturn: true },
+      { name: 't_on_failure', params: [s('rname', 'Name of the method on the KEMI class to run as failure route')], returns: 'code', description: 'Set the function executed when the transaction fails (negative reply or timeout)' },
+      { name: 't_on_branch', params: [s('rname', 'Name of the method on the KEMI class to run as branch route')], returns: 'code', description: 'Set the function executed for each outgoing branch' },
+      { name: 't_on_reply', params: [s('rname', 'Name of the method on the KEMI class to run as onreply route')], returns: 'code', description: 'Set the function executed for each reply of the transaction' },
+      { name: 't_on_branch_failure', params: [s('rname', 'Name of the method on the KEMI class to run as branch failure route')], returns: 'code', description: 'Set the function executed for each failed branch' },
+      { name: 't_check_trans', params: [], returns: 'code', description: 'Check if the message belongs to an existing transaction', checkReturn: true },
+      { name: 't_newtran', params: [], returns: 'code', description: 'Create a new transaction for the request', checkReturn: true },
+      { name: 't_reply', params: [i('code', 'SIP status code, e.g. 404'), s('reason', 'Reason phrase, e.g. "Not Found"')], returns: 'code', description: 'Send a stateful reply' },
+      { name: 't_send_reply', params: [i('code', 'SIP status code, e.g. 404'), s('reason', 'Reason phrase, e.g. "Not Found"')], returns: 'code', description: 'Create the transaction if needed and send a stateful reply' },
+      { name: 't_release', params: [], returns: 'code', description: 'Remove the transaction from memory' },
+      { name: 't_replicate', params: [s('uri')], returns: 'code', description: 'Replicate the request statefully to the given URI' },
+      { name: 't_set_fr', params: [i('fr_inv', 'INVITE final response timeout in milliseconds'), i('fr', 'Non-INVITE final response timeout in milliseconds')], returns: 'code', description: 'Set the final response timeouts (ms) for INVITE and non-INVITE' },
+      { name: 't_reset_fr', params: [], returns: 'code', description: 'Reset the final response timeouts to the configured values' },
+      { name: 't_set_max_lifetime', params: [i('t1'), i('t2')], returns: 'code', description: 'Set the maximum lifetime (ms) for INVITE and non-INVITE transactions' },
+      { name: 't_reset_max_lifetime', params: [], returns: 'code', description: 'Reset the maximum transaction lifetime to the configured values' },
+      { name: 't_set_retr', params: [i('t1'), i('t2')], returns: 'code', description: 'Set the retransmission timers T1 and T2 (ms)' },
+      { name: 't_reset_retr', params: [], returns: 'code', description: 'Reset the retransmission timers to the configured values' },
+      { name: 't_set_auto_inv_100', params: [i('state')], returns: 'code', description: 'Enable or disable the automatic 100 Trying for INVITE' },
+      { name: 't_set_disable_6xx', params: [i('state')], returns: 'code', description: 'Enable or disable the special handling of 6xx replies' },
+      { name: 't_set_disable_failover', params: [i('state')], returns: 'code', description: 'Enable or disable DNS failover' },
+      { name: 't_set_disable_internal_reply', params: [i('state')], returns: 'code', description: 'Enable or disable internally generated replies' },
+      { name: 't_set_no_e2e_cancel_reason', params: [i('state')], returns: 'code', description: 'Enable or disable copying the Reason header to CANCEL' },
+      { name: 't_load_contacts', params: [], returns: 'code', description: 'Load R-URI and branches ordered by q value into contacts AVP' },
+      { name: 't_next_contacts', params: [], returns: 'code', description: 'Load the next set of contacts with the highest q value' },
+      { name: 't_next_contact_flow', params: [], returns: 'code', description: 'Load the next contact flow (RFC 5626)' },
+      { name: 't_is_canceled', params: [], returns: 'code', description: 'Check if the transaction was canceled' },
+      { name: 't_is_expired', params: [], returns: 'code', description: 'Check if the transaction lifetime expired' },
+      { name: 't_is_set', params: [s('target')], returns: 'code', description: 'Check if a route callback (failure_route, branch_route, onreply_route) is set' },
+      { name: 't_any_timeout', params: [], returns: 'code', description: 'Check if any branch timed out' },
+      { name: 't_any_replied', params: [], returns: 'code', description: 'Check if any branch received a reply' },
+      { name: 't_branch_timeout', params: [], returns: 'code', description: 'Check if the current branch timed out (failure route)' },
+      { name: 't_branch_replied', params: [], returns: 'code', description: 'Check if the current branch received a reply (failure route)' },
+      { name: 't_check_status', params: [s('sexp')], returns: 'code', description: 'Match the reply status code against a regular expression' },
+      { name: 't_grep_status', params: [i('code')], returns: 'code', description: 'Check if any branch received a reply with the given status code' },
+      { name: 't_get_status_code', params: [], returns: 'int', description: 'Get the status code of the transaction reply (-1 on error)' },
+      { name: 't_lookup_request', params: [], returns: 'code', description: 'Check if the request matches a transaction' },
+      { name: 't_lookup_cancel', params: [], returns: 'code', description: 'Check if the CANCEL matches an INVITE transaction' },
+      { name: 't_lookup_cancel_flags', params: [i('flags')], returns: 'code', description: 'Check if the CANCEL matches an INVITE transaction, with flags' },
+      { name: 't_retransmit_reply', params: [], returns: 'code', description: 'Retransmit the last reply of the transaction' },
+      { name: 't_save_lumps', params: [], returns: 'code', description: 'Save header and body changes into the transaction' },
+      { name: 't_drop_replies_all', params: [], returns: 'code', description: 'Drop all the replies received so far (failure route)' },
+      { name: 't_drop_replies', params: [s('mode')], returns: 'code', description: 'Drop replies received so far, according to mode' },
+      { name: 't_use_uac_headers', params: [], returns: 'code', description: 'Use the headers of the request sent out for locally generated CANCEL/ACK' },
+      { name: 't_uac_send', params: [s('method'), s('ruri'), s('nexthop'), s('ssock'), s('hdrs'), s('body')], returns: 'code', description: 'Send a new SIP request statefully' },
+    ],
+  },
+  {
+    name: 'tmx',
+    kamailioModule: 'tmx',
+    description: 'Transaction management extensions',
+    functions: [
+      { name: 't_continue', params: [i('tindex', 'Transaction index ($T(id_index))'), i('tlabel', 'Transaction label ($T(id_label))'), s('rtname', 'Name of the method on the KEMI class to run on resume')], returns: 'code', description: 'Resume a suspended transaction by executing the given function' },
+      { name: 't_suspend', params: [], returns: 'code', description: 'Suspend the processing of the transaction' },
+      { name: 't_precheck_trans', params: [], returns: 'code', description: 'Check if the request is being processed by another process' },
+      { name: 't_is_failure_route', params: [], returns: 'code', description: 'Check if executed in a failure route' },
+      { name: 't_is_branch_route', params: [], returns: 'code', description: 'Check if executed in a branch route' },
+      { name: 't_is_reply_route', params: [], returns: 'code', description: 'Check if executed in a reply route' },
+      { name: 't_is_request_route', params: [], returns: 'code', description: 'Check if executed in a request route' },
+      { name: 't_flush_flags', params: [], returns: 'code', description: 'Flush the message flags into the transaction' },
+      { name: 't_flush_xflags', params: [], returns: 'code', description: 'Flush the extended message flags into the transaction' },
+      { name: 't_cancel_branches', params: [s('mode')], returns: 'code', description: 'Cancel branches of the transaction (all, others, this)' },
+      { name: 't_cancel_callid', params: [s('callid'), s('cseq'), i('fl'), i('rcode')], returns: 'code', description: 'Cancel the INVITE transaction matching Call-ID and CSeq' },
+      { name: 't_reply_callid', params: [s('callid'), s('cseq'), i('code'), s('status')], returns: 'code', description: 'Reply to the transaction matching Call-ID and CSeq' },
+      { name: 't_drop', params: [], returns: 'code', description: 'Drop the transaction' },
+      { name: 't_drop_rcode', params: [i('rcode')], returns: 'code', description: 'Drop the transaction using the given reply code internally' },
+    ],
+  },
+  {
+    name: 'registrar',
+    kamailioModule: 'registrar',
+    description: 'SIP registrar',
+    functions: [
+      { name: 'save', params: [s('table', 'Location table name, e.g. "location"'), i('flags', 'Bitmask of save flags (0 for defaults)')], returns: 'code', description: 'Save the contacts of a REGISTER into the location table', checkReturn: true },
+      { name: 'save_uri', params: [s('table'), i('flags'), s('uri')], returns: 'code', description: 'Save the contacts of a REGISTER for the given AoR', checkReturn: true },
+      { name: 'lookup', params: [s('table', 'Location table name, e.g. "location"')], returns: 'code', description: 'Look up the contacts of the R-URI and rewrite it (-1 not found, -2 method not allowed, -3 internal error)', checkReturn: true },
+      { name: 'lookup_uri', params: [s('table'), s('uri')], returns: 'code', description: 'Look up the contacts of the given URI and rewrite the R-URI', checkReturn: true },
+      { name: 'lookup_to_dset', params: [s('table'), s('uri')], returns: 'code', description: 'Look up contacts and add them to the destination set', checkReturn: true },
+      { name: 'lookup_branches', params: [s('table')], returns: 'code', description: 'Look up contacts for all the branches', checkReturn: true },
+      { name: 'registered', params: [s('table')], returns: 'code', description: 'Check if the R-URI AoR is registered' },
+      { name: 'registered_uri', params: [s('table'), s('uri')], returns: 'code', description: 'Check if the given AoR is registered' },
+      { name: 'unregister', params: [s('table'), s('uri')], returns: 'code', description: 'Remove all the contacts of the given AoR' },
+      { name: 'unregister_ruid', params: [s('table'), s('uri'), s('ruid')], returns: 'code', description: 'Remove the contact with the given ruid' },
+      { name: 'reg_fetch_contacts', params: [s('table'), s('uri'), s('profile')], returns: 'code', description: 'Fetch the contacts of an AoR into a $ulc profile' },
+      { name: 'reg_free_contacts', params: [s('profile')], returns: 'code', description: 'Free the contacts fetched in a $ulc profile' },
+      { name: 'reg_send_reply', params: [], returns: 'code', description: 'Send the reply for the REGISTER when save() was used with no-reply flag' },
+      { name: 'add_sock_hdr', params: [s('hdr_name')], returns: 'code', description: 'Add a header with the receiving socket (for registrar behind a load balancer)' },
+      { name: 'set_q_override', params: [s('new_q')], returns: 'code', description: 'Override the q value of the contacts being saved' },
+    ],
+  },
+  {
+    name: 'auth',
+    kamailioModule: 'auth',
+    description: 'Digest authentication core functions',
+    functions: [
+      { name: 'auth_challenge', params: [s('realm'), i('flags')], returns: 'code', description: 'Send a WWW or Proxy authentication challenge depending on the request' },
+      { name: 'www_challenge', params: [s('realm'), i('flags')], returns: 'code', description: 'Send a 401 challenge' },
+      { name: 'proxy_challenge', params: [s('realm'), i('flags')], returns: 'code', description: 'Send a 407 challenge' },
+      { name: 'consume_credentials', params: [], returns: 'code', description: 'Remove the used credentials from the request' },
+      { name: 'has_credentials', params: [s('realm')], returns: 'code', description: 'Check if the request has credentials for the realm' },
+      { name: 'pv_auth_check', params: [s('realm'), s('passwd'), i('flags'), i('checks')], returns: 'code', description: 'Authenticate with the given password and check the user identity', checkReturn: true },
+      { name: 'pv_www_authenticate', params: [s('realm'), s('passwd'), i('flags')], returns: 'code', description: 'Check WWW credentials against the given password' },
+      { name: 'pv_proxy_authenticate', params: [s('realm'), s('passwd'), i('flags')], returns: 'code', description: 'Check Proxy credentials against the given password' },
+    ],
+  },
+  {
+    name: 'auth_db',
+    kamailioModule: 'auth_db',
+    description: 'Digest authentication against a database',
+    functions: [
+      { name: 'auth_check', params: [s('realm', 'Authentication realm, usually $fd or $td'), s('table', 'Subscriber table name'), i('flags', 'Bitmask of checks (1 = check From/To user)')], returns: 'code', description: 'Authenticate against the database and check the user identity (-1 generic, -2 invalid password, -3 invalid user, -4 nonce expired, -5 no credentials)', checkReturn: true },
+      { name: 'www_authorize', params: [s('realm'), s('table')], returns: 'code', description: 'Check WWW credentials against the database', checkReturn: true },
+      { name: 'proxy_authorize', params: [s('realm'), s('table')], returns: 'code', description: 'Check Proxy credentials against the database', checkReturn: true },
+      { name: 'www_authenticate', params: [s('realm'), s('table'), s('method')], returns: 'code', description: 'Check WWW credentials against the database for the given method' },
+      { name: 'proxy_authenticate', params: [s('realm'), s('table')], returns: 'code', description: 'Check Proxy credentials against the database' },
+      { name: 'is_subscriber', params: [s('uri'), s('table'), i('flags')], returns: 'code', description: 'Check if the URI belongs to a subscriber' },
+    ],
+  },
+  {
+    name: 'dispatcher',
+    kamailioModule: 'dispatcher',
+    description: 'Load balancing and failover dispatcher',
+    functions: [
+      { name: 'ds_select', params: [i('set', 'Dispatcher set id'), i('alg', 'Selection algorithm (0 = hash Call-ID, 4 = round-robin, 8 = priority, ...)')], returns: 'code', description: 'Select destinations from the set without rewriting the R-URI or destination URI' },
+      { name: 'ds_select_dst', params: [i('set', 'Dispatcher set id'), i('alg', 'Selection algorithm (0 = hash Call-ID, 4 = round-robin, 8 = priority, ...)')], returns: 'code', description: 'Select a destination from the set and set it as destination URI', checkReturn: true },
+      { name: 'ds_select_dst_limit', params: [i('set'), i('alg'), i('limit')], returns: 'code', description: 'Select a destination as destination URI, keeping at most limit alternatives', checkReturn: true },
+      { name: 'ds_select_domain', params: [i('set', 'Dispatcher set id'), i('alg', 'Selection algorithm (0 = hash Call-ID, 4 = round-robin, 8 = priority, ...)')], returns: 'code', description: 'Select a destination from the set and rewrite the R-URI host and port', checkReturn: true },
+      { name: 'ds_select_domain_limit', params: [i('set'), i('alg'), i('limit')], returns: 'code', description: 'Select a destination for the R-URI, keeping at most limit alternatives', checkReturn: true },
+      { name: 'ds_select_routes', params: [s('rules'), s('mode')], returns: 'code', description: 'Select destinations from several sets using a set=alg rules list', since: '5.3', checkReturn: true },
+      { name: 'ds_select_routes_limit', params: [s('rules'), s('mode'), i('limit')], returns: 'code', description: 'Select destinations from several sets, keeping at most limit alternatives', checkReturn: true },
+      { name: 'ds_next_dst', params: [], returns: 'code', description: 'Use the next destination from the selected list as destination URI', checkReturn: true },
+      { name: 'ds_next_domain', params: [], returns: 'code', description: 'Use the next destination from the selected list for the R-URI', checkReturn: true },
+      { name: 'ds_mark_dst', params: [], returns: 'code', description: 'Mark the last used destination as inactive and probing' },
+      { name: 'ds_mark_dst_state', params: [s('state')], returns: 'code', description: 'Mark the last used destination with the given state' },
+      { name: 'ds_is_from_lists', params: [], returns: 'code', description: 'Check if the source address belongs to any dispatcher set' },
+      { name: 'ds_is_from_list', params: [i('set', 'Dispatcher set id (-1 for any set)')], returns: 'code', description: 'Check if the source address belongs to the given set' },
+      { name: 'ds_is_from_list_mode', params: [i('set'), i('mode')], returns: 'code', description: 'Check if the source address belongs to the given set, with matching mode' },
+      { name: 'ds_is_from_list_uri', params: [i('set'), i('mode'), s('uri')], returns: 'code', description: 'Check if the URI address belongs to the given set' },
+      { name: 'ds_is_active', params: [i('set')], returns: 'code', description: 'Check if the set has active destinations' },
+      { name: 'ds_is_active_uri', params: [i('set'), s('uri')], returns: 'code', description: 'Check if the given destination of the set is active' },
+      { name: 'ds_list_exists', params: [i('set')], returns: 'code', description: 'Check if the set exists' },
+      { name: 'ds_load_update', params: [], returns: 'code', description: 'Update the load of the call-load balanced destination' },
+      { name: 'ds_load_unset', params: [], returns: 'code', description: 'Remove the call from the load of the destination' },
+      { name: 'ds_reload', params: [], returns: 'code', description: 'Reload the dispatcher list' },
+      { name: 'ds_dsg_fetch', params: [i('set')], returns: 'code', description: 'Fetch the attributes of the set into $dsg' },
+    ],
+  },
+  {
+    name: 'textops',
+    kamailioModule: 'textops',
+    description: 'Text operations on the SIP message',
+    functions: [
+      { name: 'search', params: [s('sre')], returns: 'code', description: 'Search the message for a regular expression' },
+      { name: 'search_body', params: [s('sre')], returns: 'code', description: 'Search the message body for a regular expression' },
+      { name: 'search_hf', params: [s('hname'), s('sre'), s('flags')], returns: 'code', description: 'Search the header bodies for a regular expression' },
+      { name: 'search_append', params: [s('sre'), s('txt')], returns: 'code', description: 'Append text after the first regular expression match' },
+      { name: 'search_append_body', params: [s('sre'), s('txt')], returns: 'code', description: 'Append text after the first regular expression match in the body' },
+      { name: 'replace', params: [s('sre'), s('txt')], returns: 'code', description: 'Replace the first regular expression match' },
+      { name: 'replace_all', params: [s('sre'), s('txt')], returns: 'code', description: 'Replace all regular expression matches' },
+      { name: 'replace_body', params: [s('sre'), s('txt')], returns: 'code', description: 'Replace the first regular expression match in the body' },
+      { name: 'replace_body_all', params: [s('sre'), s('txt')], returns: 'code', description: 'Replace all regular expression matches in the body' },
+      { name: 'replace_body_atonce', params: [s('sre'), s('txt')], returns: 'code', description: 'Replace all regular expression matches in the body at once' },
+      { name: 'replace_hdrs', params: [s('sre'), s('txt')], returns: 'code', description: 'Replace the first regular expression match in the headers' },
+      { name: 'subst', params: [s('subst')], returns: 'code', description: 'Replace with a sed-like /re/repl/flags expression' },
+      { name: 'subst_uri', params: [s('subst')], returns: 'code', description: 'Rewrite the R-URI with a sed-like expression' },
+      { name: 'subst_user', params: [s('subst')], returns: 'code', description: 'Rewrite the R-URI user with a sed-like expression' },
+      { name: 'subst_body', params: [s('subst')], returns: 'code', description: 'Replace in the body with a sed-like expression' },
+      { name: 'subst_hf', params: [s('hname'), s('subst'), s('flags')], returns: 'code', description: 'Replace in header bodies with a sed-like expression' },
+      { name: 'is_present_hf', params: [s('hname')], returns: 'code', description: 'Check if a header is present' },
+      { name: 'is_present_hf_re', params: [s('sre')], returns: 'code', description: 'Check if a header whose name matches the regular expression is present' },
+      { name: 'remove_hf', params: [s('hname')], returns: 'code', description: 'Remove all headers with the given name' },
+      { name: 'remove_hf_re', params: [s('sre')], returns: 'code', description: 'Remove headers whose name matches the regular expression' },
+      { name: 'remove_hf_exp', params: [s('ematch'), s('eskip')], returns: 'code', description: 'Remove headers matching ematch but not eskip' },
+      { name: 'append_hf', params: [s('txt')], returns: 'code', description: 'Append header text after the last header' },
+      { name: 'append_hf_hdr', params: [s('txt'), s('hname')], returns: 'code', description: 'Append header text after the given header' },
+      { name: 'insert_hf', params: [s('txt')], returns: 'code', description: 'Insert header text before the first header' },
+      { name: 'insert_hf_hdr', params: [s('txt'), s('hname')], returns: 'code', description: 'Insert header text before the given header' },
+      { name: 'append_body_part', params: [s('txt'), s('ctype')], returns: 'code', description: 'Append a body part with the given content type' },
+      { name: 'remove_body_part', params: [s('ctype')], returns: 'code', description: 'Remove the body part with the given content type' },
+      { name: 'set_body', params: [s('nb'), s('nc')], returns: 'code', description: 'Set the body and content type of the request' },
+      { name: 'set_reply_body', params: [s('nb'), s('nc')], returns: 'code', description: 'Set the body and content type of the local reply' },
+      { name: 'set_body_multipart', params: [s('nb'), s('nc'), s('boundary')], returns: 'code', description: 'Convert the body to multipart' },
+      { name: 'filter_body', params: [s('ctype')], returns: 'code', description: 'Keep only the body part with the given content type' },
+      { name: 'has_body', params: [], returns: 'code', description: 'Check if the message has a body' },
+      { name: 'has_body_type', params: [s('ctype')], returns: 'code', description: 'Check if the message has a body of the given type' },
+      { name: 'is_privacy', params: [s('privacy')], returns: 'code', description: 'Check if the Privacy header contains the given value' },
+      { name: 'is_audio_on_hold', params: [], returns: 'code', description: 'Check if the SDP puts audio on hold' },
+      { name: 'in_list', params: [s('subject'), s('list'), s('vsep')], returns: 'code', description: 'Check if the subject is in the separated list' },
+      { name: 'in_list_prefix', params: [s('subject'), s('list'), s('vsep')], returns: 'code', description: 'Check if an item in the separated list is a prefix of the subject' },
+      { name: 'cmp_str', params: [s('str1'), s('str2')], returns: 'code', description: 'Compare two strings (case sensitive)' },
+      { name: 'cmp_istr', params: [s('str1'), s('str2')], returns: 'code', description: 'Compare two strings (case insensitive)' },
+      { name: 'starts_with', params: [s('sdata'), s('sprefix')], returns: 'code', description: 'Check if the string starts with the prefix' },
+      { name: 'str_find', params: [s('txt'), s('needle')], returns: 'int', description: 'Position of needle in the text (-1 if not found)' },
+      { name: 'str_ifind', params: [s('txt'), s('needle')], returns: 'int', description: 'Case insensitive position of needle in the text (-1 if not found)' },
+    ],
+  },
+  {
+    name: 'textopsx',
+    kamailioModule: 'textopsx',
+    description: 'Extended text operations on the SIP message',
+    functions: [
+      { name: 'msg_apply_changes', params: [], returns: 'code', description: 'Apply the pending changes to the message buffer' },
+      { name: 'change_reply_status', params: [i('code'), s('reason')], returns: 'code', description: 'Change the status code and reason of the reply' },
+      { name: 'remove_body', params: [], returns: 'code', description: 'Remove the message body' },
+      { name: 'keep_hf', params: [s('sre')], returns: 'code', description: 'Remove all headers except the mandatory ones and those matching the regular expression' },
+      { name: 'fnmatch', params: [s('val'), s('match')], returns: 'code', description: 'Match the value against a shell wildcard pattern' },
+      { name: 'append_hf_value', params: [s('hexp'), s('val')], returns: 'code', description: 'Append a value to a header body' },
+      { name: 'insert_hf_value', params: [s('hexp'), s('val')], returns: 'code', description: 'Insert a value into a header body' },
+      { name: 'remove_hf_value', params: [s('hexp')], returns: 'code', description: 'Remove a value from a header body' },
+      { name: 'assign_hf_value', params: [s('hexp'), s('val')], returns: 'code', description: 'Assign a value to a header body' },
+      { name: 'include_hf_value', params: [s('hname'), s('val')], returns: 'code', description: 'Add the value to the header body if not already there' },
+      { name: 'exclude_hf_value', params: [s('hname'), s('val')], returns: 'code', description: 'Remove the value from the header body' },
+      { name: 'hf_iterator_start', params: [s('iname')], returns: 'code', description: 'Start a header iterator' },
+      { name: 'hf_iterator_next', params: [s('iname')], returns: 'code', description: 'Move the header iterator to the next header' },
+      { name: 'hf_iterator_end', params: [s('iname')], returns: 'code', description: 'End a header iterator' },
+    ],
+  },
+  {
+    name: 'siputils',
+    kamailioModule: 'siputils',
+    description: 'SIP utilities',
+    functions: [
+      { name: 'has_totag', params: [], returns: 'code', description: 'Check if the To header has a tag (in-dialog request)' },
+      { name: 'is_reply', params: [], returns: 'code', description: 'Check if the message is a reply' },
+      { name: 'is_request', params: [], returns: 'code', description: 'Check if the message is a request' },
+      { name: 'is_first_hop', params: [], returns: 'code', description: 'Check if this is the first hop of the request' },
+      { name: 'is_user', params: [s('user')], returns: 'code', description: 'Check if the credentials username matches' },
+      { name: 'is_uri', params: [s('uri')], returns: 'code', description: 'Check if the value is a valid SIP URI' },
+      { name: 'is_tel_number', params: [s('tval')], returns: 'code', description: 'Check if the value is a telephone number (optional leading +)' },
+      { name: 'is_numeric', params: [s('tval')], returns: 'code', description: 'Check if the value contains only digits' },
+      { name: 'is_alphanum', params: [s('tval')], returns: 'code', description: 'Check if the value contains only alphanumeric characters' },
+      { name: 'is_e164', params: [s('tval')], returns: 'code', description: 'Check if the value is an E.164 number' },
+      { name: 'is_uri_user_e164', params: [s('uri')], returns: 'code', description: 'Check if the user part of the URI is an E.164 number' },
+      { name: 'is_gruu', params: [], returns: 'code', description: 'Check if the R-URI is a GRUU' },
+      { name: 'options_reply', params: [], returns: 'code', description: 'Reply to an OPTIONS request addressed to the server' },
+      { name: 'uri_param', params: [s('param')], returns: 'code', description: 'Check if the R-URI has the given parameter' },
+      { name: 'uri_param_value', params: [s('param'), s('value')], returns: 'code', description: 'Check if the R-URI has the given parameter with the given value' },
+      { name: 'add_uri_param', params: [s('param')], returns: 'code', description: 'Add a parameter to the R-URI' },
+      { name: 'tel2sip', params: [s('uri'), s('hostpart'), s('res')], returns: 'code', description: 'Convert a tel URI to a SIP URI and store it in the result PV' },
+      { name: 'cmp_uri', params: [s('uri1'), s('uri2')], returns: 'code', description: 'Compare two SIP URIs' },
+      { name: 'cmp_aor', params: [s('uri1'), s('uri2')], returns: 'code', description: 'Compare two addresses of record' },
+      { name: 'cmp_hdr_name', params: [s('hname1'), s('hname2')], returns: 'code', description: 'Compare two header names (handles compact forms)' },
+      { name: 'hdr_date_check', params: [i('tdiff')], returns: 'code', description: 'Check that the Date header is not older than tdiff seconds', since: '5.6' },
+      { name: 'contact_param_encode', params: [s('nparam'), s('saddr')], returns: 'code', description: 'Encode the Contact URI in a parameter of a new URI', since: '5.7' },
+      { name: 'contact_param_decode', params: [s('nparam')], returns: 'code', description: 'Decode the Contact URI from the given parameter', since: '5.7' },
+      { name: 'contact_param_decode_ruri', params: [s('nparam')], returns: 'code', description: 'Decode the R-URI from the given parameter', since: '5.7' },
+      { name: 'contact_param_rm', params: [s('nparam')], returns: 'code', description: 'Remove the given parameter from the Contact URI', since: '5.7' },
+    ],
+  },
+  {
+    name: 'maxfwd',
+    kamailioModule: 'maxfwd',
+    description: 'Max-Forwards header processing',
+    functions: [
+      { name: 'process_maxfwd', params: [i('limit', 'Value used when the header is missing, and upper bound for an existing one')], returns: 'code', description: 'Decrement Max-Forwards or add it with the limit (-1 when it reaches 0)', checkReturn: true },
+      { name: 'is_maxfwd_lt', params: [i('limit')], returns: 'code', description: 'Check if Max-Forwards is lower than the limit' },
+    ],
+  },
+  {
+    name: 'sanity',
+    kamailioModule: 'sanity',
+    description: 'SIP message sanity checks',
+    functions: [
+      { name: 'sanity_check', params: [i('mflags'), i('uflags')], returns: 'code', description: 'Run the selected sanity checks on the message', checkReturn: true },
+      { name: 'sanity_check_defaults', params: [], returns: 'code', description: 'Run the default sanity checks on the message', checkReturn: true },
+      { name: 'sanity_reply', params: [], returns: 'code', description: 'Send the reply for a failed sanity check (when autodrop is off)' },
+    ],
+  },
+  {
+    name: 'rr',
+    kamailioModule: 'rr',
+    description: 'Record-Route and Route header processing',
+    functions: [
+      { name: 'record_route', params: [], returns: 'code', description: 'Add a Record-Route header' },
+      { name: 'record_route_params', params: [s('params')], returns: 'code', description: 'Add a Record-Route header with extra parameters' },
+      { name: 'record_route_preset_one', params: [s('addr1')], returns: 'code', description: 'Add a Record-Route header with the given address' },
+      { name: 'record_route_preset', params: [s('addr1'), s('addr2')], returns: 'code', description: 'Add two Record-Route headers with the given addresses' },
+      { name: 'record_route_advertised_address', params: [s('addr')], returns: 'code', description: 'Add a Record-Route header with the given advertised address' },
+      { name: 'loose_route', params: [], returns: 'code', description: 'Route the request according to the Route headers', checkReturn: true },
+      { name: 'loose_route_preloaded', params: [], returns: 'code', description: 'Loose route, also for initial requests with preloaded Route headers', checkReturn: true },
+      { name: 'loose_route_mode', params: [i('mode')], returns: 'code', description: 'Loose route with the given mode flags', checkReturn: true },
+      { name: 'remove_record_route', params: [], returns: 'code', description: 'Remove the Record-Route headers added by this server' },
+      { name: 'add_rr_param', params: [s('param')], returns: 'code', description: 'Add a parameter to the Record-Route header' },
+      { name: 'check_route_param', params: [s('sre')], returns: 'code', description: 'Check if the Route parameters match the regular expression' },
+      { name: 'is_direction', params: [s('dir')], returns: 'code', description: 'Check the direction of an in-dialog request (upstream/downstream)' },
+      { name: 'rr_next_hop_route', params: [], returns: 'code', description: 'Check if a Route header remains after loose routing' },
+    ],
+  },
+  {
+    name: 'nathelper',
+    kamailioModule: 'nathelper',
+    description: 'NAT traversal helpers',
+    functions: [
+      { name: 'nat_uac_test', params: [i('mode')], returns: 'code', description: 'Check if the UAC is behind NAT using the tests selected by mode' },
+      { name: 'fix_nated_contact', params: [], returns: 'code', description: 'Rewrite the Contact with the source address and port' },
+      { name: 'fix_nated_register', params: [], returns: 'code', description: 'Save the source address for the REGISTER contact' },
+      { name: 'fix_nated_sdp', params: [i('level')], returns: 'code', description: 'Rewrite the SDP to work behind NAT' },
+      { name: 'fix_nated_sdp_ip', params: [i('level'), s('ip')], returns: 'code', description: 'Rewrite the SDP with the given IP' },
+      { name: 'add_contact_alias', params: [], returns: 'code', description: 'Add an alias parameter with the source address to the Contact' },
+      { name: 'add_contact_alias_addr', params: [s('ip'), s('port'), s('proto')], returns: 'code', description: 'Add an alias parameter with the given address to the Contact' },
+      { name: 'handle_ruri_alias', params: [], returns: 'code', description: 'Use the alias parameter of the R-URI as destination URI' },
+      { name: 'handle_ruri_alias_mode', params: [i('mode')], returns: 'code', description: 'Use the alias parameter of the R-URI as destination URI, with mode' },
+      { name: 'set_contact_alias', params: [], returns: 'code', description: 'Add the alias parameter to the Contact in the outgoing message' },
+      { name: 'set_contact_alias_trim', params: [i('trim')], returns: 'code', description: 'Set the alias parameter, removing an existing one if trim is set', since: '5.7' },
+      { name: 'set_alias_to_pv', params: [s('pvname')], returns: 'code', description: 'Store the alias of the Contact as URI in the given PV' },
+      { name: 'is_rfc1918', params: [s('address')], returns: 'code', description: 'Check if the address is a private (RFC 1918) address' },
+    ],
+  },
+  {
+    name: 'rtpengine',
+    kamailioModule: 'rtpengine',
+    description: 'RTP relaying through rtpengine',
+    functions: [
+      { name: 'rtpengine_manage', params: [s('flags')], returns: 'code', description: 'Offer, answer or delete depending on the message' },
+      { name: 'rtpengine_manage0', params: [], returns: 'code', description: 'Offer, answer or delete depending on the message, without flags' },
+      { name: 'rtpengine_offer', params: [s('flags')], returns: 'code', description: 'Send an offer command to rtpengine' },
+      { name: 'rtpengine_offer0', params: [], returns: 'code', description: 'Send an offer command to rtpengine without flags' },
+      { name: 'rtpengine_answer', params: [s('flags')], returns: 'code', description: 'Send an answer command to rtpengine' },
+      { name: 'rtpengine_answer0', params: [], returns: 'code', description: 'Send an answer command to rtpengine without flags' },
+      { name: 'rtpengine_delete', params: [s('flags')], returns: 'code', description: 'Delete the rtpengine session' },
+      { name: 'rtpengine_delete0', params: [], returns: 'code', description: 'Delete the rtpengine session without flags' },
+      { name: 'rtpengine_query', params: [s('flags')], returns: 'code', description: 'Query the rtpengine session statistics' },
+      { name: 'rtpengine_query0', params: [], returns: 'code', description: 'Query the rtpengine session statistics without flags' },
+      { name: 'start_recording', params: [], returns: 'code', description: 'Start recording the session' },
+      { name: 'stop_recording', params: [], returns: 'code', description: 'Stop recording the session' },
+      { name: 'block_media', params: [s('flags')], returns: 'code', description: 'Block media for the session' },
+      { name: 'unblock_media', params: [s('flags')], returns: 'code', description: 'Unblock media for the session' },
+      { name: 'silence_media', params: [s('flags')], returns: 'code', description: 'Replace media with silence', since: '5.7' },
+      { name: 'unsilence_media', params: [s('flags')], returns: 'code', description: 'Stop replacing media with silence', since: '5.7' },
+      { name: 'block_dtmf', params: [s('flags')], returns: 'code', description: 'Block DTMF events' },
+      { name: 'unblock_dtmf', params: [s('flags')], returns: 'code', description: 'Unblock DTMF events' },
+      { name: 'play_media', params: [s('flags')], returns: 'code', description: 'Play a media file into the session' },
+      { name: 'stop_media', params: [s('flags')], returns: 'code', description: 'Stop playing media into the session' },
+      { name: 'play_dtmf', params: [s('flags')], returns: 'code', description: 'Inject a DTMF event into the session' },
+      { name: 'set_rtpengine_set', params: [i('rset')], returns: 'code', description: 'Select the rtpengine set to use' },
+      { name: 'set_rtpengine_set2', params: [i('rset1'), i('rset2')], returns: 'code', description: 'Select the rtpengine sets for the offer and the answer' },
+    ],
+  },
+  {
+    name: 'rtpproxy',
+    kamailioModule: 'rtpproxy',
+    description: 'RTP relaying through rtpproxy',
+    functions: [
+      { name: 'rtpproxy_manage', params: [s('flags')], returns: 'code', description: 'Offer, answer or destroy depending on the message' },
+      { name: 'rtpproxy_manage0', params: [], returns: 'code', description: 'Offer, answer or destroy depending on the message, without flags' },
+      { name: 'rtpproxy_offer', params: [s('flags')], returns: 'code', description: 'Send an offer command to rtpproxy' },
+      { name: 'rtpproxy_answer', params: [s('flags')], returns: 'code', description: 'Send an answer command to rtpproxy' },
+      { name: 'rtpproxy_destroy', params: [s('flags')], returns: 'code', description: 'Destroy the rtpproxy session' },
+      { name: 'set_rtpproxy_set', params: [i('rset')], returns: 'code', description: 'Select the rtpproxy set to use' },
+      { name: 'start_recording', params: [], returns: 'code', description: 'Start recording the session' },
+    ],
+  },
+  {
+    name: 'htable',
+    kamailioModule: 'htable',
+    description: 'Shared memory hash tables',
+    functions: [
+      { name: 'sht_get', params: [s('htname', 'Hash table name, as declared with modparam("htable", "htable", ...)'), s('itname', 'Item key')], returns: 'xval', description: 'Get an item value ($null if missing)' },
+      { name: 'sht_gete', params: [s('htname'), s('itname')], returns: 'xval', description: 'Get an item value (empty string if missing)' },
+      { name: 'sht_getw', params: [s('htname'), s('itname')], returns: 'xval', description: 'Get an item value ("<<null>>" if missing)' },
+      { name: 'sht_sets', params: [s('htname', 'Hash table name, as declared with modparam("htable", "htable", ...)'), s('itname', 'Item key'), s('itval', 'String value')], returns: 'code', description: 'Set an item to a string value' },
+      { name: 'sht_seti', params: [s('htname', 'Hash table name, as declared with modparam("htable", "htable", ...)'), s('itname', 'Item key'), i('itval', 'Integer value')], returns: 'code', description: 'Set an item to an integer value' },
+      { name: 'sht_setxs', params: [s('htname'), s('itname'), s('itval'), i('exval')], returns: 'code', description: 'Set an item to a string value with expire' },
+      { name: 'sht_setxi', params: [s('htname'), s('itname'), i('itval'), i('exval')], returns: 'code', description: 'Set an item to an integer value with expire' },
+      { name: 'sht_inc', params: [s('htname'), s('itname')], returns: 'int', description: 'Increment an integer item and return the new value' },
+      { name: 'sht_dec', params: [s('htname'), s('itname')], returns: 'int', description: 'Decrement an integer item and return the new value' },
+      { name: 'sht_rm', params: [s('htname'), s('itname')], returns: 'code', description: 'Remove an item' },
+      { name: 'sht_rm_name_re', params: [s('htname'), s('rexp')], returns: 'code', description: 'Remove the items whose name matches the regular expression' },
+      { name: 'sht_rm_value_re', params: [s('htname'), s('rexp')], returns: 'code', description: 'Remove the items whose value matches the regular expression' },
+      { name: 'sht_rm_name', params: [s('htname'), s('op'), s('val')], returns: 'code', description: 'Remove the items whose name matches (op: re, sw)' },
+      { name: 'sht_rm_value', params: [s('htname'), s('op'), s('val')], returns: 'code', description: 'Remove the items whose value matches (op: re, sw)' },
+      { name: 'sht_is_null', params: [s('htname'), s('itname')], returns: 'code', description: 'Check if the item is missing' },
+      { name: 'sht_match_name', params: [s('htname'), s('op'), s('mval')], returns: 'code', description: 'Check if an item name matches (op: eq, ne, re, sw)' },
+      { name: 'sht_match_str_value', params: [s('htname'), s('op'), s('mval')], returns: 'code', description: 'Check if an item string value matches (op: eq, ne, re, sw)' },
+      { name: 'sht_has_name', params: [s('htname'), s('op'), s('mval')], returns: 'code', description: 'Check if the table has an item name matching (op: eq, ne, re, sw)', since: '5.5' },
+      { name: 'sht_has_str_value', params: [s('htname'), s('op'), s('mval')], returns: 'code', description: 'Check if the table has an item string value matching (op: eq, ne, re, sw)', since: '5.5' },
+      { name: 'sht_lock', params: [s('htname'), s('skey')], returns: 'code', description: 'Lock the slot of the given key' },
+      { name: 'sht_unlock', params: [s('htname'), s('skey')], returns: 'code', description: 'Unlock the slot of the given key' },
+      { name: 'sht_reset', params: [s('htname')], returns: 'code', description: 'Remove all items of the table' },
+      { name: 'sht_iterator_start', params: [s('iname'), s('htname')], returns: 'code', description: 'Start an iterator over the table' },
+      { name: 'sht_iterator_next', params: [s('iname')], returns: 'code', description: 'Move the iterator to the next item' },
+      { name: 'sht_iterator_end', params: [s('iname')], returns: 'code', description: 'End the iterator' },
+      { name: 'sht_iterator_rm', params: [s('iname')], returns: 'code', description: 'Remove the current item of the iterator' },
+      { name: 'sht_iterator_sets', params: [s('iname'), s('sval')], returns: 'code', description: 'Set the current item of the iterator to a string value' },
+      { name: 'sht_iterator_seti', params: [s('iname'), i('ival')], returns: 'code', description: 'Set the current item of the iterator to an integer value' },
+      { name: 'sht_iterator_setex', params: [s('iname'), i('exval')], returns: 'code', description: 'Set the expire of the current item of the iterator' },
+    ],
+  },
+  {
+    name: 'statistics',
+    kamailioModule: 'statistics',
+    description: 'Script statistics',
+    functions: [
+      { name: 'update_stat', params: [s('sname', 'Statistic name, as declared with modparam("statistics", "variable", ...)'), i('sval', 'Value to add (may be negative)')], returns: 'code', description: 'Add the value to the statistic' },
+      { name: 'reset_stat', params: [s('sname')], returns: 'code', description: 'Reset the statistic to 0' },
+    ],
+  },
+  {
+    name: 'pike',
+    kamailioModule: 'pike',
+    description: 'Flood detection',
+    functions: [
+      { name: 'pike_check_req', params: [], returns: 'code', description: 'Check the source IP of the request against the flood limits', checkReturn: true },
+      { name: 'pike_check_ip', params: [s('strip')], returns: 'code', description: 'Check the given IP against the flood limits', checkReturn: true },
+    ],
+  },
+  {
+    name: 'permissions',
+    kamailioModule: 'permissions',
+    description: 'Access control lists',
+    functions: [
+      { name: 'allow_source_address', params: [i('addr_group')], returns: 'code', description: 'Check if the source address and port are in the address group', checkReturn: true },
+      { name: 'allow_source_address_group', params: [], returns: 'int', description: 'Return the address group of the source address (-1 if not found)' },
+      { name: 'allow_address', params: [i('addr_group'), s('ips'), i('port')], returns: 'code', description: 'Check if the address and port are in the address group' },
+      { name: 'allow_address_group', params: [s('addr'), i('port')], returns: 'int', description: 'Return the address group of the address (-1 if not found)' },
+      { name: 'allow_trusted', params: [], returns: 'code', description: 'Check if the source is in the trusted table' },
+      { name: 'allow_routing', params: [], returns: 'code', description: 'Check the request against the default allow/deny files' },
+      { name: 'allow_routing_basename', params: [s('basename')], returns: 'code', description: 'Check the request against the basename.allow/deny files' },
+      { name: 'allow_register', params: [s('basename')], returns: 'code', description: 'Check the REGISTER against the basename.allow/deny files' },
+      { name: 'allow_uri', params: [s('basename'), s('uri')], returns: 'code', description: 'Check the URI against the basename.allow/deny files' },
+    ],
+  },
+  {
+    name: 'acc',
+    kamailioModule: 'acc',
+    description: 'Accounting',
+    functions: [
+      { name: 'acc_log_request', params: [s('comment')], returns: 'code', description: 'Write an accounting record to syslog' },
+      { name: 'acc_db_request', params: [s('comment'), s('dbtable')], returns: 'code', description: 'Write an accounting record to the database table' },
+      { name: 'acc_request', params: [s('comment'), s('dbtable')], returns: 'code', description: 'Write an accounting record to all enabled backends' },
+    ],
+  },
+  {
+    name: 'dialog',
+    kamailioModule: 'dialog',
+    description: 'Dialog tracking',
+    functions: [
+      { name: 'dlg_manage', params: [], returns: 'code', description: 'Start tracking the dialog for the INVITE' },
+      { name: 'dlg_bye', params: [s('side')], returns: 'code', description: 'Send BYE to the caller, callee or both sides' },
+      { name: 'is_known_dlg', params: [], returns: 'code', description: 'Check if the message belongs to a tracked dialog' },
+      { name: 'dlg_set_timeout', params: [i('to')], returns: 'code', description: 'Set the dialog timeout (seconds)' },
+      { name: 'dlg_set_timeout_id', params: [i('to'), i('he'), i('hid')], returns: 'code', description: 'Set the timeout of the dialog with the given hash entry and id' },
+      { name: 'dlg_set_property', params: [s('pval')], returns: 'code', description: 'Set a dialog property (ka-src, ka-dst, timeout-noreset)' },
+      { name: 'dlg_reset_property', params: [s('pval')], returns: 'code', description: 'Reset a dialog property' },
+      { name: 'dlg_get', params: [s('callid'), s('ftag'), s('ttag')], returns: 'code', description: 'Look up the dialog and make it the current dialog context' },
+      { name: 'dlg_isflagset', params: [i('flag')], returns: 'code', description: 'Check if the dialog flag is set' },
+      { name: 'dlg_setflag', params: [i('flag')], returns: 'code', description: 'Set a dialog flag' },
+      { name: 'dlg_resetflag', params: [i('flag')], returns: 'code', description: 'Reset a dialog flag' },
+      { name: 'dlg_db_load_callid', params: [s('callid')], returns: 'code', description: 'Load the dialog with the Call-ID from the database' },
+      { name: 'set_dlg_profile', params: [s('sprofile')], returns: 'code', description: 'Add the dialog to a profile without value' },
+      { name: 'set_dlg_profile_value', params: [s('sprofile'), s('svalue')], returns: 'code', description: 'Add the dialog to a profile with value' },
+      { name: 'unset_dlg_profile', params: [s('sprofile')], returns: 'code', description: 'Remove the dialog from a profile' },
+      { name: 'unset_dlg_profile_value', params: [s('sprofile'), s('svalue')], returns: 'code', description: 'Remove the dialog from a profile with value' },
+      { name: 'is_in_profile', params: [s('sprofile')], returns: 'code', description: 'Check if the dialog is in the profile' },
+      { name: 'is_in_profile_value', params: [s('sprofile'), s('svalue')], returns: 'code', description: 'Check if the dialog is in the profile with the value' },
+      { name: 'var_get', params: [s('name')], returns: 'xval', description: 'Get a dialog variable ($null if missing)' },
+      { name: 'var_gete', params: [s('name')], returns: 'xval', description: 'Get a dialog variable (empty string if missing)' },
+      { name: 'var_sets', params: [s('name'), s('val')], returns: 'code', description: 'Set a dialog variable' },
+      { name: 'var_rm', params: [s('name')], returns: 'code', description: 'Remove a dialog variable' },
+    ],
+  },
+  {
+    name: 'uac',
+    kamailioModule: 'uac',
+    description: 'User agent client functions',
+    functions: [
+      { name: 'uac_replace_from', params: [s('display'), s('uri')], returns: 'code', description: 'Replace the From display name and URI' },
+      { name: 'uac_replace_from_uri', params: [s('uri')], returns: 'code', description: 'Replace the From URI' },
+      { name: 'uac_replace_to', params: [s('display'), s('uri')], returns: 'code', description: 'Replace the To display name and URI' },
+      { name: 'uac_replace_to_uri', params: [s('uri')], returns: 'code', description: 'Replace the To URI' },
+      { name: 'uac_restore_from', params: [], returns: 'code', description: 'Restore the original From header' },
+      { name: 'uac_restore_to', params: [], returns: 'code', description: 'Restore the original To header' },
+      { name: 'uac_auth', params: [], returns: 'code', description: 'Authenticate the request against a 401/407 challenge (failure route)' },
+      { name: 'uac_auth_mode', params: [i('mode')], returns: 'code', description: 'Authenticate the request against a 401/407 challenge, with mode' },
+      { name: 'uac_req_send', params: [], returns: 'code', description: 'Send the request prepared in $uac_req' },
+      { name: 'uac_reg_lookup', params: [s('uuid'), s('dst')], returns: 'code', description: 'Look up the remote registration by uuid and store the local URI in dst' },
+      { name: 'uac_reg_lookup_uri', params: [s('uri'), s('dst')], returns: 'code', description: 'Look up the remote registration by URI and store the uuid in dst' },
+      { name: 'uac_reg_status', params: [s('uuid')], returns: 'code', description: 'Check the status of a remote registration' },
+      { name: 'uac_reg_request_to', params: [s('user'), i('mode')], returns: 'code', description: 'Set the R-URI and authentication for a remote registration' },
+      { name: 'uac_reg_enable', params: [s('attr'), s('val')], returns: 'code', description: 'Enable a remote registration' },
+      { name: 'uac_reg_disable', params: [s('attr'), s('val')], returns: 'code', description: 'Disable a remote registration' },
+      { name: 'uac_reg_refresh', params: [s('luuid')], returns: 'code', description: 'Reload a remote registration from the database' },
+    ],
+  },
+  {
+    name: 'async',
+    kamailioModule: 'async',
+    description: 'Asynchronous execution',
+    functions: [
+      { name: 'route', params: [s('rn', 'Name of the method on the KEMI class to run'), i('s', 'Delay in seconds')], returns: 'code', description: 'Suspend the transaction and execute the function after s seconds' },
+      { name: 'ms_route', params: [s('rn', 'Name of the method on the KEMI class to run'), i('ms', 'Delay in milliseconds')], returns: 'code', description: 'Suspend the transaction and execute the function after ms milliseconds' },
+      { name: 'task_route', params: [s('rn', 'Name of the method on the KEMI class to run')], returns: 'code', description: 'Suspend the transaction and execute the function in an async worker' },
+    ],
+  },
+  {
+    name: 'http_async_client',
+    kamailioModule: 'http_async_client',
+    description: 'Asynchronous HTTP client',
+    functions: [
+      { name: 'query', params: [s('sdata', 'Request URL'), s('rn', 'Name of the method on the KEMI class to run with the response')], returns: 'code', description: 'Send an HTTP request and execute the function when the response arrives' },
+    ],
+  },
+  {
+    name: 'http_client',
+    kamailioModule: 'http_client',
+    description: 'Synchronous HTTP client',
+    functions: [
+      { name: 'query', params: [s('url'), s('dpv')], returns: 'code', description: 'Send an HTTP GET and store the response in the PV' },
+      { name: 'query_post', params: [s('url'), s('post'), s('dpv')], returns: 'code', description: 'Send an HTTP POST and store the response in the PV' },
+      { name: 'query_post_hdrs', params: [s('url'), s('post'), s('hdrs'), s('dpv')], returns: 'code', description: 'Send an HTTP POST with extra headers and store the response in the PV' },
+      { name: 'get_hdrs', params: [s('url'), s('hdrs'), s('dpv')], returns: 'code', description: 'Send an HTTP GET with extra headers and store the response in the PV' },
+      { name: 'curl_connect', params: [s('con'), s('url'), s('dpv')], returns: 'code', description: 'Send an HTTP GET over a named connection' },
+      { name: 'curl_connect_post', params: [s('con'), s('url'), s('ctype'), s('data'), s('dpv')], returns: 'code', description: 'Send an HTTP POST over a named connection' },
+    ],
+  },
+  {
+    name: 'jsonrpcs',
+    kamailioModule: 'jsonrpcs',
+    description: 'JSON-RPC server',
+    functions: [
+      { name: 'exec', params: [s('cmd')], returns: 'code', description: 'Execute a JSON-RPC command and store the result in $jsonrpl' },
+      { name: 'dispatch', params: [], returns: 'code', description: 'Handle the JSON-RPC request received over HTTP' },
+    ],
+  },
+  {
+    name: 'sqlops',
+    kamailioModule: 'sqlops',
+    description: 'SQL queries from the script',
+    functions: [
+      { name: 'sql_query', params: [s('scon'), s('squery'), s('sres')], returns: 'code', description: 'Execute the query and store the result in the named container', checkReturn: true },
+      { name: 'sql_query_async', params: [s('scon'), s('squery')], returns: 'code', description: 'Execute the query asynchronously (result is discarded)' },
+      { name: 'sql_xquery', params: [s('scon'), s('squery'), s('sres')], returns: 'code', description: 'Execute the query and store the result in an xavp' },
+      { name: 'sql_pvquery', params: [s('scon'), s('squery'), s('sres')], returns: 'code', description: 'Execute the query and store the columns in the listed PVs' },
+      { name: 'sql_result_free', params: [s('sres')], returns: 'code', description: 'Free the result container' },
+    ],
+  },
+  {
+    name: 'ndb_redis',
+    kamailioModule: 'ndb_redis',
+    description: 'Redis client',
+    functions: [
+      { name: 'redis_cmd', params: [s('srv'), s('rcmd'), s('sres')], returns: 'code', description: 'Execute a Redis command and store the reply in $redis(sres)', checkReturn: true },
+      { name: 'redis_cmd_p1', params: [s('srv'), s('rcmd'), s('p1'), s('sres')], returns: 'code', description: 'Execute a Redis command with one parameter', checkReturn: true },
+      { name: 'redis_cmd_p2', params: [s('srv'), s('rcmd'), s('p1'), s('p2'), s('sres')], returns: 'code', description: 'Execute a Redis command with two parameters', checkReturn: true },
+      { name: 'redis_cmd_p3', params: [s('srv'), s('rcmd'), s('p1'), s('p2'), s('p3'), s('sres')], returns: 'code', description: 'Execute a Redis command with three parameters', checkReturn: true },
+      { name: 'redis_free', params: [s('sres')], returns: 'code', description: 'Free the Redis reply container' },
+    ],
+  },
+  {
+    name: 'xlog',
+    kamailioModule: 'xlog',
+    description: 'Formatted logging with PV expansion',
+    functions: [
+      { name: 'xlog', params: [s('slevel'), s('lmsg')], returns: 'code', description: 'Log the message with PVs expanded at the given level' },
+      { name: 'xdbg', params: [s('lmsg')], returns: 'code', description: 'Log the message with PVs expanded at debug level' },
+      { name: 'xinfo', params: [s('lmsg')], returns: 'code', description: 'Log the message with PVs expanded at info level' },
+      { name: 'xnotice', params: [s('lmsg')], returns: 'code', description: 'Log the message with PVs expanded at notice level' },
+      { name: 'xwarn', params: [s('lmsg')], returns: 'code', description: 'Log the message with PVs expanded at warning level' },
+      { name: 'xerr', params: [s('lmsg')], returns: 'code', description: 'Log the message with PVs expanded at error level' },
+      { name: 'xbug', params: [s('lmsg')], returns: 'code', description: 'Log the message with PVs expanded at bug level' },
+      { name: 'xcrit', params: [s('lmsg')], returns: 'code', description: 'Log the message with PVs expanded at critical level' },
+      { name: 'xalert', params: [s('lmsg')], returns: 'code', description: 'Log the message with PVs expanded at alert level' },
+    ],
+  },
+  {
+    name: 'siptrace',
+    kamailioModule: 'siptrace',
+    description: 'SIP traffic tracing',
+    functions: [
+      { name: 'sip_trace', params: [], returns: 'code', description: 'Trace the message to the configured destination' },
+      { name: 'sip_trace_dst', params: [s('duri')], returns: 'code', description: 'Trace the message to the given destination' },
+      { name: 'sip_trace_dst_cid', params: [s('duri'), s('cid')], returns: 'code', description: 'Trace the message to the given destination with correlation id' },
+      { name: 'sip_trace_dst_cid_type', params: [s('duri'), s('cid'), s('type')], returns: 'code', description: 'Trace the message, transaction or dialog to the given destination' },
+    ],
+  },
+  {
+    name: 'sdpops',
+    kamailioModule: 'sdpops',
+    description: 'SDP operations',
+    functions: [
+      { name: 'sdp_remove_codecs_by_id', params: [s('codecs')], returns: 'code', description: 'Remove the codecs with the given payload ids' },
+      { name: 'sdp_remove_codecs_by_name', params: [s('codecs')], returns: 'code', description: 'Remove the codecs with the given names' },
+      { name: 'sdp_keep_codecs_by_id', params: [s('codecs'), s('media')], returns: 'code', description: 'Keep only the codecs with the given payload ids' },
+      { name: 'sdp_keep_codecs_by_name', params: [s('codecs'), s('media')], returns: 'code', description: 'Keep only the codecs with the given names' },
+      { name: 'sdp_with_codecs_by_id', params: [s('codecs')], returns: 'code', description: 'Check if the SDP has the codecs with the given payload ids' },
+      { name: 'sdp_with_codecs_by_name', params: [s('codecs')], returns: 'code', description: 'Check if the SDP has the codecs with the given names' },
+      { name: 'sdp_with_media', params: [s('media')], returns: 'code', description: 'Check if the SDP has the given media type' },
+      { name: 'sdp_with_active_media', params: [s('media')], returns: 'code', description: 'Check if the SDP has the given active media type' },
+      { name: 'sdp_with_transport', params: [s('transport')], returns: 'code', description: 'Check if the SDP has the given transport' },
+      { name: 'sdp_with_ice', params: [], returns: 'code', description: 'Check if the SDP has ICE attributes' },
+      { name: 'sdp_remove_media', params: [s('media')], returns: 'code', description: 'Remove the streams of the given media type' },
+      { name: 'sdp_remove_transport', params: [s('transport')], returns: 'code', description: 'Remove the streams with the given transport' },
+      { name: 'sdp_remove_line_by_prefix', params: [s('prefix'), s('media')], returns: 'code', description: 'Remove the lines starting with the prefix', since: '5.5' },
+      { name: 'sdp_print', params: [i('level')], returns: 'code', description: 'Print the parsed SDP at the given log level' },
+      { name: 'sdp_content', params: [], returns: 'code', description: 'Check if the message has an SDP body' },
+      { name: 'sdp_content_flags', params: [i('flags')], returns: 'code', description: 'Check if the message has an SDP body, with flags' },
+    ],
+  },
+  {
+    name: 'sst',
+    kamailioModule: 'sst',
+    description: 'SIP session timers',
+    functions: [
+      { name: 'sst_check_min', params: [i('flag')], returns: 'code', description: 'Check the Session-Expires against the configured minimum, replying 422 if flag is set' },
+    ],
+  },
+  {
+    name: 'path',
+    kamailioModule: 'path',
+    description: 'Path header support',
+    functions: [
+      { name: 'add_path', params: [], returns: 'code', description: 'Add a Path header' },
+      { name: 'add_path_user', params: [s('user')], returns: 'code', description: 'Add a Path header with the given user' },
+      { name: 'add_path_received', params: [], returns: 'code', description: 'Add a Path header with the received parameter' },
+      { name: 'add_path_received_user', params: [s('user')], returns: 'code', description: 'Add a Path header with the received parameter and the given user' },
+    ],
+  },
+  {
+    name: 'cfgutils',
+    kamailioModule: 'cfgutils',
+    description: 'Configuration utilities',
+    functions: [
+      { name: 'rand_event', params: [], returns: 'code', description: 'Return true with the configured probability' },
+      { name: 'rand_set_prob', params: [i('percent')], returns: 'code', description: 'Set the probability for rand_event' },
+      { name: 'rand_reset_prob', params: [], returns: 'code', description: 'Reset the probability for rand_event' },
+      { name: 'rand_get_prob', params: [], returns: 'int', description: 'Get the probability for rand_event' },
+      { name: 'lock', params: [s('lkey')], returns: 'code', description: 'Lock the slot for the key' },
+      { name: 'unlock', params: [s('lkey')], returns: 'code', description: 'Unlock the slot for the key' },
+      { name: 'trylock', params: [s('lkey')], returns: 'code', description: 'Try to lock the slot for the key without blocking' },
+      { name: 'sleep', params: [i('v')], returns: 'code', description: 'Sleep for the given number of seconds' },
+      { name: 'usleep', params: [i('v')], returns: 'code', description: 'Sleep for the given number of microseconds' },
+      { name: 'core_hash', params: [s('s1'), s('s2'), i('sz')], returns: 'int', description: 'Compute the core hash of the strings modulo size' },
+      { name: 'check_config_hash', params: [], returns: 'code', description: 'Check if the config file hash changed' },
+    ],
+  },
+  {
+    name: 'corex',
+    kamailioModule: 'corex',
+    description: 'Core extensions',
+    functions: [
+      { name: 'append_branch', params: [], returns: 'code', description: 'Append the current R-URI as a new branch' },
+      { name: 'append_branch_uri', params: [s('uri')], returns: 'code', description: 'Append the given URI as a new branch' },
+      { name: 'append_branch_uri_q', params: [s('uri'), s('q')], returns: 'code', description: 'Append the given URI as a new branch with q value' },
+      { name: 'set_recv_socket', params: [s('ssock')], returns: 'code', description: 'Set the receiving socket of the message' },
+      { name: 'set_send_socket', params: [s('ssock')], returns: 'code', description: 'Set the sending socket for forwarding' },
+      { name: 'set_source_address', params: [s('saddr')], returns: 'code', description: 'Set the source address of the message' },
+      { name: 'has_ruri_user', params: [], returns: 'code', description: 'Check if the R-URI has a user part' },
+      { name: 'has_user_agent', params: [], returns: 'code', description: 'Check if the message has a User-Agent header' },
+      { name: 'via_add_srvid', params: [i('fval')], returns: 'code', description: 'Add the server id parameter to the local Via' },
+      { name: 'via_add_xavp_params', params: [i('fval')], returns: 'code', description: 'Add the xavp fields as parameters to the local Via' },
+      { name: 'file_read', params: [s('fname'), s('vname')], returns: 'code', description: 'Read the file content into the PV' },
+      { name: 'file_write', params: [s('fname'), s('content')], returns: 'code', description: 'Write the content to the file' },
+      { name: 'is_faked_msg', params: [], returns: 'code', description: 'Check if the message is a faked (internally built) one' },
+      { name: 'msg_iflag_set', params: [s('fname')], returns: 'code', description: 'Set an internal message flag' },
+      { name: 'msg_iflag_reset', params: [s('fname')], returns: 'code', description: 'Reset an internal message flag' },
+      { name: 'msg_iflag_is_set', params: [s('fname')], returns: 'code', description: 'Check if an internal message flag is set' },
+    ],
+  },
+  {
+    name: 'domain',
+    kamailioModule: 'domain',
+    description: 'Local domain checks',
+    functions: [
+      { name: 'is_from_local', params: [], returns: 'code', description: 'Check if the From URI domain is local' },
+      { name: 'is_uri_host_local', params: [], returns: 'code', description: 'Check if the R-URI host is local' },
+      { name: 'is_domain_local', params: [s('sdomain')], returns: 'code', description: 'Check if the domain is local' },
+      { name: 'lookup_domain', params: [s('sdomain'), s('sprefix')], returns: 'code', description: 'Look up the domain and load its attributes' },
+    ],
+  },
+  {
+    name: 'alias_db',
+    kamailioModule: 'alias_db',
+    description: 'Database aliases',
+    functions: [
+      { name: 'lookup', params: [s('table')], returns: 'code', description: 'Replace the R-URI with the canonical URI of the alias' },
+    ],
+  },
+  {
+    name: 'dialplan',
+    kamailioModule: 'dialplan',
+    description: 'Dialplan translations',
+    functions: [
+      { name: 'dp_match', params: [i('dpid'), s('src')], returns: 'code', description: 'Match the string against the dialplan rules' },
+      { name: 'dp_replace', params: [i('dpid'), s('src'), s('dst')], returns: 'code', description: 'Translate the string with the dialplan rules and store it in the PV' },
+      { name: 'dp_translate', params: [i('dpid'), s('spvs')], returns: 'code', description: 'Translate the PV value with the dialplan rules' },
+    ],
+  },
+  {
+    name: 'lcr',
+    kamailioModule: 'lcr',
+    description: 'Least cost routing',
+    functions: [
+      { name: 'load_gws', params: [i('lcr_id')], returns: 'code', description: 'Load the matching gateways for the R-URI user' },
+      { name: 'load_gws_furi', params: [i('lcr_id'), s('ruri_user'), s('from_uri')], returns: 'code', description: 'Load the matching gateways for the user and From URI' },
+      { name: 'next_gw', params: [], returns: 'code', description: 'Use the next loaded gateway' },
+      { name: 'defunct_gw', params: [i('period')], returns: 'code', description: 'Mark the current gateway as defunct for the period' },
+      { name: 'from_gw', params: [i('lcr_id')], returns: 'code', description: 'Check if the request comes from a gateway of the instance' },
+      { name: 'from_any_gw', params: [], returns: 'code', description: 'Check if the request comes from any gateway' },
+      { name: 'to_gw', params: [i('lcr_id')], returns: 'code', description: 'Check if the request goes to a gateway of the instance' },
+      { name: 'to_any_gw', params: [], returns: 'code', description: 'Check if the request goes to any gateway' },
+    ],
+  },
+  {
+    name: 'drouting',
+    kamailioModule: 'drouting',
+    description: 'Dynamic routing',
+    functions: [
+      { name: 'do_routing', params: [s('grp')], returns: 'code', description: 'Route the request using the rules of the group' },
+      { name: 'next_routing', params: [], returns: 'code', description: 'Use the next gateway of the routing rule' },
+      { name: 'use_next_gw', params: [], returns: 'code', description: 'Use the next gateway of the routing rule' },
+      { name: 'is_from_gw', params: [], returns: 'code', description: 'Check if the request comes from a gateway' },
+      { name: 'goes_to_gw', params: [i('type')], returns: 'code', description: 'Check if the request goes to a gateway of the type' },
+    ],
+  },
+  {
+    name: 'pipelimit',
+    kamailioModule: 'pipelimit',
+    description: 'Traffic shaping with pipes',
+    functions: [
+      { name: 'pl_check', params: [s('pipeid')], returns: 'code', description: 'Check the pipe limit for the current message' },
+      { name: 'pl_check_limit', params: [s('pipeid'), s('alg'), i('limit')], returns: 'code', description: 'Check the pipe limit, creating the pipe if needed' },
+      { name: 'pl_drop', params: [], returns: 'code', description: 'Reply 503 with a Retry-After header' },
+      { name: 'pl_drop_retry', params: [i('rafter')], returns: 'code', description: 'Reply 503 with the given Retry-After' },
+      { name: 'pl_drop_range', params: [i('rmin'), i('rmax')], returns: 'code', description: 'Reply 503 with a random Retry-After in the range' },
+    ],
+  },
+  {
+    name: 'ipops',
+    kamailioModule: 'ipops',
+    description: 'IP address operations',
+    functions: [
+      { name: 'is_ip', params: [s('sval')], returns: 'code', description: 'Check if the value is an IP address' },
+      { name: 'is_ipv4', params: [s('sval')], returns: 'code', description: 'Check if the value is an IPv4 address' },
+      { name: 'is_ipv6', params: [s('sval')], returns: 'code', description: 'Check if the value is an IPv6 address' },
+      { name: 'is_pure_ip', params: [s('sval')], returns: 'code', description: 'Check if the value is an IP address without brackets' },
+      { name: 'is_ip_rfc1918', params: [s('sval')], returns: 'code', description: 'Check if the value is a private (RFC 1918) address' },
+      { name: 'is_in_subnet', params: [s('sval'), s('subnet')], returns: 'code', description: 'Check if the address is in the subnet (comma separated list allowed)' },
+      { name: 'compare_ips', params: [s('ip1'), s('ip2')], returns: 'code', description: 'Check if the addresses are equal' },
+      { name: 'dns_query', params: [s('naptrname'), s('pvid')], returns: 'code', description: 'Resolve the host and store the addresses in $dns(pvid=>...)' },
+      { name: 'srv_query', params: [s('srvcname'), s('pvid')], returns: 'code', description: 'Resolve the SRV records and store them in $srvquery(pvid=>...)' },
+      { name: 'naptr_query', params: [s('naptrname'), s('pvid')], returns: 'code', description: 'Resolve the NAPTR records and store them in $naptrquery(pvid=>...)' },
+    ],
+  },
+  {
+    name: 'evapi',
+    kamailioModule: 'evapi',
+    description: 'Event API over TCP',
+    functions: [
+      { name: 'relay', params: [s('sdata')], returns: 'code', description: 'Send the data to all connected clients' },
+      { name: 'async_relay', params: [s('sdata')], returns: 'code', description: 'Suspend the transaction and send the data to all connected clients' },
+      { name: 'multicast', params: [s('sdata'), s('stag')], returns: 'code', description: 'Send the data to the clients with the tag' },
+      { name: 'unicast', params: [s('sdata'), s('stag')], returns: 'code', description: 'Send the data to the first client with the tag' },
+      { name: 'async_multicast', params: [s('sdata'), s('stag')], returns: 'code', description: 'Suspend the transaction and send the data to the clients with the tag' },
+      { name: 'async_unicast', params: [s('sdata'), s('stag')], returns: 'code', description: 'Suspend the transaction and send the data to the first client with the tag' },
+      { name: 'set_tag', params: [s('stag')], returns: 'code', description: 'Set the tag for the current client connection' },
+      { name: 'close', params: [], returns: 'code', description: 'Close the current client connection' },
+    ],
+  },
+  {
+    name: 'websocket',
+    kamailioModule: 'websocket',
+    description: 'WebSocket transport',
+    functions: [
+      { name: 'handle_handshake', params: [], returns: 'code', description: 'Handle the WebSocket handshake of the HTTP request' },
+      { name: 'close', params: [], returns: 'code', description: 'Close the WebSocket connection of the message' },
+      { name: 'close_reason', params: [i('status'), s('reason')], returns: 'code', description: 'Close the WebSocket connection with status and reason' },
+    ],
+  },
+  {
+    name: 'xhttp',
+    kamailioModule: 'xhttp',
+    description: 'Basic HTTP server',
+    functions: [
+      { name: 'xhttp_reply', params: [i('code'), s('reason'), s('ctype'), s('body')], returns: 'code', description: 'Send an HTTP reply' },
+    ],
+  },
+  {
+    name: 'dmq',
+    kamailioModule: 'dmq',
+    description: 'Distributed message queue',
+    functions: [
+      { name: 'handle_message', params: [], returns: 'code', description: 'Handle a received KDMQ message' },
+      { name: 'is_from_node', params: [], returns: 'code', description: 'Check if the message comes from a DMQ node' },
+      { name: 'bcast_message', params: [s('peer'), s('body'), s('ctype')], returns: 'code', description: 'Broadcast a message to all the nodes of the peer' },
+      { name: 'send_message', params: [s('peer'), s('node'), s('body'), s('ctype')], returns: 'code', description: 'Send a message to the node' },
+      { name: 't_replicate', params: [], returns: 'code', description: 'Replicate the request to all the DMQ nodes' },
+      { name: 't_replicate_mode', params: [i('mode')], returns: 'code', description: 'Replicate the request to all the DMQ nodes, with mode' },
+    ],
+  },
+  {
+    name: 'tsilo',
+    kamailioModule: 'tsilo',
+    description: 'Transaction storage for late branches',
+    functions: [
+      { name: 'ts_store', params: [], returns: 'code', description: 'Store the transaction for the R-URI' },
+      { name: 'ts_store_uri', params: [s('uri')], returns: 'code', description: 'Store the transaction for the URI' },
+      { name: 'ts_append', params: [s('table'), s('ruri')], returns: 'code', description: 'Add new branches to the stored transactions of the R-URI' },
+      { name: 'ts_append_to', params: [i('tindex'), i('tlabel'), s('table')], returns: 'code', description: 'Add new branches to the given transaction' },
+    ],
+  },
+  {
+    name: 'msilo',
+    kamailioModule: 'msilo',
+    description: 'Offline message storage',
+    functions: [
+      { name: 'm_store', params: [], returns: 'code', description: 'Store the MESSAGE for later delivery' },
+      { name: 'm_store_uri', params: [s('owner')], returns: 'code', description: 'Store the MESSAGE for the owner URI' },
+      { name: 'm_dump', params: [], returns: 'code', description: 'Send the stored messages for the REGISTER AoR' },
+      { name: 'm_dump_uri', params: [s('owner')], returns: 'code', description: 'Send the stored messages for the owner URI' },
+    ],
+  },
+  {
+    name: 'presence',
+    kamailioModule: 'presence',
+    description: 'Presence server',
+    functions: [
+      { name: 'handle_publish', params: [], returns: 'code', description: 'Handle a PUBLISH request' },
+      { name: 'handle_publish_uri', params: [s('sender_uri')], returns: 'code', description: 'Handle a PUBLISH request for the sender URI' },
+      { name: 'handle_subscribe', params: [], returns: 'code', description: 'Handle a SUBSCRIBE request' },
+      { name: 'handle_subscribe_uri', params: [s('wuri')], returns: 'code', description: 'Handle a SUBSCRIBE request for the watcher URI' },
+      { name: 'pres_refresh_watchers', params: [s('pres_uri'), s('event'), i('type')], returns: 'code', description: 'Notify the watchers of the presentity' },
+      { name: 'pres_update_watchers', params: [s('pres_uri'), s('event')], returns: 'code', description: 'Update the watchers of the presentity' },
+    ],
+  },
+  {
+    name: 'mqueue',
+    kamailioModule: 'mqueue',
+    description: 'Shared memory message queues',
+    functions: [
+      { name: 'mq_add', params: [s('mq'), s('key'), s('val')], returns: 'code', description: 'Add a key/value pair to the queue' },
+      { name: 'mq_fetch', params: [s('mq')], returns: 'code', description: 'Fetch the next item of the queue into $mqk/$mqv' },
+      { name: 'mq_size', params: [s('mq')], returns: 'int', description: 'Number of items in the queue' },
+      { name: 'mq_pv_free', params: [s('mq')], returns: 'code', description: 'Free the fetched item of the queue' },
+    ],
+  },
+  {
+    name: 'topos',
+    kamailioModule: 'topos',
+    description: 'Topology stripping',
+    functions: [
+      { name: 'tps_set_context', params: [s('ctx')], returns: 'code', description: 'Set the topology stripping context for the message' },
+    ],
+  },
+  {
+    name: 'tcpops',
+    kamailioModule: 'tcpops',
+    description: 'TCP connection operations',
+    functions: [
+      { name: 'tcp_keepalive_enable', params: [i('idle'), i('count'), i('interval')], returns: 'code', description: 'Enable TCP keepalive on the current connection' },
+      { name: 'tcp_keepalive_disable', params: [], returns: 'code', description: 'Disable TCP keepalive on the current connection' },
+      { name: 'tcp_set_connection_lifetime', params: [i('time')], returns: 'code', description: 'Set the lifetime of the current connection' },
+      { name: 'tcp_enable_closed_event', params: [], returns: 'code', description: 'Enable the tcp:closed event for the current connection' },
+      { name: 'tcp_conid_state', params: [i('conid')], returns: 'code', description: 'Get the state of the connection' },
+    ],
+  },
+  {
+    name: 'file_out',
+    kamailioModule: 'file_out',
+    description: 'Write to files rotated by the module',
+    functions: [
+      { name: 'file_out', params: [s('fname', 'File name as configured with the file modparam'), s('data')], returns: 'code', description: 'Append the text, with PVs expanded, to the file', since: '5.8' },
+    ],
+  },
+];
@@ -0,0 +1,24 @@
+/** Kind of Kamailio route a piece of KEMI code can run in. */
+export type RouteType =
+  | 'request'
+  | 'failure'
+  | 'branch'
+  | 'onreply'
+  | 'branch_failure'
+  | 'reply'
+  | 'onsend'
+  | 'event'
+  | 'init';
+
+/** Native cfg name of each route type, for messages. */
+export const ROUTE_TYPE_LABELS: Record<RouteType, string> = {
+  request: 'request_route',
+  failure: 'failure_route',
+  branch: 'branch_route',
+  onreply: 'onreply_route',
+  branch_failure: 'branch_failure_route',
+  reply: 'reply_route',
+  onsend: 'onsend_route',
+  event: 'event_route',
+  init: 'mod_init/child_init',
+};
@@ -4,6 +4,7 @@ import {
   InitializeParams,
   InitializeResult,
   TextDocumentSyncKind,
+  CodeActionKind,
 } from 'vscode-languageserver/node';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -12,14 +13,21 @@ import { AnalyzerRegistry } from './core/analyzerRegistry';
 import { DocumentManager } from './core/documentManager';
 import { initTreeSitter } from './core/treeSitterInit';
 import { WorkspaceIndexer } from './core/workspaceIndexer';
+import { parseKamailioVersion } from './core/kamailioVersion';
 import { PvAnalyzer } from './analyzers/pvAnalyzer/index';
 import { CallGraphAnalyzer } from './analyzers/callGraphAnalyzer/index';
+import { KemiAnalyzer } from './analyzers/kemiAnalyzer/index';
+import { KemiCatalog, parseKemiApiDump } from './analyzers/kemiAnalyzer/kemiCatalog';
+import { CallGraphFormat, formatCallGraph } from './analyzers/callGraphAnalyzer/callGraphExport';
 
 const connection = createConnection(ProposedFeatures.all);
 
 let documentManager: DocumentManager;
 let registry: AnalyzerRegistry;
 let workspaceIndexer: WorkspaceIndexer;
+let kemiAnalyzer: KemiAnalyzer;
+let callGraphAnalyzer: CallGraphAnalyzer;
+let kemiApiFile: string | null = null;
 
 // Debounce diagnostics so intermediate keystrokes don't flood the UI
 const diagnosticTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
@@ -122,10 +130,12 @@ connection.onInitialize(async (params: InitializeParams): Promise<InitializeResu
 
   workspaceIndexer = new WorkspaceIndexer(connection, documentManager, workspaceRoots);
 
-  const callGraphAnalyzer = new CallGraphAnalyzer(
+  callGraphAnalyzer = new CallGraphAnalyzer(
     () => workspaceIndexer.getWorkspaceRoots(),
     () => workspaceIndexer.getKnownFiles(),
-    () => workspaceIndexer.getDeclaredStats()
+    () => workspaceIndexer.getDeclaredStats(),
+    () => workspaceIndexer.getCfgCallbacks(),
+    () => workspaceIndexer.getDeclaredHtables()
   );
   const pvAnalyzer = new PvAnalyzer();
   pvAnalyzer.setCallGraphAnalyzer(callGraphAnalyzer);
@@ -134,12 +144,40 @@ connection.onInitialize(async (params: InitializeParams): Promise<InitializeResu
   // updated first when a document changes
   registry.register(callGraphAnalyzer);
   registry.register(pvAnalyzer);
+  kemiAnalyzer = new KemiAnalyzer(() => workspaceIndexer.getLoadedModules());
+  kemiAnalyzer.setCallGraphAnalyzer(callGraphAnalyzer);
+
+  // Optional KEMI API dump replaces the bundled function catalog
+  const apiFileOption: string | undefined = params.initializationOptions?.kemiApiFile;
+  if (apiFileOption) {
+    kemiApiFile = path.resolve(workspaceRoots[0] || '', apiFileOption);
+    loadKemiCatalog(kemiApiFile);
+  }
+  registry.register(kemiAnalyzer);
+
+  const uncheckedReturnAllowlist: string[] = params.initializationOptions?.uncheckedReturnAllowlist || [];
+  kemiAnalyzer.setUncheckedReturnAllowlist(uncheckedReturnAllowlist);
+
+  const deadCodeRoots: string[] = params.initializationOptions?.deadCodeRoots || [];
+  callGraphAnalyzer.setExtraRoots(deadCodeRoots);
+
+  // Target Kamailio version for PV/KEMI availability checks
+  const kamailioVersion: string | undefined = params.initializationOptions?.kamailioVersion;
+  if (kamailioVersion) {
+    if (parseKamailioVersion(kamailioVersion)) {
+      pvAnalyzer.setKamailioVersion(kamailioVersion);
+      kemiAnalyzer.setKamailioVersion(kamailioVersion);
+      connection.console.log(`[init] Target Kamailio version: ${kamailioVersion}`);
+    } else {
+      connection.console.error(`[init] Ignoring invalid Kamailio version '${kamailioVersion}'`);
+    }
+  }
 
   return {
     capabilities: {
       textDocumentSync: TextDocumentSyncKind.Incremental,
       completionProvider: {
-        triggerCharacters: ['$', '(', '"', "'"],
+        triggerCharacters: ['$', '(', '"', "'", '.'],
       },
       semanticTokensProvider: {
         legend: {
@@ -149,8 +187,16 @@ connection.onInitialize(async (params: InitializeParams): Promise<InitializeResu
         full: true,
       },
       definitionProvider: true,
+      callHierarchyProvider: true,
+      renameProvider: { prepareProvider: true },
       referencesProvider: true,
       hoverProvider: true,
+      signatureHelpProvider: {
+        triggerCharacters: ['(', ','],
+      },
+      codeActionProvider: {
+        codeActionKinds: [CodeActionKind.QuickFix],
+      },
     },
   };
 });
@@ -159,6 +205,10 @@ connection.onInitialized(async () => {
   await workspaceIndexer.scanWorkspace();
   // Re-analyze all documents that were opened before scanning finished,
   // so they pick up cross-file constants and declared stats.
+  reanalyzeAll();
+});
+
+function reanalyzeAll(): void {
   for (const uri of documentManager.getAllUris()) {
     const state = documentManager.getDocumentState(uri);
     if (state) {
@@ -173,15 +223,28 @@ connection.onInitialized(async () => {
       sendDecorations(uri);
     }
   }
-});
+}
 
 connection.onDidChangeWatchedFiles((params) => {
   for (const change of params.changes) {
+    if (kemiApiFile && change.uri === 'file://' + kemiApiFile) {
+      loadKemiCatalog(kemiApiFile);
+      scheduleAllDiagnostics();
+      continue;
+    }
     workspaceIndexer.onFileChange(change.uri, change.type);
+    // cfg callbacks decide which KEMI methods are entry points
+    if (isCfgUri(change.uri)) reanalyzeAll();
   }
 });
 
+// cfg files are only opened for go-to-definition; their declarations come from the workspace scan
+function isCfgUri(uri: string): boolean {
+  return uri.endsWith('.cfg');
+}
+
 connection.onDidOpenTextDocument((params) => {
+  if (isCfgUri(params.textDocument.uri)) return;
   documentManager.openDocument(
     params.textDocument.uri,
     params.textDocument.text,
@@ -194,6 +257,7 @@ connection.onDidOpenTextDocument((params) => {
 });
 
 connection.onDidChangeTextDocument((params) => {
+  if (isCfgUri(params.textDocument.uri)) return;
   documentManager.changeDocument(params);
   scheduleDiagnostics(params.textDocument.uri);
   sendDecorations(params.textDocument.uri);
@@ -202,6 +266,7 @@ connection.onDidChangeTextDocument((params) => {
 });
 
 connection.onDidCloseTextDocument((params) => {
+  if (isCfgUri(params.textDocument.uri)) return;
   documentManager.closeDocument(params.textDocument.uri);
   workspaceIndexer.markEditorClosed(params.textDocument.uri);
   connection.sendDiagnostics({ uri: params.textDocument.uri, diagnostics: [] });
@@ -220,6 +285,9 @@ connection.onCompletion((params) => {
 });
 
 connection.onDefinition((params) => {
+  if (isCfgUri(params.textDocument.uri)) {
+    return callGraphAnalyzer.getCfgCallbackDefinitions(params.textDocument.uri, params.position);
+  }
   const state = documentManager.getDocumentState(params.textDocument.uri);
   if (!state) return null;
   return registry.getDefinitions(
@@ -228,6 +296,47 @@ connection.onDefinition((params) => {
   );
 });
 
+connection.onPrepareRename((params) => {
+  const state = documentManager.getDocumentState(params.textDocument.uri);
+  if (!state) return null;
+  return registry.prepareRename(
+    { uri: state.uri, tree: state.tree, fullText: state.content },
+    params.position
+  );
+});
+
+connection.onRenameRequest((params) => {
+  const state = documentManager.getDocumentState(params.textDocument.uri);
+  if (!state) return null;
+  return registry.getRenameEdits(
+    { uri: state.uri, tree: state.tree, fullText: state.content },
+    params.position,
+    params.newName
+  );
+});
+
+connection.languages.callHierarchy.onPrepare((params) => {
+  const state = documentManager.getDocumentState(params.textDocument.uri);
+  if (!state) return null;
+  return callGraphAnalyzer.prepareCallHierarchy(
+    { uri: state.uri, tree: state.tree, fullText: state.content },
+    params.position
+  );
+});
+
+connection.languages.callHierarchy.onIncomingCalls((params) => {
+  return callGraphAnalyzer.getIncomingCalls(params.item);
+});
+
+connection.languages.callHierarchy.onOutgoingCalls((params) => {
+  return callGraphAnalyzer.getOutgoingCalls(params.item);
+});
+
+// Routing diagram for the client's "Export Call Graph" command
+connection.onRequest('kamailio/exportCallGraph', (params: { format: CallGraphFormat }) => {
+  return formatCallGraph(callGraphAnalyzer.getRoutingGraph(), params.format);
+});
+
 connection.onReferences((params) => {
   const state = documentManager.getDocumentState(params.textDocument.uri);
   if (!state) return [];
@@ -246,6 +355,25 @@ connection.onHover((params) => {
   );
 });
 
+connection.onSignatureHelp((params) => {
+  const state = documentManager.getDocumentState(params.textDocument.uri);
+  if (!state) return null;
+  return registry.getSignatureHelp(
+    { uri: state.uri, tree: state.tree, fullText: state.content },
+    params.position
+  );
+});
+
+connection.onCodeAction((params) => {
+  const state = documentManager.getDocumentState(params.textDocument.uri);
+  if (!state) return [];
+  return registry.getCodeActions(
+    { uri: state.uri, tree: state.tree, fullText: state.content },
+    params.range,
+    params.context.diagnostics
+  );
+});
+
 connection.languages.semanticTokens.on((params) => {
   const state = documentManager.getDocumentState(params.textDocument.uri);
   if (!state) {
@@ -280,6 +408,18 @@ connection.languages.semanticTokens.on((params) => {
   return { data };
 });
 
+/** Load a KEMI API dump as the function catalog, falling back to the bundled one. */
+function loadKemiCatalog(filePath: string): void {
+  try {
+    const catalog = parseKemiApiDump(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+    kemiAnalyzer.setCatalog(catalog);
+    connection.console.log(`[init] Loaded ${catalog.modules.length} KEMI modules from ${filePath}`);
+  } catch (err) {
+    kemiAnalyzer.setCatalog(KemiCatalog.bundled());
+    connection.console.error(`[init] Could not load KEMI API file ${filePath}: ${err}`);
+  }
+}
+
 /** Expand extra paths: include .pth file entries from site-packages dirs. */
 function resolveExtraPaths(extraPaths: string[]): string[] {
   const result: string[] = [];